@@ -0,0 +1,147 @@
+// ---------------------------------------------------------------------------
+// Quantization accuracy benchmark
+//
+// Stores synthetic clustered embeddings as float32, int8 and binary and
+// compares each encoding's top-k results and scores against float32. Binary
+// shortlists are re-scored against int8 rows, as the vector store does.
+//
+//   npm run bench:quantization -- --vectors 20000 --dimensions 384 --queries 200
+//
+// Options: --vectors, --dimensions, --queries, --k, --rescore (binary
+// re-score multiplier; comma-separated values to sweep).
+// ---------------------------------------------------------------------------
+
+import { EmbeddingMatrix, encodeEmbedding, type Quantization } from "../src/quantization.js";
+
+function option(name: string, fallback: string): string {
+    const index = process.argv.indexOf(`--${name}`);
+    return index !== -1 && process.argv[index + 1] ? process.argv[index + 1] : fallback;
+}
+
+const VECTORS = Number(option("vectors", "10000"));
+const DIMENSIONS = Number(option("dimensions", "384"));
+const QUERIES = Number(option("queries", "200"));
+const K = Number(option("k", "10"));
+const RESCORE_VALUES = option("rescore", "1,2,4,8,16").split(",").map(Number);
+
+// Seeded PRNG so runs are comparable
+let seed = 42;
+function random(): number {
+    seed = (seed * 1664525 + 1013904223) >>> 0;
+    return seed / 4294967296;
+}
+
+function gaussian(): number {
+    return Math.sqrt(-2 * Math.log(random() + 1e-12)) * Math.cos(2 * Math.PI * random());
+}
+
+function normalized(vector: Float32Array): Float32Array {
+    let norm = 0;
+    for (const value of vector) norm += value * value;
+    const scale = norm > 0 ? 1 / Math.sqrt(norm) : 0;
+    return vector.map((value) => value * scale);
+}
+
+// Sentence embeddings cluster by topic: draw points around a few hundred centroids
+const centroids = Array.from({ length: Math.max(8, Math.round(Math.sqrt(VECTORS))) }, () =>
+    normalized(Float32Array.from({ length: DIMENSIONS }, gaussian))
+);
+
+function sample(): Float32Array {
+    const centroid = centroids[Math.floor(random() * centroids.length)];
+    return normalized(centroid.map((value) => value + gaussian() * 0.05));
+}
+
+function norm(vector: Float32Array): number {
+    let sum = 0;
+    for (const value of vector) sum += value * value;
+    return Math.sqrt(sum);
+}
+
+function topK(scores: Float64Array, rows: number[]): number[] {
+    return [...rows].sort((a, b) => scores[b] - scores[a]).slice(0, K);
+}
+
+function recall(results: number[], truth: Set<number>): number {
+    return results.filter((row) => truth.has(row)).length;
+}
+
+function ms(value: number): string {
+    return `${value.toFixed(3)} ms`;
+}
+
+const data = Array.from({ length: VECTORS }, sample);
+const queries = Array.from({ length: QUERIES }, sample);
+const allRows = data.map((_, row) => row);
+
+console.log(`Quantization benchmark: ${VECTORS} vectors × ${DIMENSIONS} dims, ${QUERIES} queries, k=${K}`);
+
+const matrices = new Map<Quantization, EmbeddingMatrix>();
+for (const quantization of ["none", "int8", "binary"] as Quantization[]) {
+    const matrix = new EmbeddingMatrix(DIMENSIONS, quantization, VECTORS);
+    data.forEach((vector, row) => matrix.set(row, vector));
+    matrices.set(quantization, matrix);
+}
+
+function scan(matrix: EmbeddingMatrix, query: Float32Array, rows: number[]): Float64Array {
+    const queryNorm = norm(query);
+    const scores = new Float64Array(VECTORS);
+    for (const row of rows) scores[row] = matrix.similarity(row, query, queryNorm);
+    return scores;
+}
+
+// ── Exact float32 baseline ──
+const floatScores = queries.map((query) => scan(matrices.get("none")!, query, allRows));
+const truth = floatScores.map((scores) => new Set(topK(scores, allRows)));
+
+// ── Full scans ──
+console.log("");
+console.log("encoding   bytes/vector   matrix size   recall@k   mean |Δscore|   p50 latency");
+for (const [quantization, matrix] of matrices) {
+    const latencies: number[] = [];
+    let hits = 0;
+    let error = 0;
+    queries.forEach((query, q) => {
+        const t = performance.now();
+        const scores = scan(matrix, query, allRows);
+        const results = topK(scores, allRows);
+        latencies.push(performance.now() - t);
+        hits += recall(results, truth[q]);
+        // Score error on the true neighbours, where ranking decisions are made
+        for (const row of truth[q]) error += Math.abs(scores[row] - floatScores[q][row]);
+    });
+    latencies.sort((a, b) => a - b);
+    console.log(
+        `${quantization.padEnd(10)} ${String(encodeEmbedding(data[0], quantization).byteLength).padEnd(14)} ` +
+        `${`${(matrix.byteLength / 1024 / 1024).toFixed(1)} MB`.padEnd(13)} ${(hits / (QUERIES * K)).toFixed(4).padEnd(10)} ` +
+        `${(error / (QUERIES * K)).toFixed(4).padEnd(15)} ${ms(latencies[Math.floor(latencies.length / 2)])}`
+    );
+}
+
+// ── Binary: Hamming shortlist + re-score against the stored int8 rows ──
+const binary = matrices.get("binary")!;
+const stored = matrices.get("int8")!;
+console.log("");
+console.log("binary re-score   candidates   recall@k   mean |Δscore|   p50 latency");
+for (const multiplier of RESCORE_VALUES) {
+    const latencies: number[] = [];
+    let hits = 0;
+    let error = 0;
+    queries.forEach((query, q) => {
+        const t = performance.now();
+        const queryBits = encodeEmbedding(query, "binary");
+        const distances = new Uint32Array(VECTORS);
+        for (const row of allRows) distances[row] = binary.hammingDistance(row, queryBits);
+        const shortlist = [...allRows].sort((a, b) => distances[a] - distances[b]).slice(0, K * multiplier);
+        const scores = scan(stored, query, shortlist);
+        const results = topK(scores, shortlist);
+        latencies.push(performance.now() - t);
+        hits += recall(results, truth[q]);
+        for (const row of results) error += Math.abs(scores[row] - floatScores[q][row]);
+    });
+    latencies.sort((a, b) => a - b);
+    console.log(
+        `${`×${multiplier}`.padEnd(17)} ${String(K * multiplier).padEnd(12)} ${(hits / (QUERIES * K)).toFixed(4).padEnd(10)} ` +
+        `${(error / (QUERIES * K)).toFixed(4).padEnd(15)} ${ms(latencies[Math.floor(latencies.length / 2)])}`
+    );
+}
@@ -0,0 +1,147 @@
+// ---------------------------------------------------------------------------
+// HNSW recall / latency benchmark
+//
+// Builds an HNSW index over synthetic clustered embeddings, held in an
+// EmbeddingMatrix as in the vector store, and compares its top-k results
+// against an exact float32 brute-force scan.
+//
+//   npm run bench:vectors -- --vectors 20000 --dimensions 384 --queries 200
+//
+// Options: --vectors, --dimensions, --queries, --k, --m, --ef-construction,
+// --ef (comma-separated efSearch values to sweep), --delete (fraction of
+// vectors removed after the build, to measure search after link repair),
+// --quantization (encoding of the matrix the index reads: none, int8, binary).
+// ---------------------------------------------------------------------------
+
+import { HnswIndex, type HnswVectorSource } from "../src/hnsw.js";
+import { EmbeddingMatrix, type Quantization } from "../src/quantization.js";
+
+function option(name: string, fallback: string): string {
+    const index = process.argv.indexOf(`--${name}`);
+    return index !== -1 && process.argv[index + 1] ? process.argv[index + 1] : fallback;
+}
+
+const VECTORS = Number(option("vectors", "10000"));
+const DIMENSIONS = Number(option("dimensions", "384"));
+const QUERIES = Number(option("queries", "200"));
+const K = Number(option("k", "10"));
+const M = Number(option("m", "16"));
+const EF_CONSTRUCTION = Number(option("ef-construction", "200"));
+const EF_VALUES = option("ef", "16,32,64,128,256").split(",").map(Number);
+const DELETE_FRACTION = Number(option("delete", "0"));
+const QUANTIZATION = option("quantization", "none") as Quantization;
+
+// Seeded PRNG so runs are comparable
+let seed = 42;
+function random(): number {
+    seed = (seed * 1664525 + 1013904223) >>> 0;
+    return seed / 4294967296;
+}
+
+function gaussian(): number {
+    return Math.sqrt(-2 * Math.log(random() + 1e-12)) * Math.cos(2 * Math.PI * random());
+}
+
+function normalized(vector: Float32Array): Float32Array {
+    let norm = 0;
+    for (const value of vector) norm += value * value;
+    const scale = norm > 0 ? 1 / Math.sqrt(norm) : 0;
+    return vector.map((value) => value * scale);
+}
+
+// Sentence embeddings cluster by topic: draw points around a few hundred centroids
+const centroids = Array.from({ length: Math.max(8, Math.round(Math.sqrt(VECTORS))) }, () =>
+    normalized(Float32Array.from({ length: DIMENSIONS }, gaussian))
+);
+
+function sample(): Float32Array {
+    const centroid = centroids[Math.floor(random() * centroids.length)];
+    return normalized(centroid.map((value) => value + gaussian() * 0.05));
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+    return sum;
+}
+
+function percentile(values: number[], p: number): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))];
+}
+
+function ms(value: number): string {
+    return `${value.toFixed(3)} ms`;
+}
+
+const data = Array.from({ length: VECTORS }, sample);
+const queries = Array.from({ length: QUERIES }, sample);
+
+console.log(
+    `HNSW benchmark: ${VECTORS} vectors × ${DIMENSIONS} dims (${QUANTIZATION}), ${QUERIES} queries, k=${K}, ` +
+    `M=${M}, efConstruction=${EF_CONSTRUCTION}`
+);
+
+// Labels are row numbers
+const matrix = new EmbeddingMatrix(DIMENSIONS, QUANTIZATION, VECTORS);
+data.forEach((vector, i) => matrix.set(i, vector));
+const source: HnswVectorSource = {
+    similarity: (a, b) => matrix.rowSimilarity(Number(a), Number(b)),
+    querySimilarity: (label, query, queryNorm) => matrix.similarity(Number(label), query, queryNorm),
+};
+
+// ── Build ──
+const index = new HnswIndex(DIMENSIONS, source, { m: M, efConstruction: EF_CONSTRUCTION });
+let start = performance.now();
+data.forEach((_, i) => index.add(String(i)));
+const buildMs = performance.now() - start;
+console.log(`Build:        ${(buildMs / 1000).toFixed(2)} s (${ms(buildMs / VECTORS)} per insert)`);
+
+const removed = new Set<number>();
+while (removed.size < Math.floor(VECTORS * DELETE_FRACTION)) {
+    const i = Math.floor(random() * VECTORS);
+    removed.add(i);
+}
+if (removed.size > 0) {
+    start = performance.now();
+    index.remove([...removed].map(String));
+    console.log(`Removed:      ${removed.size} vectors in ${ms(performance.now() - start)}`);
+}
+
+start = performance.now();
+const serialized = index.serialize();
+const restored = HnswIndex.deserialize(serialized, source);
+console.log(`Persist:      ${(serialized.length / 1024 / 1024).toFixed(1)} MB, save + load ${ms(performance.now() - start)}`);
+
+// ── Exact baseline ──
+const bruteLatencies: number[] = [];
+const truth = queries.map((query) => {
+    const t = performance.now();
+    const scored: [number, number][] = [];
+    for (let i = 0; i < data.length; i++) {
+        if (!removed.has(i)) scored.push([dot(query, data[i]), i]);
+    }
+    scored.sort((a, b) => b[0] - a[0]);
+    bruteLatencies.push(performance.now() - t);
+    return new Set(scored.slice(0, K).map(([, i]) => String(i)));
+});
+console.log(`Brute force:  p50 ${ms(percentile(bruteLatencies, 50))}, p95 ${ms(percentile(bruteLatencies, 95))}`);
+
+// ── HNSW sweep ──
+console.log("");
+console.log("efSearch   recall@k   p50 latency   p95 latency   speedup (p50)");
+for (const ef of EF_VALUES) {
+    const latencies: number[] = [];
+    let hits = 0;
+    queries.forEach((query, q) => {
+        const t = performance.now();
+        const results = restored.search(query, K, ef);
+        latencies.push(performance.now() - t);
+        hits += results.filter((result) => truth[q].has(result.label)).length;
+    });
+    const recall = hits / (QUERIES * K);
+    const p50 = percentile(latencies, 50);
+    console.log(
+        `${String(ef).padEnd(10)} ${recall.toFixed(4).padEnd(10)} ${ms(p50).padEnd(13)} ${ms(percentile(latencies, 95)).padEnd(13)} ${(percentile(bruteLatencies, 50) / p50).toFixed(1)}×`
+    );
+}
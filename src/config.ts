@@ -1,5 +1,7 @@
 import { readFileSync, existsSync } from "fs";
 import { join } from "path";
+import { instanceState } from "./instance.js";
+import type { Quantization } from "./quantization.js";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -8,12 +10,39 @@ import { join } from "path";
 export interface StorageConfig {
     dataDir: string;
     sqliteFile: string;
+    checkpointBytes: number;
+}
+
+export type EmbeddingProviderName = "local" | "openai" | "hashed" | "none";
+
+export interface LocalEmbeddingConfig {
+    dtype: string;
+    batchSize: number;
+}
+
+export interface OpenAiEmbeddingConfig {
+    baseUrl: string;
+    apiKey: string;
+    batchSize: number;
+    timeoutMs: number;
 }
 
 export interface EmbeddingConfig {
-    provider: "local" | "none";
+    provider: EmbeddingProviderName;
     model: string;
     dimensions: number;
+    quantization: Quantization;
+    rescoreMultiplier: number;
+    local: LocalEmbeddingConfig;
+    openai: OpenAiEmbeddingConfig;
+}
+
+export interface VectorIndexConfig {
+    enabled: boolean;
+    minVectors: number;
+    m: number;
+    efConstruction: number;
+    efSearch: number;
 }
 
 export interface TokenBudgetConfig {
@@ -26,7 +55,11 @@ export interface TokenBudgetConfig {
     defaultRetrieveBudget: number;
 }
 
+export type CompressionStrategy = "extractive" | "truncate";
+
 export interface CompressionConfig {
+    strategy: CompressionStrategy;
+    sampling: boolean;
     tier0OverflowThreshold: number;
     tier1ConsolidationCount: number;
     confidenceDecayRate: number;
@@ -43,17 +76,30 @@ export interface RankingConfig {
 
 export interface SessionConfig {
     autoStartOnBoot: boolean;
+    resumeOnBoot: boolean;
+    /** HTTP only: close connections idle this long, archiving their session (0 = never) */
+    idleTimeoutMs: number;
 }
 
 export interface LatentContextConfig {
     storage: StorageConfig;
     embedding: EmbeddingConfig;
+    vectorIndex: VectorIndexConfig;
     tokenBudgets: TokenBudgetConfig;
     compression: CompressionConfig;
     ranking: RankingConfig;
     session: SessionConfig;
 }
 
+/** Any subset of the config, section by section. */
+type SectionOverrides<T> = {
+    [K in keyof T]?: T[K] extends object ? Partial<T[K]> : T[K];
+};
+
+export type ConfigOverrides = {
+    [K in keyof LatentContextConfig]?: SectionOverrides<LatentContextConfig[K]>;
+};
+
 // ---------------------------------------------------------------------------
 // Defaults
 // ---------------------------------------------------------------------------
@@ -62,11 +108,31 @@ const DEFAULT_CONFIG: LatentContextConfig = {
     storage: {
         dataDir: "./data",
         sqliteFile: "memory.db",
+        checkpointBytes: 1024 * 1024, // Snapshot the database once the operation journal reaches 1 MB
     },
     embedding: {
         provider: "local",
         model: "Xenova/all-MiniLM-L6-v2",
         dimensions: 384,
+        quantization: "none",  // "int8" (4× smaller on disk and in memory) or "binary" (32× smaller in memory, int8 on disk)
+        rescoreMultiplier: 4,  // binary: re-score topK × this many Hamming-distance candidates
+        local: {
+            dtype: "fp32",     // ONNX weight precision ("fp16", "q8", ... if the model ships them)
+            batchSize: 32,     // Texts per pipeline call
+        },
+        openai: {
+            baseUrl: "http://localhost:11434/v1", // API root of an OpenAI-compatible server (Ollama here)
+            apiKey: "",        // Sent as a Bearer token when set
+            batchSize: 64,     // Texts per /embeddings request
+            timeoutMs: 30000,
+        },
+    },
+    vectorIndex: {
+        enabled: true,
+        minVectors: 2000,    // Below this many vectors an exact scan is fast enough
+        m: 16,               // Graph links per node (layer 0 keeps 2×)
+        efConstruction: 100, // Beam width while inserting — higher builds a better graph, slower
+        efSearch: 64,        // Beam width while searching — higher raises recall, slower
     },
     tokenBudgets: {
         tier0Working: 16000,        // Working memory buffer — plenty of room for detailed entries
@@ -78,6 +144,8 @@ const DEFAULT_CONFIG: LatentContextConfig = {
         defaultRetrieveBudget: 8000, // Default budget when LLM doesn't specify one
     },
     compression: {
+        strategy: "extractive",        // Keep the most informative sentences ("truncate" keeps the leading tokens)
+        sampling: true,                // Summarize with the client's model when it supports MCP sampling
         tier0OverflowThreshold: 20000, // Compress when working memory exceeds 20K tokens
         tier1ConsolidationCount: 10,
         confidenceDecayRate: 0.01,
@@ -92,6 +160,8 @@ const DEFAULT_CONFIG: LatentContextConfig = {
     },
     session: {
         autoStartOnBoot: true,
+        resumeOnBoot: false,          // Reattach to the last unended session instead of starting fresh
+        idleTimeoutMs: 30 * 60 * 1000, // HTTP connections without requests for this long are closed
     },
 };
 
@@ -126,10 +196,35 @@ function deepMerge(
     return result;
 }
 
-let _config: LatentContextConfig | null = null;
+interface ConfigState {
+    config: LatentContextConfig | null;
+}
+
+function configState(): ConfigState {
+    return instanceState<ConfigState>("config", () => ({ config: null }));
+}
+
+/**
+ * Build a complete config from `overrides` on top of the defaults, with
+ * dataDir resolved to an absolute path.
+ */
+export function resolveConfig(overrides: ConfigOverrides = {}): LatentContextConfig {
+    const config = deepMerge(
+        structuredClone(DEFAULT_CONFIG) as unknown as Record<string, unknown>,
+        overrides as Record<string, unknown>
+    ) as unknown as LatentContextConfig;
+
+    // Resolve dataDir to absolute path
+    if (!config.storage.dataDir.startsWith("/") && !config.storage.dataDir.match(/^[A-Za-z]:\\/)) {
+        config.storage.dataDir = join(process.cwd(), config.storage.dataDir);
+    }
+
+    return config;
+}
 
 export function loadConfig(configPath?: string): LatentContextConfig {
-    if (_config) return _config;
+    const state = configState();
+    if (state.config) return state.config;
 
     let userConfig: Record<string, unknown> = {};
 
@@ -152,26 +247,21 @@ export function loadConfig(configPath?: string): LatentContextConfig {
         }
     }
 
-    const merged = deepMerge(
-        DEFAULT_CONFIG as unknown as Record<string, unknown>,
-        userConfig
-    ) as unknown as LatentContextConfig;
-
-    _config = merged;
-
-    // Resolve dataDir to absolute path
-    if (!_config.storage.dataDir.startsWith("/") && !_config.storage.dataDir.match(/^[A-Za-z]:\\/)) {
-        _config.storage.dataDir = join(process.cwd(), _config.storage.dataDir);
-    }
-
-    return _config;
+    state.config = resolveConfig(userConfig as ConfigOverrides);
+    return state.config;
 }
 
 export function getConfig(): LatentContextConfig {
-    if (!_config) return loadConfig();
-    return _config;
+    return configState().config ?? loadConfig();
+}
+
+/**
+ * Use `config` for the calling instance instead of reading a config file.
+ */
+export function setConfig(config: LatentContextConfig): void {
+    configState().config = config;
 }
 
 export function resetConfig(): void {
-    _config = null;
+    configState().config = null;
 }
@@ -3,15 +3,22 @@ import {
     getSummariesByTier,
     getSummariesByTierAndSession,
     getSummariesByTierExcludingSession,
+    getSummaryById,
     logAccess,
     getAccessFrequency,
 } from "./database.js";
 import { queryEntity, serializeFacts, getAllFacts } from "./knowledge-graph.js";
-import { searchVectors, type VectorSearchResult, type VectorSearchFilter } from "./vector-store.js";
+import {
+    searchVectors,
+    searchVectorsByEmbedding,
+    getSourceSimilarity,
+    type VectorSearchResult,
+    type VectorSearchFilter,
+} from "./vector-store.js";
 import { countTokens, truncateToTokenBudget } from "./token-counter.js";
-import { cosineSimilarity } from "./embeddings.js";
-import { getCoreMemory, getWorkingMemory } from "./memory-manager.js";
-import { getCurrentSessionIdOrNull, getSessionStartTime } from "./session.js";
+import { embed, cosineSimilarity } from "./embeddings.js";
+import { getCoreMemory, getWorkingMemoryEntries } from "./memory-manager.js";
+import { getCurrentSessionIdOrNull, getCurrentProjectOrNull, getSessionStartTime } from "./session.js";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -23,11 +30,21 @@ interface ContextCandidate {
     tokens: number;
     score: number;
     source: string; // 'core' | 'working' | 'vector' | 'graph' | 'current_session' | 'past_sessions' | 'long_term'
+    tier: number | null; // null for vector hits whose source row is gone
     similarity: number;
     recency: number;
     priority: number;
     frequency: number;
     createdAt: string;
+    origin?: string; // 'session <id>, <date>' label shown by cross-session recall
+}
+
+export interface SelectedMemory {
+    id: string;
+    source: string;
+    tier: number | null;
+    tokens: number;
+    score: number;
 }
 
 export interface AssembledContext {
@@ -38,6 +55,7 @@ export interface AssembledContext {
     sourceCounts: Record<string, number>;
     candidatesConsidered: number;
     candidatesSelected: number;
+    memories: SelectedMemory[];
     sessionId: string | null;
 }
 
@@ -80,6 +98,92 @@ function sourcePriority(source: string): number {
     }
 }
 
+// ---------------------------------------------------------------------------
+// Semantic scoring
+// ---------------------------------------------------------------------------
+
+/**
+ * Similarity of a candidate to the query, clamped to [0, 1].
+ * Every memory is embedded under its own id when stored, so this looks up
+ * the candidate's stored vectors instead of re-embedding its content. Falls
+ * back to embedding the content when it has no stored vector (e.g.
+ * embedding failed at store time).
+ */
+async function candidateSimilarity(
+    id: string,
+    content: string,
+    queryEmbedding: number[]
+): Promise<number> {
+    let similarity = getSourceSimilarity(queryEmbedding, id);
+    if (similarity === undefined) {
+        similarity = cosineSimilarity(queryEmbedding, await embed(content));
+    }
+    return Math.max(0, Math.min(1, similarity));
+}
+
+// ---------------------------------------------------------------------------
+// Filtering
+// ---------------------------------------------------------------------------
+
+const STORED_MEMORY_TYPES = new Set(["fact", "preference", "event", "summary", "core"]);
+
+/**
+ * Memory type of a summary row, read from its metadata. Compression outputs
+ * (auto_compressed, session_archive, ...) count as "summary".
+ */
+function summaryMemoryType(metadata: Record<string, unknown>): string {
+    const type = metadata.type;
+    return typeof type === "string" && STORED_MEMORY_TYPES.has(type) ? type : "summary";
+}
+
+function summaryConfidence(metadata: Record<string, unknown>): number {
+    return typeof metadata.confidence === "number" ? metadata.confidence : 1.0;
+}
+
+function parseMetadata(json: string): Record<string, unknown> {
+    try {
+        return JSON.parse(json || "{}") as Record<string, unknown>;
+    } catch {
+        return {};
+    }
+}
+
+/**
+ * Check a candidate's type, timestamp and confidence against retrieval filters.
+ * Timestamps are compared as instants, so "2025-01-01T10:00" and full ISO
+ * strings with offsets both work.
+ */
+function matchesFilters(
+    memoryType: string,
+    createdAt: string,
+    confidence: number,
+    filters?: VectorSearchFilter
+): boolean {
+    if (!filters) return true;
+
+    if (
+        filters.sourceTypes &&
+        filters.sourceTypes.length > 0 &&
+        !filters.sourceTypes.includes(memoryType)
+    ) {
+        return false;
+    }
+
+    const created = new Date(createdAt).getTime();
+    if (filters.after && created < new Date(filters.after).getTime()) {
+        return false;
+    }
+    if (filters.before && created > new Date(filters.before).getTime()) {
+        return false;
+    }
+
+    if (filters.minConfidence !== undefined && confidence < filters.minConfidence) {
+        return false;
+    }
+
+    return true;
+}
+
 // ---------------------------------------------------------------------------
 // Deduplication
 // ---------------------------------------------------------------------------
@@ -158,6 +262,66 @@ function extractEntityMentions(query: string): string[] {
     return entities.filter((e) => !stopWords.has(e) && e.length > 1);
 }
 
+// ---------------------------------------------------------------------------
+// Selection
+// ---------------------------------------------------------------------------
+
+/**
+ * Score candidates by composite relevance, deduplicate, and greedily fill
+ * the budget in score order. Logs an access for every selected candidate.
+ */
+function selectCandidates(
+    candidates: ContextCandidate[],
+    budget: number
+): { selected: ContextCandidate[]; remainingBudget: number; sourceCounts: Record<string, number> } {
+    const weights = getConfig().ranking;
+    for (const candidate of candidates) {
+        candidate.score =
+            weights.semanticWeight * candidate.similarity +
+            weights.recencyWeight * candidate.recency +
+            weights.priorityWeight * candidate.priority +
+            weights.frequencyWeight * candidate.frequency;
+    }
+
+    const deduped = deduplicate(candidates, weights.dedupSimilarityThreshold);
+    deduped.sort((a, b) => b.score - a.score);
+
+    const selected: ContextCandidate[] = [];
+    const sourceCounts: Record<string, number> = {};
+    let remainingBudget = budget;
+    for (const candidate of deduped) {
+        if (candidate.tokens <= remainingBudget) {
+            selected.push(candidate);
+            remainingBudget -= candidate.tokens;
+            sourceCounts[candidate.source] = (sourceCounts[candidate.source] || 0) + 1;
+
+            // Log access for frequency tracking
+            logAccess(candidate.id, candidate.source);
+        }
+    }
+
+    return { selected, remainingBudget, sourceCounts };
+}
+
+function toSelectedMemories(selected: ContextCandidate[]): SelectedMemory[] {
+    return selected.map((c) => ({
+        id: c.id,
+        source: c.source,
+        tier: c.tier,
+        tokens: c.tokens,
+        score: Number(c.score.toFixed(4)),
+    }));
+}
+
+function groupBySource(selected: ContextCandidate[]): Record<string, ContextCandidate[]> {
+    const bySource: Record<string, ContextCandidate[]> = {};
+    for (const s of selected) {
+        if (!bySource[s.source]) bySource[s.source] = [];
+        bySource[s.source].push(s);
+    }
+    return bySource;
+}
+
 // ---------------------------------------------------------------------------
 // Context assembly (the core algorithm)
 // ---------------------------------------------------------------------------
@@ -171,9 +335,12 @@ function extractEntityMentions(query: string): string[] {
  * it during the conversation.
  *
  * Algorithm:
- * 1. Include current session working memory (Tier 0)
- * 2. Include current session Tier 1 summaries (compressed working memory)
- * 3. Score all candidates by composite relevance
+ * 1. Include each current session working memory entry (Tier 0)
+ * 2. Include each Tier 1-3 row stored during the current session
+ *    (compressed working memory, facts, preferences, core memories)
+ *    — both narrowed by `filters` (memory type, time window, min confidence)
+ * 3. Score all candidates by composite relevance, with the semantic
+ *    component measured against the query embedding
  * 4. Deduplicate
  * 5. Greedily fill budget by score
  * 6. Format output with section headers
@@ -185,36 +352,48 @@ export async function assembleContext(
 ): Promise<AssembledContext> {
     const config = getConfig();
     const budget = tokenBudget || config.tokenBudgets.defaultRetrieveBudget;
-    let remainingBudget = budget;
 
     const sessionId = getCurrentSessionIdOrNull();
     const candidates: ContextCandidate[] = [];
-    const sourceCounts: Record<string, number> = {};
+    let filteredOut = 0;
+
+    // Embed the query once; every candidate is scored against it
+    const queryEmbedding = await embed(query);
 
     // ── 1. Current session working memory (Tier 0) ──
-    // This is the in-memory buffer of entries stored during THIS session
-    const workingMem = getWorkingMemory();
-    if (workingMem && workingMem.length > 0) {
-        const wmTokens = countTokens(workingMem);
+    // Each entry stored during THIS session competes on its own
+    for (const entry of getWorkingMemoryEntries()) {
+        if (!matchesFilters(entry.metadata.type, entry.timestamp, entry.metadata.confidence, filters)) {
+            filteredOut++;
+            continue;
+        }
+        const freq = getAccessFrequency(entry.id);
         candidates.push({
-            id: "working-memory",
-            content: workingMem,
-            tokens: wmTokens,
+            id: entry.id,
+            content: entry.content,
+            tokens: entry.tokens,
             score: 0,
             source: "working",
-            similarity: 0.6,
-            recency: 1.0,
+            tier: 0,
+            similarity: await candidateSimilarity(entry.id, entry.content, queryEmbedding),
+            recency: recencyScore(entry.timestamp),
             priority: sourcePriority("working"),
-            frequency: 1.0,
-            createdAt: new Date().toISOString(),
+            frequency: Math.min(freq / 10, 1.0),
+            createdAt: entry.timestamp,
         });
     }
 
-    // ── 2. Current session Tier 1 summaries (compressed working memory) ──
-    // These are created when working memory overflows and gets compressed
+    // ── 2. Current session Tier 1-3 rows ──
+    // Compressed working memory and facts (Tier 1), preferences (Tier 2) and
+    // core memories (Tier 3) stored during THIS session
     if (sessionId) {
-        const currentSessionSummaries = getSummariesByTierAndSession(1, sessionId);
+        const currentSessionSummaries = [1, 2, 3].flatMap((tier) => getSummariesByTierAndSession(tier, sessionId));
         for (const summary of currentSessionSummaries) {
+            const metadata = parseMetadata(summary.metadata);
+            if (!matchesFilters(summaryMemoryType(metadata), summary.created_at, summaryConfidence(metadata), filters)) {
+                filteredOut++;
+                continue;
+            }
             const freq = getAccessFrequency(summary.id);
             candidates.push({
                 id: summary.id,
@@ -222,7 +401,8 @@ export async function assembleContext(
                 tokens: summary.token_count,
                 score: 0,
                 source: "current_session",
-                similarity: 0.6,
+                tier: summary.tier,
+                similarity: await candidateSimilarity(summary.id, summary.content, queryEmbedding),
                 recency: recencyScore(summary.created_at),
                 priority: sourcePriority("current_session"),
                 frequency: Math.min(freq / 10, 1.0),
@@ -232,53 +412,21 @@ export async function assembleContext(
     }
 
     // ── NOTE: The following sources are intentionally EXCLUDED ──
-    // - Core memory (Tier 3): Global data from past sessions → NOT included
+    // - Core memory (Tier 3) from past sessions → NOT included
     // - Vector search: Global vectors from all sessions → NOT included
     // - Knowledge graph: Global entities/relations from all sessions → NOT included
-    // - Past session summaries (Tier 1 from other sessions): NOT included
-    // - Epoch summaries (Tier 2): NOT included
+    // - Past session summaries (Tier 1-2 from other sessions): NOT included
     //
     // Each session starts COMPLETELY FRESH with zero entries. The AI fills
     // memory during the conversation and only retrieves what was stored in
     // THIS specific session.
 
-    // ── 3. Compute composite scores ──
-    const weights = config.ranking;
-    for (const candidate of candidates) {
-        candidate.score =
-            weights.semanticWeight * candidate.similarity +
-            weights.recencyWeight * candidate.recency +
-            weights.priorityWeight * candidate.priority +
-            weights.frequencyWeight * candidate.frequency;
-    }
-
-    // ── 4. Deduplicate ──
-    const deduped = deduplicate(candidates, weights.dedupSimilarityThreshold);
-
-    // ── 5. Sort by score and greedily fill budget ──
-    deduped.sort((a, b) => b.score - a.score);
-
-    const selected: ContextCandidate[] = [];
-    for (const candidate of deduped) {
-        if (candidate.tokens <= remainingBudget) {
-            selected.push(candidate);
-            remainingBudget -= candidate.tokens;
-            sourceCounts[candidate.source] = (sourceCounts[candidate.source] || 0) + 1;
-
-            // Log access for frequency tracking
-            logAccess(candidate.id, candidate.source);
-        }
-    }
+    // ── 3-5. Score, deduplicate, and greedily fill budget ──
+    const { selected, remainingBudget, sourceCounts } = selectCandidates(candidates, budget);
 
     // ── 6. Format output with section headers ──
     const sections: string[] = [];
-
-    // Group selected candidates by source
-    const bySource: Record<string, ContextCandidate[]> = {};
-    for (const s of selected) {
-        if (!bySource[s.source]) bySource[s.source] = [];
-        bySource[s.source].push(s);
-    }
+    const bySource = groupBySource(selected);
 
     // Define section order and labels — current session only
     const sourceOrder = ["working", "current_session"];
@@ -309,6 +457,8 @@ export async function assembleContext(
         const budgetUsed = budget - remainingBudget;
         const sessionLabel = sessionId ? sessionId.substring(0, 20) : "none";
         finalText += `\n\n--- Session: ${sessionLabel} | Sources: ${sourceList} | Tokens: ${budgetUsed}/${budget} ---`;
+    } else if (filteredOut > 0) {
+        finalText = "No memories in this session match the given filters.";
     } else {
         finalText = "No memories stored in this session yet. This is a fresh session — use memory_store to save important information as you go.";
     }
@@ -323,6 +473,149 @@ export async function assembleContext(
         sourceCounts,
         candidatesConsidered: candidates.length,
         candidatesSelected: selected.length,
+        memories: toSelectedMemories(selected),
+        sessionId,
+    };
+}
+
+// ---------------------------------------------------------------------------
+// Cross-session recall (explicit opt-in)
+// ---------------------------------------------------------------------------
+
+const RECALL_VECTOR_LIMIT = 50;
+
+function originLabel(sessionId: string | null, createdAt: string): string {
+    const date = createdAt.substring(0, 10);
+    return sessionId ? `session ${sessionId.substring(0, 20)}, ${date}` : `no session, ${date}`;
+}
+
+/**
+ * Search memories OUTSIDE the current session: past sessions' Tier 1 notes,
+ * Tier 2 epoch summaries, Tier 3 core memories, and the vector store — all
+ * limited to the current session's project.
+ *
+ * This deliberately breaks session isolation, so it is only reachable through
+ * the memory_recall tool and is never called by assembleContext. Every item
+ * is labelled with its origin session and date.
+ */
+export async function recallMemories(
+    query: string,
+    tokenBudget?: number,
+    filters?: VectorSearchFilter
+): Promise<AssembledContext> {
+    const config = getConfig();
+    const budget = tokenBudget || config.tokenBudgets.defaultRetrieveBudget;
+
+    const sessionId = getCurrentSessionIdOrNull();
+    const project = getCurrentProjectOrNull();
+    const candidates: ContextCandidate[] = [];
+    const seenSources = new Set<string>();
+
+    const queryEmbedding = await embed(query);
+
+    // ── 1. Summaries: past-session Tier 1, all Tier 2 and Tier 3 ──
+    const tiers: [number, string][] = [[1, "past_sessions"], [2, "long_term"], [3, "core"]];
+    for (const [tier, source] of tiers) {
+        const rows = tier === 1 && sessionId
+            ? getSummariesByTierExcludingSession(1, sessionId, project)
+            : getSummariesByTier(tier, project);
+        for (const summary of rows) {
+            seenSources.add(summary.id);
+            const metadata = parseMetadata(summary.metadata);
+            if (!matchesFilters(summaryMemoryType(metadata), summary.created_at, summaryConfidence(metadata), filters)) {
+                continue;
+            }
+            candidates.push({
+                id: summary.id,
+                content: summary.content,
+                tokens: summary.token_count,
+                score: 0,
+                source,
+                tier: summary.tier,
+                similarity: await candidateSimilarity(summary.id, summary.content, queryEmbedding),
+                recency: recencyScore(summary.created_at),
+                priority: sourcePriority(source),
+                frequency: Math.min(getAccessFrequency(summary.id) / 10, 1.0),
+                createdAt: summary.created_at,
+                origin: originLabel(summary.session_id, summary.created_at),
+            });
+        }
+    }
+
+    // ── 2. Project vector store: anything not already covered above ──
+    // Mostly past sessions' events, whose working memory entries no longer
+    // exist on their own after being archived.
+    const currentEntryIds = new Set(getWorkingMemoryEntries().map((e) => e.id));
+    const vectorHits = searchVectorsByEmbedding(queryEmbedding, RECALL_VECTOR_LIMIT, { project });
+    for (const hit of vectorHits) {
+        const hitSession = typeof hit.metadata.sessionId === "string" ? hit.metadata.sessionId : null;
+        if (seenSources.has(hit.sourceId) || currentEntryIds.has(hit.sourceId)) continue;
+        if (sessionId && hitSession === sessionId) continue;
+        // Current-session summary; past sessions' unarchived working memory stays in
+        if (sessionId && getSummaryById(hit.sourceId)?.session_id === sessionId) continue;
+        seenSources.add(hit.sourceId);
+
+        const memoryType = hit.sourceType === "epoch" ? "summary" : hit.sourceType;
+        if (!matchesFilters(memoryType, hit.createdAt, hit.confidence, filters)) continue;
+
+        candidates.push({
+            id: hit.sourceId,
+            content: hit.contentPreview,
+            tokens: countTokens(hit.contentPreview),
+            score: 0,
+            source: "vector",
+            tier: null,
+            similarity: Math.max(0, Math.min(1, hit.similarity)),
+            recency: recencyScore(hit.createdAt),
+            priority: sourcePriority("vector"),
+            frequency: Math.min(getAccessFrequency(hit.sourceId) / 10, 1.0),
+            createdAt: hit.createdAt,
+            origin: originLabel(hitSession, hit.createdAt),
+        });
+    }
+
+    // ── 3. Score, deduplicate, fill budget ──
+    const { selected, remainingBudget, sourceCounts } = selectCandidates(candidates, budget);
+
+    // ── 4. Format, labelling every item with its origin ──
+    const bySource = groupBySource(selected);
+    const sourceOrder = ["core", "long_term", "past_sessions", "vector"];
+    const sourceLabels: Record<string, string> = {
+        core: "Core Memory",
+        long_term: "Long-Term Knowledge",
+        past_sessions: "Past Sessions",
+        vector: "Related Excerpts",
+    };
+
+    const sections: string[] = [];
+    for (const source of sourceOrder) {
+        const items = bySource[source];
+        if (items && items.length > 0) {
+            const lines = items.map((item) => `(${item.origin}) ${item.content}`);
+            sections.push(`[${sourceLabels[source]}]\n${lines.join("\n")}`);
+        }
+    }
+
+    let finalText: string;
+    if (sections.length > 0) {
+        const sourceList = Object.entries(sourceCounts)
+            .map(([source, count]) => `${source}:${count}`)
+            .join(", ");
+        finalText = sections.join("\n\n");
+        finalText += `\n\n--- Cross-session recall | Sources: ${sourceList} | Tokens: ${budget - remainingBudget}/${budget} ---`;
+    } else {
+        finalText = "No memories from other sessions match this query.";
+    }
+
+    return {
+        text: finalText,
+        totalTokens: countTokens(finalText),
+        budgetUsed: budget - remainingBudget,
+        budgetRemaining: remainingBudget,
+        sourceCounts,
+        candidatesConsidered: candidates.length,
+        candidatesSelected: selected.length,
+        memories: toSelectedMemories(selected),
         sessionId,
     };
 }
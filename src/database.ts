@@ -1,8 +1,24 @@
-import initSqlJs, { type Database as SqlJsDatabase } from "sql.js";
-import { readFileSync, writeFileSync, existsSync, mkdirSync } from "fs";
+import initSqlJs, { type Database as SqlJsDatabase, type SqlJsStatic } from "sql.js";
+import {
+    readFileSync,
+    existsSync,
+    mkdirSync,
+    openSync,
+    closeSync,
+    writeSync,
+    fsyncSync,
+    fdatasyncSync,
+    ftruncateSync,
+    fstatSync,
+    renameSync,
+    copyFileSync,
+    statSync,
+} from "fs";
 import { join, dirname } from "path";
 import { createRequire } from "module";
 import { getConfig } from "./config.js";
+import { instanceState } from "./instance.js";
+import { acquireLock, releaseLock, type LockOwner } from "./db-lock.js";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -17,6 +33,7 @@ export interface EntityRow {
     updated_at: string;
     confidence: number;
     source_summary_id: string | null;
+    project: string | null;
 }
 
 export interface RelationRow {
@@ -41,6 +58,7 @@ export interface SummaryRow {
     session_id: string | null;
     source_ids: string; // JSON array
     metadata: string; // JSON
+    project: string | null;
 }
 
 export interface VectorRow {
@@ -53,6 +71,7 @@ export interface VectorRow {
     metadata: string; // JSON
     created_at: string;
     confidence: number;
+    project: string | null;
 }
 
 export interface AccessLogRow {
@@ -67,13 +86,44 @@ export interface SessionRow {
     started_at: string;
     ended_at: string | null;
     metadata: string; // JSON
+    project: string | null;
 }
 
 // ---------------------------------------------------------------------------
-// Schema
+// Schema migrations
+//
+// The schema is built by an ordered list of migrations. schema_version
+// records every migration applied to a database; on startup the pending
+// ones run in a single transaction, after the database file has been
+// backed up next to it (memory.db.v<old version>.bak). Add new columns,
+// tables and indexes by appending a migration — never edit one that has
+// shipped.
+//
+// Databases created before versioning have no schema_version table and are
+// treated as version 0. They may already contain some of the early tables
+// and columns, so migrations 1-3 are written to be idempotent.
 // ---------------------------------------------------------------------------
 
-const SCHEMA_SQL = `
+interface Migration {
+    version: number;
+    description: string;
+    up(db: SqlJsDatabase): void;
+}
+
+function addColumnIfMissing(db: SqlJsDatabase, table: string, column: string, definition: string): void {
+    const info = db.exec(`PRAGMA table_info(${table})`);
+    const columns = info.length > 0 ? info[0].values.map((row) => row[1]) : [];
+    if (!columns.includes(column)) {
+        db.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+}
+
+const MIGRATIONS: Migration[] = [
+    {
+        version: 1,
+        description: "initial schema",
+        up(db) {
+            db.run(`
 CREATE TABLE IF NOT EXISTS entities (
     id TEXT PRIMARY KEY,
     label TEXT NOT NULL,
@@ -134,9 +184,7 @@ CREATE TABLE IF NOT EXISTS sessions (
     ended_at TEXT,
     metadata TEXT NOT NULL DEFAULT '{}'
 );
-`;
 
-const INDEXES_SQL = `
 CREATE INDEX IF NOT EXISTS idx_entities_label ON entities(label);
 CREATE INDEX IF NOT EXISTS idx_entities_type ON entities(entity_type);
 CREATE INDEX IF NOT EXISTS idx_relations_subject ON relations(subject_id);
@@ -148,15 +196,117 @@ CREATE INDEX IF NOT EXISTS idx_vectors_source ON vectors(source_id);
 CREATE INDEX IF NOT EXISTS idx_vectors_source_type ON vectors(source_type);
 CREATE INDEX IF NOT EXISTS idx_access_log_memory ON access_log(memory_id);
 CREATE INDEX IF NOT EXISTS idx_sessions_started ON sessions(started_at);
-`;
+`);
+        },
+    },
+    {
+        version: 2,
+        description: "project scoping",
+        up(db) {
+            for (const table of ["entities", "summaries", "vectors", "sessions"]) {
+                addColumnIfMissing(db, table, "project", "TEXT");
+                db.run(`CREATE INDEX IF NOT EXISTS idx_${table}_project ON ${table}(project)`);
+            }
+        },
+    },
+    {
+        version: 3,
+        description: "operation journal bookkeeping",
+        up(db) {
+            db.run("CREATE TABLE IF NOT EXISTS meta (key TEXT PRIMARY KEY, value TEXT NOT NULL)");
+        },
+    },
+];
+
+/** Schema version this build creates and expects */
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+function readSchemaVersion(db: SqlJsDatabase): number {
+    const result = db.exec("SELECT MAX(version) FROM schema_version");
+    return result.length > 0 ? Number(result[0].values[0][0]) || 0 : 0;
+}
+
+/**
+ * Bring the database up to SCHEMA_VERSION. `backup` is called once before
+ * the first pending migration runs. All pending migrations are applied in
+ * one transaction, so a failure leaves the database at its old version.
+ */
+function migrate(db: SqlJsDatabase, backup: (fromVersion: number) => void): void {
+    db.run(`CREATE TABLE IF NOT EXISTS schema_version (
+    version INTEGER PRIMARY KEY,
+    description TEXT NOT NULL,
+    applied_at TEXT NOT NULL
+)`);
+    const current = readSchemaVersion(db);
+    if (current > SCHEMA_VERSION) {
+        throw new Error(
+            `Database schema version ${current} is newer than this version of LatentContext supports (${SCHEMA_VERSION}). Upgrade LatentContext to open it.`
+        );
+    }
+
+    const pending = MIGRATIONS.filter((migration) => migration.version > current);
+    if (pending.length === 0) return;
+
+    backup(current);
+    let running: Migration | undefined;
+    db.run("BEGIN");
+    try {
+        for (const migration of pending) {
+            running = migration;
+            migration.up(db);
+            db.run(
+                "INSERT INTO schema_version (version, description, applied_at) VALUES (?, ?, ?)",
+                [migration.version, migration.description, new Date().toISOString()]
+            );
+        }
+        db.run("COMMIT");
+    } catch (error) {
+        db.run("ROLLBACK");
+        throw new Error(
+            `Schema migration ${running?.version} (${running?.description}) failed: ${error instanceof Error ? error.message : String(error)}`
+        );
+    }
+}
 
 // ---------------------------------------------------------------------------
-// Database singleton
+// Database handle (one per instance)
 // ---------------------------------------------------------------------------
 
-let _db: SqlJsDatabase | null = null;
-let _dbPath: string = "";
-let _saveTimer: ReturnType<typeof setTimeout> | null = null;
+interface DatabaseState {
+    db: SqlJsDatabase | null;
+    sql: SqlJsStatic | null;
+    path: string;
+    saveTimer: ReturnType<typeof setTimeout> | null;
+    /** Open operation journal, or null if it could not be opened */
+    journalFd: number | null;
+    journalBytes: number;
+    /** Sequence number of the last journaled write */
+    seq: number;
+    /** This process holds memory.db.lock */
+    lockHeld: boolean;
+    /** Owner of the lock when this process opened the database read-only */
+    lockOwner: LockOwner | null;
+    /** Writes made while read-only (session bookkeeping), re-applied on takeover */
+    unsavedWrites: { sql: string; params: unknown[] }[];
+    /** Bumped whenever the database is reloaded from disk */
+    generation: number;
+}
+
+function dbState(): DatabaseState {
+    return instanceState<DatabaseState>("database", () => ({
+        db: null,
+        sql: null,
+        path: "",
+        saveTimer: null,
+        journalFd: null,
+        journalBytes: 0,
+        seq: 0,
+        lockHeld: false,
+        lockOwner: null,
+        unsavedWrites: [],
+        generation: 0,
+    }));
+}
 
 /**
  * Initialize the database. Must be called before any operations.
@@ -164,7 +314,8 @@ let _saveTimer: ReturnType<typeof setTimeout> | null = null;
  * on Windows when spawned as a child process.
  */
 export async function initDatabase(): Promise<SqlJsDatabase> {
-    if (_db) return _db;
+    const state = dbState();
+    if (state.db) return state.db;
 
     const config = getConfig();
     const dataDir = config.storage.dataDir;
@@ -173,7 +324,12 @@ export async function initDatabase(): Promise<SqlJsDatabase> {
         mkdirSync(dataDir, { recursive: true });
     }
 
-    _dbPath = join(dataDir, config.storage.sqliteFile);
+    state.path = join(dataDir, config.storage.sqliteFile);
+
+    // Only one process may write the database; any other one opens it read-only
+    const lock = acquireLock(`${state.path}.lock`);
+    state.lockHeld = lock.acquired;
+    state.lockOwner = lock.acquired ? null : lock.owner;
 
     // Locate the sql.js WASM binary explicitly.
     // When spawned as an MCP subprocess, the CWD may not be the package directory,
@@ -196,75 +352,332 @@ export async function initDatabase(): Promise<SqlJsDatabase> {
         sqlJsConfig.locateFile = () => wasmPath;
     }
 
-    const SQL = await initSqlJs(sqlJsConfig);
+    state.sql = await initSqlJs(sqlJsConfig);
+    return openDatabaseFiles(state, state.sql);
+}
+
+/**
+ * Load the database from its snapshot and journal, migrating it if needed.
+ * When this process holds the lock, the journal is opened for appending and
+ * folded into a fresh snapshot.
+ */
+function openDatabaseFiles(state: DatabaseState, SQL: SqlJsStatic): SqlJsDatabase {
+    // Load the last snapshot or create a new database
+    const existed = existsSync(state.path);
+    const db = existed ? new SQL.Database(readFileSync(state.path)) : new SQL.Database();
+
+    // Bring the schema up to date. Migrations only add to the schema, so
+    // journal entries written by an older version still apply afterwards.
+    // A read-only process migrates its in-memory copy but leaves the files
+    // alone.
+    try {
+        migrate(db, (fromVersion) => {
+            if (existed && state.lockHeld) backupDatabaseFiles(state.path, fromVersion);
+        });
+    } catch (error) {
+        db.close();
+        if (state.lockHeld) releaseLock(`${state.path}.lock`);
+        state.lockHeld = false;
+        state.lockOwner = null;
+        throw error;
+    }
+    state.db = db;
+
+    // Re-apply writes made after the snapshot, then fold them into a fresh
+    // snapshot so the journal starts out empty
+    const journalPath = `${state.path}.journal`;
+    const replay = replayJournal(db, journalPath, snapshotSeq(db));
+    state.seq = replay.seq;
+    if (!state.lockHeld) return db; // The journal belongs to the lock owner
+    try {
+        state.journalFd = openSync(journalPath, "a");
+        // Drop a torn tail so later appends start on a fresh line
+        if (fstatSync(state.journalFd).size > replay.validBytes) {
+            ftruncateSync(state.journalFd, replay.validBytes);
+        }
+        state.journalBytes = replay.validBytes;
+    } catch {
+        state.journalFd = null; // Every write then falls back to a snapshot
+    }
+    saveDatabaseSync();
+
+    return db;
+}
 
-    // Load existing database or create new one
-    if (existsSync(_dbPath)) {
-        const fileBuffer = readFileSync(_dbPath);
-        _db = new SQL.Database(fileBuffer);
-    } else {
-        _db = new SQL.Database();
+/**
+ * Make sure this process may write memories. A read-only process first
+ * re-checks the lock: once its owner has exited, the lock is taken over and
+ * the database reloaded from disk, keeping everything the owner wrote.
+ * Throws while another process still holds the lock.
+ */
+export function ensureWritable(): void {
+    const state = dbState();
+    if (!state.lockOwner || !state.sql) return;
+
+    const lock = acquireLock(`${state.path}.lock`);
+    if (!lock.acquired) {
+        state.lockOwner = lock.owner;
+        throw new Error(`Nothing was changed. ${getStorageWarning()}`);
     }
 
-    // Run schema migration
-    _db.run(SCHEMA_SQL);
-    _db.run(INDEXES_SQL);
+    state.lockHeld = true;
+    state.lockOwner = null;
+    state.db?.close();
+    state.db = null;
+    openDatabaseFiles(state, state.sql);
+    state.generation++;
+
+    // Carry over the session records written while read-only
+    for (const { sql, params } of state.unsavedWrites.splice(0)) {
+        try {
+            runSql(sql, params);
+        } catch {
+            // non-fatal: skip a write that no longer applies
+        }
+    }
+}
+
+/**
+ * Incremented each time ensureWritable reloads the database, so caches
+ * built from it know to start over.
+ */
+export function getDatabaseGeneration(): number {
+    return dbState().generation;
+}
 
-    // Save to disk
-    saveDatabase();
+/**
+ * Copy the database file (and any un-checkpointed journal) aside before
+ * migrating it.
+ */
+function backupDatabaseFiles(path: string, fromVersion: number): void {
+    const backupPath = `${path}.v${fromVersion}.bak`;
+    copyFileSync(path, backupPath);
+    const journalPath = `${path}.journal`;
+    if (existsSync(journalPath) && statSync(journalPath).size > 0) {
+        copyFileSync(journalPath, `${backupPath}.journal`);
+    }
+}
 
-    return _db;
+/**
+ * Schema version of the open database.
+ */
+export function getSchemaVersion(): number {
+    return readSchemaVersion(getDb());
 }
 
 /**
  * Get the database instance (must call initDatabase first).
  */
 export function getDb(): SqlJsDatabase {
-    if (!_db) {
+    const { db } = dbState();
+    if (!db) {
         throw new Error("Database not initialized. Call initDatabase() first.");
     }
-    return _db;
+    return db;
+}
+
+/**
+ * Path of the database file, for files kept next to it.
+ */
+export function getDatabasePath(): string {
+    return dbState().path;
+}
+
+/**
+ * Whether this process opened the database read-only (see getStorageWarning).
+ */
+export function isDatabaseReadOnly(): boolean {
+    return dbState().lockOwner !== null;
+}
+
+// ---------------------------------------------------------------------------
+// Persistence: operation journal + atomic snapshots
+//
+// sql.js keeps the database in memory. Every write is appended to an
+// operation journal next to the database file (memory.db.journal) and
+// fsynced before it returns, so a write costs O(change) instead of
+// O(database). Once the journal grows past storage.checkpointBytes, the
+// whole database is written as a snapshot: temp file, fsync, rename over
+// memory.db, then the journal is truncated. Journal entries carry a sequence
+// number and the snapshot records the last one it contains, so a crash
+// between the rename and the truncate never replays an entry twice. A torn
+// last line (killed mid-append) was never acknowledged and is skipped.
+// ---------------------------------------------------------------------------
+
+interface JournalEntry {
+    seq: number;
+    sql: string;
+    params: unknown[];
+}
+
+// Blobs (embeddings) are stored base64-encoded in the JSON lines
+function encodeParam(value: unknown): unknown {
+    return value instanceof Uint8Array ? { $blob: Buffer.from(value).toString("base64") } : value;
+}
+
+function decodeParam(value: unknown): unknown {
+    if (value !== null && typeof value === "object" && "$blob" in value) {
+        return new Uint8Array(Buffer.from(String((value as { $blob: unknown }).$blob), "base64"));
+    }
+    return value;
+}
+
+function snapshotSeq(db: SqlJsDatabase): number {
+    const result = db.exec("SELECT value FROM meta WHERE key = 'journal_seq'");
+    return result.length > 0 ? Number(result[0].values[0][0]) || 0 : 0;
 }
 
 /**
- * Save the database to disk. Debounced to avoid excessive writes.
+ * Apply journal entries newer than the snapshot. Returns the last sequence
+ * number seen (or `fromSeq` if there was nothing to replay) and the length
+ * of the intact part of the journal.
+ */
+function replayJournal(
+    db: SqlJsDatabase,
+    journalPath: string,
+    fromSeq: number
+): { seq: number; validBytes: number } {
+    if (!existsSync(journalPath)) return { seq: fromSeq, validBytes: 0 };
+
+    const data = readFileSync(journalPath);
+    let seq = fromSeq;
+    let offset = 0;
+    while (offset < data.length) {
+        const end = data.indexOf(0x0a, offset);
+        if (end === -1) break; // Torn write: the last line was never completed
+
+        let entry: JournalEntry;
+        try {
+            entry = JSON.parse(data.subarray(offset, end).toString("utf-8")) as JournalEntry;
+        } catch {
+            break;
+        }
+        offset = end + 1;
+        if (entry.seq <= seq) continue;
+
+        try {
+            db.run(entry.sql, entry.params.map(decodeParam));
+        } catch {
+            // non-fatal: skip an entry that no longer applies
+        }
+        seq = entry.seq;
+    }
+    return { seq, validBytes: offset };
+}
+
+/** Writes kept for a takeover while read-only; any beyond stay in memory only */
+const MAX_UNSAVED_WRITES = 1000;
+
+/**
+ * Append one write to the journal and flush it to disk. Falls back to a
+ * (debounced) snapshot if the journal is unavailable.
+ */
+function journalWrite(sql: string, params: unknown[]): void {
+    const state = dbState();
+    if (!state.lockHeld) {
+        // Read-only: the write stays in memory until a takeover
+        if (state.unsavedWrites.length < MAX_UNSAVED_WRITES) {
+            state.unsavedWrites.push({ sql, params });
+        }
+        return;
+    }
+    if (state.journalFd === null) {
+        saveDatabase();
+        return;
+    }
+
+    state.seq++;
+    const line = JSON.stringify({ seq: state.seq, sql, params: params.map(encodeParam) }) + "\n";
+    try {
+        writeSync(state.journalFd, line);
+        fdatasyncSync(state.journalFd);
+        state.journalBytes += Buffer.byteLength(line);
+    } catch {
+        saveDatabase();
+        return;
+    }
+
+    if (state.journalBytes >= getConfig().storage.checkpointBytes) {
+        saveDatabase();
+    }
+}
+
+/**
+ * Write the whole database atomically: temp file, fsync, rename.
+ */
+function writeSnapshot(state: DatabaseState): void {
+    if (!state.db || !state.path || !state.lockHeld) return;
+
+    state.db.run("INSERT OR REPLACE INTO meta (key, value) VALUES ('journal_seq', ?)", [String(state.seq)]);
+    const data = state.db.export();
+
+    const tempPath = `${state.path}.tmp`;
+    const fd = openSync(tempPath, "w");
+    try {
+        writeSync(fd, data);
+        fsyncSync(fd);
+    } finally {
+        closeSync(fd);
+    }
+    renameSync(tempPath, state.path);
+
+    // Persist the rename itself (not supported on Windows)
+    try {
+        const dirFd = openSync(dirname(state.path), "r");
+        try {
+            fsyncSync(dirFd);
+        } finally {
+            closeSync(dirFd);
+        }
+    } catch {
+        // non-fatal
+    }
+
+    // Everything in the journal is now part of the snapshot
+    if (state.journalFd !== null) {
+        ftruncateSync(state.journalFd, 0);
+        state.journalBytes = 0;
+    }
+}
+
+/**
+ * Schedule a snapshot of the database. Debounced so that a burst of writes
+ * produces a single snapshot.
  */
 export function saveDatabase(): void {
-    if (!_db || !_dbPath) return;
+    const state = dbState();
+    if (!state.db || !state.path) return;
 
     // Cancel pending save
-    if (_saveTimer) {
-        clearTimeout(_saveTimer);
+    if (state.saveTimer) {
+        clearTimeout(state.saveTimer);
     }
 
     // Debounce: save after 500ms of no writes
-    _saveTimer = setTimeout(() => {
-        if (!_db || !_dbPath) return;
+    state.saveTimer = setTimeout(() => {
+        state.saveTimer = null;
         try {
-            const data = _db.export();
-            const buffer = Buffer.from(data);
-            writeFileSync(_dbPath, buffer);
+            writeSnapshot(state);
         } catch {
-            // Ignore save errors
+            // Ignore save errors — the journal still holds every write
         }
     }, 500);
 }
 
 /**
- * Force immediate save to disk.
+ * Write a snapshot immediately.
  */
 export function saveDatabaseSync(): void {
-    if (!_db || !_dbPath) return;
-    if (_saveTimer) {
-        clearTimeout(_saveTimer);
-        _saveTimer = null;
+    const state = dbState();
+    if (!state.db || !state.path) return;
+    if (state.saveTimer) {
+        clearTimeout(state.saveTimer);
+        state.saveTimer = null;
     }
     try {
-        const data = _db.export();
-        const buffer = Buffer.from(data);
-        writeFileSync(_dbPath, buffer);
+        writeSnapshot(state);
     } catch {
-        // Ignore save errors
+        // Ignore save errors — the journal still holds every write
     }
 }
 
@@ -272,15 +685,40 @@ export function saveDatabaseSync(): void {
  * Close the database.
  */
 export function closeDatabase(): void {
-    if (_saveTimer) {
-        clearTimeout(_saveTimer);
-        _saveTimer = null;
+    const state = dbState();
+    if (state.saveTimer) {
+        clearTimeout(state.saveTimer);
+        state.saveTimer = null;
     }
-    if (_db) {
+    if (state.db) {
         saveDatabaseSync();
-        _db.close();
-        _db = null;
+        state.db.close();
+        state.db = null;
+    }
+    if (state.journalFd !== null) {
+        closeSync(state.journalFd);
+        state.journalFd = null;
     }
+    if (state.lockHeld) {
+        releaseLock(`${state.path}.lock`);
+        state.lockHeld = false;
+    }
+    state.lockOwner = null;
+    state.unsavedWrites = [];
+}
+
+/**
+ * Warning to surface when this process could not take the database lock
+ * and runs read-only, or null when it owns the database.
+ */
+export function getStorageWarning(): string | null {
+    const { lockOwner } = dbState();
+    if (!lockOwner) return null;
+    return (
+        `memory.db is locked by another LatentContext process (PID ${lockOwner.pid} on ${lockOwner.hostname}, since ${lockOwner.acquiredAt}). ` +
+        "This process opened it read-only: it sees the data as of startup and refuses to store memories until that process exits. " +
+        "Stop the other process, or give each host its own storage.dataDir."
+    );
 }
 
 // ---------------------------------------------------------------------------
@@ -309,7 +747,7 @@ function queryOne<T>(sql: string, params: unknown[] = []): T | undefined {
 function runSql(sql: string, params: unknown[] = []): void {
     const db = getDb();
     db.run(sql, params);
-    saveDatabase();
+    journalWrite(sql, params);
 }
 
 function now(): string {
@@ -323,8 +761,8 @@ function now(): string {
 export function insertEntity(entity: Omit<EntityRow, "created_at" | "updated_at">): EntityRow {
     const ts = now();
     runSql(
-        `INSERT INTO entities (id, label, entity_type, properties, created_at, updated_at, confidence, source_summary_id)
-     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        `INSERT INTO entities (id, label, entity_type, properties, created_at, updated_at, confidence, source_summary_id, project)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
         [
             entity.id,
             entity.label,
@@ -334,6 +772,7 @@ export function insertEntity(entity: Omit<EntityRow, "created_at" | "updated_at"
             ts,
             entity.confidence,
             entity.source_summary_id ?? null,
+            entity.project ?? null,
         ]
     );
     return { ...entity, created_at: ts, updated_at: ts };
@@ -345,7 +784,8 @@ export function upsertEntity(
     entityType: string,
     properties: Record<string, unknown>,
     confidence: number = 1.0,
-    sourceSummaryId: string | null = null
+    sourceSummaryId: string | null = null,
+    project: string | null = null
 ): EntityRow {
     const ts = now();
     const propsJson = JSON.stringify(properties);
@@ -376,6 +816,7 @@ export function upsertEntity(
         properties: propsJson,
         confidence,
         source_summary_id: sourceSummaryId,
+        project,
     });
 }
 
@@ -383,17 +824,17 @@ export function getEntityById(id: string): EntityRow | undefined {
     return queryOne<EntityRow>("SELECT * FROM entities WHERE id = ?", [id]);
 }
 
-export function getEntityByLabel(label: string): EntityRow | undefined {
+export function getEntityByLabel(label: string, project: string | null = null): EntityRow | undefined {
     return queryOne<EntityRow>(
-        "SELECT * FROM entities WHERE label = ? COLLATE NOCASE",
-        [label]
+        "SELECT * FROM entities WHERE label = ? COLLATE NOCASE AND project IS ?",
+        [label, project]
     );
 }
 
-export function searchEntities(query: string): EntityRow[] {
+export function searchEntities(query: string, project: string | null = null): EntityRow[] {
     return queryAll<EntityRow>(
-        "SELECT * FROM entities WHERE label LIKE ? COLLATE NOCASE ORDER BY confidence DESC",
-        [`%${query}%`]
+        "SELECT * FROM entities WHERE label LIKE ? COLLATE NOCASE AND project IS ? ORDER BY confidence DESC",
+        [`%${query}%`, project]
     );
 }
 
@@ -432,6 +873,12 @@ export function insertRelation(relation: RelationRow): void {
     );
 }
 
+/**
+ * Insert a relation, returning the ID it is stored under. Re-stating an
+ * already current subject-predicate-object triple refreshes that row instead
+ * of adding a duplicate. For `functional` predicates (one object per subject)
+ * any other current relation with the same subject and predicate is ended.
+ */
 export function upsertRelation(
     id: string,
     subjectId: string,
@@ -441,22 +888,29 @@ export function upsertRelation(
     confidence: number = 1.0,
     temporalStart: string | null = null,
     temporalEnd: string | null = null,
-    sourceSummaryId: string | null = null
-): void {
+    sourceSummaryId: string | null = null,
+    functional: boolean = true
+): string {
     const propsJson = JSON.stringify(properties);
     const ts = now();
 
-    // Check for existing relation with same subject-predicate
-    const existing = queryOne<RelationRow>(
-        "SELECT * FROM relations WHERE subject_id = ? AND predicate = ? AND temporal_end IS NULL",
-        [subjectId, predicate]
+    const same = queryOne<RelationRow>(
+        "SELECT * FROM relations WHERE subject_id = ? AND predicate = ? AND object_id = ? AND temporal_end IS NULL",
+        [subjectId, predicate, objectId]
     );
+    if (same) {
+        runSql(
+            "UPDATE relations SET properties = ?, confidence = ? WHERE id = ?",
+            [propsJson, confidence, same.id]
+        );
+        return same.id;
+    }
 
-    if (existing && existing.object_id !== objectId) {
-        // Mark old relation as ended (temporal update)
+    if (functional) {
+        // Mark the old relation(s) as ended (temporal update)
         runSql(
-            "UPDATE relations SET temporal_end = ?, confidence = confidence * 0.5 WHERE id = ?",
-            [ts, existing.id]
+            "UPDATE relations SET temporal_end = ?, confidence = confidence * 0.5 WHERE subject_id = ? AND predicate = ? AND temporal_end IS NULL",
+            [ts, subjectId, predicate]
         );
     }
 
@@ -477,6 +931,7 @@ export function upsertRelation(
             sourceSummaryId ?? null,
         ]
     );
+    return id;
 }
 
 export function getRelationsBySubject(subjectId: string): RelationRow[] {
@@ -510,6 +965,16 @@ export function deleteRelation(id: string): void {
     runSql("DELETE FROM relations WHERE id = ?", [id]);
 }
 
+/**
+ * End a relation (keeping it as history) and lower its confidence.
+ */
+export function endRelation(id: string, confidence: number): void {
+    runSql(
+        "UPDATE relations SET confidence = ?, temporal_end = ? WHERE id = ?",
+        [confidence, now(), id]
+    );
+}
+
 export function getRelationCount(): number {
     const row = queryOne<{ "COUNT(*)": number }>(
         "SELECT COUNT(*) FROM relations WHERE temporal_end IS NULL"
@@ -524,8 +989,8 @@ export function getRelationCount(): number {
 export function insertSummary(summary: Omit<SummaryRow, "created_at" | "updated_at">): SummaryRow {
     const ts = now();
     runSql(
-        `INSERT INTO summaries (id, tier, content, token_count, created_at, updated_at, session_id, source_ids, metadata)
-     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        `INSERT INTO summaries (id, tier, content, token_count, created_at, updated_at, session_id, source_ids, metadata, project)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
         [
             summary.id,
             summary.tier,
@@ -536,6 +1001,7 @@ export function insertSummary(summary: Omit<SummaryRow, "created_at" | "updated_
             summary.session_id ?? null,
             summary.source_ids,
             summary.metadata,
+            summary.project ?? null,
         ]
     );
     return { ...summary, created_at: ts, updated_at: ts };
@@ -549,13 +1015,40 @@ export function updateSummaryContent(id: string, content: string, tokenCount: nu
     );
 }
 
-export function getSummariesByTier(tier: number): SummaryRow[] {
+/**
+ * Summaries of a tier, newest first. Pass `project` (including null) to
+ * restrict to that project; omit it to span all projects.
+ */
+export function getSummariesByTier(tier: number, project?: string | null): SummaryRow[] {
+    if (project !== undefined) {
+        return queryAll<SummaryRow>(
+            "SELECT * FROM summaries WHERE tier = ? AND project IS ? ORDER BY created_at DESC",
+            [tier, project]
+        );
+    }
     return queryAll<SummaryRow>(
         "SELECT * FROM summaries WHERE tier = ? ORDER BY created_at DESC",
         [tier]
     );
 }
 
+/**
+ * IDs of summaries (any tier) starting with `prefix`, newest first. Pass
+ * `project` (including null) to restrict to that project.
+ */
+export function getSummaryIdsByPrefix(prefix: string, limit: number = 100, project?: string | null): string[] {
+    if (project !== undefined) {
+        return queryAll<{ id: string }>(
+            "SELECT id FROM summaries WHERE substr(id, 1, ?) = ? AND project IS ? ORDER BY created_at DESC LIMIT ?",
+            [prefix.length, prefix, project, limit]
+        ).map((row) => row.id);
+    }
+    return queryAll<{ id: string }>(
+        "SELECT id FROM summaries WHERE substr(id, 1, ?) = ? ORDER BY created_at DESC LIMIT ?",
+        [prefix.length, prefix, limit]
+    ).map((row) => row.id);
+}
+
 export function getSummariesByTierAndSession(tier: number, sessionId: string): SummaryRow[] {
     return queryAll<SummaryRow>(
         "SELECT * FROM summaries WHERE tier = ? AND session_id = ? ORDER BY created_at DESC",
@@ -563,7 +1056,17 @@ export function getSummariesByTierAndSession(tier: number, sessionId: string): S
     );
 }
 
-export function getSummariesByTierExcludingSession(tier: number, sessionId: string): SummaryRow[] {
+export function getSummariesByTierExcludingSession(
+    tier: number,
+    sessionId: string,
+    project?: string | null
+): SummaryRow[] {
+    if (project !== undefined) {
+        return queryAll<SummaryRow>(
+            "SELECT * FROM summaries WHERE tier = ? AND (session_id IS NULL OR session_id != ?) AND project IS ? ORDER BY created_at DESC",
+            [tier, sessionId, project]
+        );
+    }
     return queryAll<SummaryRow>(
         "SELECT * FROM summaries WHERE tier = ? AND (session_id IS NULL OR session_id != ?) ORDER BY created_at DESC",
         [tier, sessionId]
@@ -607,13 +1110,13 @@ export function getTotalSummaryTokens(): number {
 // Vector operations
 // ---------------------------------------------------------------------------
 
-export function insertVector(vector: Omit<VectorRow, "created_at">): void {
+export function insertVector(vector: Omit<VectorRow, "created_at">): VectorRow {
     const ts = now();
     // Delete existing if same id (upsert semantics)
     runSql("DELETE FROM vectors WHERE id = ?", [vector.id]);
     runSql(
-        `INSERT INTO vectors (id, source_id, source_type, content_preview, embedding, dimensions, metadata, created_at, confidence)
-     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        `INSERT INTO vectors (id, source_id, source_type, content_preview, embedding, dimensions, metadata, created_at, confidence, project)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
         [
             vector.id,
             vector.source_id,
@@ -624,8 +1127,10 @@ export function insertVector(vector: Omit<VectorRow, "created_at">): void {
             vector.metadata,
             ts,
             vector.confidence,
+            vector.project ?? null,
         ]
     );
+    return { ...vector, created_at: ts, project: vector.project ?? null };
 }
 
 export function getVectorById(id: string): VectorRow | undefined {
@@ -647,6 +1152,14 @@ export function deleteVector(id: string): void {
     runSql("DELETE FROM vectors WHERE id = ?", [id]);
 }
 
+export function getVectorIdsBySourceId(sourceId: string): string[] {
+    return queryAll<{ id: string }>("SELECT id FROM vectors WHERE source_id = ?", [sourceId]).map((row) => row.id);
+}
+
+export function getVectorsBySourceId(sourceId: string): VectorRow[] {
+    return queryAll<VectorRow>("SELECT * FROM vectors WHERE source_id = ?", [sourceId]);
+}
+
 export function deleteVectorsBySourceId(sourceId: string): void {
     runSql("DELETE FROM vectors WHERE source_id = ?", [sourceId]);
 }
@@ -661,6 +1174,8 @@ export function getVectorCount(): number {
 // ---------------------------------------------------------------------------
 
 export function logAccess(memoryId: string, memoryType: string): void {
+    // Access counts only tune ranking; a read-only process does not record them
+    if (isDatabaseReadOnly()) return;
     const ts = now();
     runSql(
         "INSERT INTO access_log (memory_id, memory_type, accessed_at) VALUES (?, ?, ?)",
@@ -733,13 +1248,14 @@ export function wipeAllData(): void {
 
 export function insertSession(session: SessionRow): void {
     runSql(
-        `INSERT INTO sessions (id, started_at, ended_at, metadata)
-     VALUES (?, ?, ?, ?)`,
+        `INSERT INTO sessions (id, started_at, ended_at, metadata, project)
+     VALUES (?, ?, ?, ?, ?)`,
         [
             session.id,
             session.started_at,
             session.ended_at ?? null,
             session.metadata,
+            session.project ?? null,
         ]
     );
 }
@@ -752,11 +1268,72 @@ export function endSessionRecord(sessionId: string): void {
     );
 }
 
+/**
+ * Set a session's project and re-tag everything already stored in it
+ * (its summaries and their vectors).
+ */
+export function updateSessionProject(sessionId: string, project: string | null): void {
+    runSql(
+        "UPDATE sessions SET project = ? WHERE id = ?",
+        [project, sessionId]
+    );
+    runSql(
+        "UPDATE vectors SET project = ? WHERE source_id IN (SELECT id FROM summaries WHERE session_id = ?)",
+        [project, sessionId]
+    );
+    runSql(
+        "UPDATE summaries SET project = ? WHERE session_id = ?",
+        [project, sessionId]
+    );
+}
+
+export function reopenSessionRecord(sessionId: string): void {
+    runSql(
+        "UPDATE sessions SET ended_at = NULL WHERE id = ?",
+        [sessionId]
+    );
+}
+
 export function getSessionById(sessionId: string): SessionRow | undefined {
     return queryOne<SessionRow>("SELECT * FROM sessions WHERE id = ?", [sessionId]);
 }
 
-export function getRecentSessions(limit: number = 10): SessionRow[] {
+/**
+ * Sessions whose ID starts with `prefix`, newest first. Pass `project`
+ * (including null) to restrict to that project.
+ */
+export function getSessionsByIdPrefix(prefix: string, project?: string | null): SessionRow[] {
+    if (project !== undefined) {
+        return queryAll<SessionRow>(
+            "SELECT * FROM sessions WHERE substr(id, 1, ?) = ? AND project IS ? ORDER BY started_at DESC",
+            [prefix.length, prefix, project]
+        );
+    }
+    return queryAll<SessionRow>(
+        "SELECT * FROM sessions WHERE substr(id, 1, ?) = ? ORDER BY started_at DESC",
+        [prefix.length, prefix]
+    );
+}
+
+export function getSummaryCountBySession(sessionId: string): number {
+    const row = queryOne<{ "COUNT(*)": number }>(
+        "SELECT COUNT(*) FROM summaries WHERE session_id = ?",
+        [sessionId]
+    );
+    return row ? row["COUNT(*)"] : 0;
+}
+
+/**
+ * Most recently started sessions. Pass `project` (including null) to
+ * restrict to that project.
+ */
+export function getRecentSessions(limit: number = 10, project?: string | null): SessionRow[] {
+    if (project !== undefined) {
+        return queryAll<SessionRow>(
+            "SELECT * FROM sessions WHERE project IS ? ORDER BY started_at DESC LIMIT ?",
+            [project, limit]
+        );
+    }
     return queryAll<SessionRow>(
         "SELECT * FROM sessions ORDER BY started_at DESC LIMIT ?",
         [limit]
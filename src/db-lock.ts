@@ -0,0 +1,105 @@
+import { openSync, writeSync, closeSync, readFileSync, unlinkSync } from "fs";
+import { hostname } from "os";
+
+// ---------------------------------------------------------------------------
+// Advisory lock on the database file
+//
+// Each process holds the whole database in memory, so two processes writing
+// to the same data directory would overwrite each other's snapshots. The
+// first process to open the database creates memory.db.lock recording its
+// PID and host; any other process finds the lock and opens the database
+// read-only. A lock whose owner is no longer running (a crashed or killed
+// server on this host) is stale and is taken over.
+// ---------------------------------------------------------------------------
+
+export interface LockOwner {
+    pid: number;
+    hostname: string;
+    acquiredAt: string;
+}
+
+export type LockResult =
+    | { acquired: true; staleOwner: LockOwner | null }
+    | { acquired: false; owner: LockOwner };
+
+function readLockOwner(lockPath: string): LockOwner | null {
+    try {
+        const owner = JSON.parse(readFileSync(lockPath, "utf-8")) as Partial<LockOwner>;
+        if (typeof owner.pid !== "number" || typeof owner.hostname !== "string") return null;
+        return { pid: owner.pid, hostname: owner.hostname, acquiredAt: String(owner.acquiredAt ?? "") };
+    } catch {
+        return null;
+    }
+}
+
+function isProcessAlive(pid: number): boolean {
+    try {
+        process.kill(pid, 0);
+        return true;
+    } catch (error) {
+        // EPERM: the process exists but belongs to another user
+        return (error as NodeJS.ErrnoException).code === "EPERM";
+    }
+}
+
+/**
+ * A lock is stale if its owner ran on this host and is gone. Owners on other
+ * hosts (a shared network drive) cannot be checked and are assumed alive.
+ */
+function isStale(owner: LockOwner | null): boolean {
+    if (!owner) return true; // Unreadable or half-written lock file
+    return owner.hostname === hostname() && !isProcessAlive(owner.pid);
+}
+
+/**
+ * Try to take the lock at `lockPath`, replacing a stale one.
+ */
+export function acquireLock(lockPath: string): LockResult {
+    let staleOwner: LockOwner | null = null;
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+        const self: LockOwner = { pid: process.pid, hostname: hostname(), acquiredAt: new Date().toISOString() };
+        try {
+            const fd = openSync(lockPath, "wx");
+            try {
+                writeSync(fd, JSON.stringify(self));
+            } finally {
+                closeSync(fd);
+            }
+            return { acquired: true, staleOwner };
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+        }
+
+        const owner = readLockOwner(lockPath);
+        if (!isStale(owner)) {
+            return { acquired: false, owner: owner! };
+        }
+        staleOwner = owner;
+        try {
+            unlinkSync(lockPath);
+        } catch {
+            // Another process removed it first — retry the create
+        }
+    }
+
+    // Lost the race for a stale lock to another process
+    const owner = readLockOwner(lockPath);
+    return owner
+        ? { acquired: false, owner }
+        : { acquired: false, owner: { pid: 0, hostname: "unknown", acquiredAt: "" } };
+}
+
+/**
+ * Remove the lock if this process still owns it.
+ */
+export function releaseLock(lockPath: string): void {
+    const owner = readLockOwner(lockPath);
+    if (owner && owner.pid === process.pid && owner.hostname === hostname()) {
+        try {
+            unlinkSync(lockPath);
+        } catch {
+            // non-fatal
+        }
+    }
+}
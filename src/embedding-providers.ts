@@ -0,0 +1,215 @@
+import type { EmbeddingConfig } from "./config.js";
+import { embedHashed, HASHED_EMBEDDER_NAME } from "./hashed-embedder.js";
+
+// ---------------------------------------------------------------------------
+// Embedding providers
+//
+// An EmbeddingProvider turns texts into vectors. embeddings.ts picks one
+// from `embedding.provider`, splits batches to the provider's limit, and
+// falls back to the hashed provider when the configured one fails (for
+// stored vectors, only when it is unavailable for good):
+//
+//   local   transformers.js feature-extraction pipeline (ONNX, in-process)
+//   openai  an OpenAI-compatible POST /v1/embeddings endpoint — OpenAI
+//           itself, or a local Ollama, llama.cpp server or LM Studio
+//   hashed  the offline hashed n-gram embedder (see hashed-embedder.ts)
+// ---------------------------------------------------------------------------
+
+export interface EmbeddingProvider {
+    /** Reported by memory_status: the model, or the hashed embedder's name */
+    readonly name: string;
+    /** Most texts one embed() call may carry */
+    readonly maxBatchSize: number;
+    /**
+     * True once the provider failed in a way retrying cannot fix: the local
+     * model never loaded.
+     */
+    readonly unavailable: boolean;
+    /**
+     * One vector per text, in order. Rejects if the provider is unavailable
+     * or the request fails.
+     */
+    embed(texts: string[]): Promise<number[][]>;
+}
+
+// ── transformers.js ──
+
+type Pipeline = (
+    input: string | string[],
+    options?: { pooling: string; normalize: boolean }
+) => Promise<{ tolist: () => number[][] }>;
+
+/**
+ * Local embeddings via @huggingface/transformers. The model is downloaded
+ * on first use and cached locally (~80MB for all-MiniLM-L6-v2). A failed
+ * load is not retried: every later call rejects with the same error.
+ */
+export class TransformersProvider implements EmbeddingProvider {
+    readonly name: string;
+    readonly maxBatchSize: number;
+
+    private readonly dtype: string;
+    private pipeline: Promise<Pipeline> | null = null;
+    private loadFailed = false;
+
+    constructor(model: string, options: { dtype: string; batchSize: number }) {
+        this.name = model;
+        this.dtype = options.dtype;
+        this.maxBatchSize = Math.max(1, options.batchSize);
+    }
+
+    get unavailable(): boolean {
+        return this.loadFailed;
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        this.pipeline ??= this.load().catch((error) => {
+            this.loadFailed = true;
+            throw error;
+        });
+        const pipeline = await this.pipeline;
+        const result = await pipeline(texts, {
+            pooling: "mean",
+            normalize: true,
+        });
+        return result.tolist();
+    }
+
+    /**
+     * IMPORTANT: We suppress ALL console output during initialization because
+     * @huggingface/transformers outputs download progress bars and ONNX runtime
+     * status messages that would corrupt the MCP stdio JSON-RPC protocol.
+     */
+    private async load(): Promise<Pipeline> {
+        // Dynamic import to avoid loading the heavy ONNX runtime at module level
+        const { pipeline, env } = await import("@huggingface/transformers");
+
+        // Suppress all HuggingFace progress output — these progress bars
+        // and status messages would corrupt the MCP JSON-RPC protocol
+        // since they write to stdout/stderr.
+        if (env) {
+            // Disable remote model fetching progress bars
+            (env as Record<string, unknown>).allowRemoteModels = true;
+            // Some versions of @huggingface/transformers support log level
+            if ("logLevel" in env) {
+                (env as Record<string, unknown>).logLevel = "error";
+            }
+        }
+
+        return (await pipeline("feature-extraction", this.name, {
+            dtype: this.dtype as "fp32",
+        })) as unknown as Pipeline;
+    }
+}
+
+// ── OpenAI-compatible HTTP endpoint ──
+
+interface EmbeddingsResponse {
+    data?: { embedding?: unknown; index?: number }[];
+}
+
+/**
+ * Embeddings from an OpenAI-compatible `/embeddings` endpoint. `baseUrl` is
+ * the API root, e.g. `http://localhost:11434/v1` for Ollama.
+ */
+export class OpenAiCompatibleProvider implements EmbeddingProvider {
+    readonly name: string;
+    readonly maxBatchSize: number;
+    /** Endpoint failures may be transient; the endpoint is tried on every call */
+    readonly unavailable = false;
+
+    private readonly url: string;
+    private readonly apiKey: string;
+    private readonly timeoutMs: number;
+
+    constructor(model: string, options: { baseUrl: string; apiKey: string; batchSize: number; timeoutMs: number }) {
+        this.name = model;
+        this.url = `${options.baseUrl.replace(/\/+$/, "")}/embeddings`;
+        this.apiKey = options.apiKey;
+        this.maxBatchSize = Math.max(1, options.batchSize);
+        this.timeoutMs = options.timeoutMs;
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        const headers: Record<string, string> = { "Content-Type": "application/json" };
+        if (this.apiKey) headers.Authorization = `Bearer ${this.apiKey}`;
+
+        let response: Response;
+        try {
+            response = await fetch(this.url, {
+                method: "POST",
+                headers,
+                body: JSON.stringify({ model: this.name, input: texts }),
+                signal: AbortSignal.timeout(this.timeoutMs),
+            });
+        } catch (error) {
+            if ((error as Error).name === "TimeoutError") {
+                throw new Error(`${this.url} did not answer within ${this.timeoutMs} ms`);
+            }
+            // fetch reports "fetch failed" and keeps the reason in `cause`
+            const reason = (error as { cause?: unknown }).cause ?? error;
+            throw new Error(`${this.url} unreachable: ${reason instanceof Error ? reason.message : String(reason)}`);
+        }
+        if (!response.ok) {
+            const detail = (await response.text().catch(() => "")).slice(0, 200);
+            throw new Error(`${this.url} returned HTTP ${response.status}${detail ? `: ${detail}` : ""}`);
+        }
+
+        const body = (await response.json()) as EmbeddingsResponse;
+        const data = body.data ?? [];
+        if (data.length !== texts.length) {
+            throw new Error(`${this.url} returned ${data.length} embeddings for ${texts.length} inputs`);
+        }
+
+        // Entries carry their input's index; don't rely on response order
+        const vectors = new Array<number[]>(texts.length);
+        data.forEach((item, position) => {
+            const index = item.index ?? position;
+            const embedding = item.embedding;
+            if (
+                !Array.isArray(embedding) ||
+                embedding.length === 0 ||
+                !embedding.every((value) => typeof value === "number") ||
+                index < 0 ||
+                index >= texts.length
+            ) {
+                throw new Error(`${this.url} returned a malformed embedding`);
+            }
+            if (embedding.length !== (data[0].embedding as unknown[]).length) {
+                throw new Error(`${this.url} returned embeddings of different lengths`);
+            }
+            vectors[index] = embedding;
+        });
+        for (let i = 0; i < vectors.length; i++) {
+            if (!vectors[i]) throw new Error(`${this.url} returned no embedding for input ${i}`);
+        }
+        return vectors;
+    }
+}
+
+// ── Offline fallback ──
+
+export class HashedProvider implements EmbeddingProvider {
+    readonly name = HASHED_EMBEDDER_NAME;
+    readonly maxBatchSize = Number.MAX_SAFE_INTEGER;
+    readonly unavailable = false;
+
+    async embed(texts: string[]): Promise<number[][]> {
+        return texts.map(embedHashed);
+    }
+}
+
+/**
+ * The provider configured by `config.provider` ("none" is the hashed one).
+ */
+export function createEmbeddingProvider(config: EmbeddingConfig): EmbeddingProvider {
+    switch (config.provider) {
+        case "local":
+            return new TransformersProvider(config.model, config.local);
+        case "openai":
+            return new OpenAiCompatibleProvider(config.model, config.openai);
+        case "hashed":
+        case "none":
+            return new HashedProvider();
+    }
+}
@@ -1,142 +1,148 @@
 import { getConfig } from "./config.js";
+import { instanceState } from "./instance.js";
+import { createEmbeddingProvider, HashedProvider, type EmbeddingProvider } from "./embedding-providers.js";
 
 // ---------------------------------------------------------------------------
-// Local embedding via @huggingface/transformers (ONNX runtime)
+// Embedding via the configured provider (see embedding-providers.ts)
+//
+// Texts go to the provider in batches of at most its maxBatchSize. When the
+// provider fails — the model cannot be loaded, the endpoint is down — a
+// query is embedded with the offline hashed embedder instead, so searches
+// always get a meaningful vector. Hashed vectors have a different length
+// from model vectors and never score against them, so a vector that is
+// stored must not be a stand-in for a passing failure: embedForStorage
+// retries, and falls back only when the provider is unavailable for good.
 // ---------------------------------------------------------------------------
 
-type Pipeline = (
-    input: string | string[],
-    options?: { pooling: string; normalize: boolean }
-) => Promise<{ tolist: () => number[][] }>;
+const STORAGE_ATTEMPTS = 3;
+const STORAGE_RETRY_DELAY_MS = 500;
 
-let _pipeline: Pipeline | null = null;
-let _initPromise: Promise<void> | null = null;
-let _initFailed: boolean = false;
-let _initError: string | null = null;
-
-/**
- * Initialize the embedding pipeline lazily. The model is downloaded on first
- * use and cached locally (~80MB for all-MiniLM-L6-v2).
- *
- * IMPORTANT: We suppress ALL console output during initialization because
- * @huggingface/transformers outputs download progress bars and ONNX runtime
- * status messages that would corrupt the MCP stdio JSON-RPC protocol.
- */
-async function initPipeline(): Promise<void> {
-    if (_pipeline) return;
-    if (_initFailed) return; // Don't retry if init already failed
-
-    if (_initPromise) {
-        await _initPromise;
-        return;
-    }
-
-    _initPromise = (async () => {
-        const config = getConfig();
-        const modelName = config.embedding.model;
-
-        try {
-            // Dynamic import to avoid loading the heavy ONNX runtime at module level
-            const { pipeline, env } = await import("@huggingface/transformers");
-
-            // Suppress all HuggingFace progress output — these progress bars
-            // and status messages would corrupt the MCP JSON-RPC protocol
-            // since they write to stdout/stderr.
-            if (env) {
-                // Disable remote model fetching progress bars
-                (env as Record<string, unknown>).allowRemoteModels = true;
-                // Some versions of @huggingface/transformers support log level
-                if ("logLevel" in env) {
-                    (env as Record<string, unknown>).logLevel = "error";
-                }
-            }
+export interface StoredEmbedding {
+    vector: number[];
+    /** Name of the embedder that produced `vector` (see getEmbedderName) */
+    embedder: string;
+}
 
-            _pipeline = (await pipeline("feature-extraction", modelName, {
-                dtype: "fp32",
-            })) as unknown as Pipeline;
-        } catch (error) {
-            _initFailed = true;
-            _initError = error instanceof Error ? error.message : String(error);
-            _pipeline = null;
-            // Don't throw — we'll gracefully degrade to zero vectors
-        }
-    })();
+interface EmbedderState {
+    provider: EmbeddingProvider | null;
+    /** Provider settings `provider` was created from */
+    providerKey: string;
+    fallback: HashedProvider;
+    /** Name of the provider that produced the latest embeddings */
+    lastEmbedder: string | null;
+    /** Latest failure of the configured provider, cleared when it succeeds */
+    error: string | null;
+}
 
-    await _initPromise;
+function embedderState(): EmbedderState {
+    return instanceState<EmbedderState>("embedder", () => ({
+        provider: null,
+        providerKey: "",
+        fallback: new HashedProvider(),
+        lastEmbedder: null,
+        error: null,
+    }));
 }
 
 /**
- * Generate an embedding vector for a text string.
- * Returns a float array of `config.embedding.dimensions` length (default 384).
- *
- * If the embedding pipeline fails to initialize (e.g., model download fails,
- * ONNX runtime error), returns a zero vector instead of crashing.
+ * The configured provider, created on first use and again whenever its
+ * settings change.
  */
-export async function embed(text: string): Promise<number[]> {
-    const config = getConfig();
-
-    if (config.embedding.provider === "none") {
-        // Return zero vector if embeddings are disabled
-        return new Array(config.embedding.dimensions).fill(0);
+function currentProvider(): EmbeddingProvider {
+    const state = embedderState();
+    const { provider, model, local, openai } = getConfig().embedding;
+    const key = JSON.stringify({ provider, model, local, openai });
+    if (!state.provider || state.providerKey !== key) {
+        state.provider = createEmbeddingProvider(getConfig().embedding);
+        state.providerKey = key;
+        state.lastEmbedder = null;
+        state.error = null;
     }
+    return state.provider;
+}
 
+/**
+ * Embed with `provider`, keeping track of its latest error.
+ */
+async function embedWith(provider: EmbeddingProvider, texts: string[]): Promise<number[][]> {
+    const state = embedderState();
     try {
-        await initPipeline();
-    } catch {
-        // Pipeline init failed — return zero vector
-        return new Array(config.embedding.dimensions).fill(0);
+        const vectors = await provider.embed(texts);
+        state.lastEmbedder = provider.name;
+        if (provider !== state.fallback) state.error = null;
+        return vectors;
+    } catch (error) {
+        state.error = error instanceof Error ? error.message : String(error);
+        throw error;
     }
+}
 
-    if (!_pipeline) {
-        // Pipeline failed to initialize — return zero vector (graceful degradation)
-        return new Array(config.embedding.dimensions).fill(0);
-    }
+function embedWithFallback(texts: string[]): Promise<number[][]> {
+    const state = embedderState();
+    state.lastEmbedder = state.fallback.name;
+    return state.fallback.embed(texts);
+}
 
+async function embedChunk(provider: EmbeddingProvider, texts: string[]): Promise<number[][]> {
     try {
-        const result = await _pipeline(text, {
-            pooling: "mean",
-            normalize: true,
-        });
-
-        const vectors = result.tolist();
-        return vectors[0];
-    } catch (error) {
-        // Embedding call failed — return zero vector instead of crashing
-        return new Array(config.embedding.dimensions).fill(0);
+        return await embedWith(provider, texts);
+    } catch {
+        // Provider failed — fall back to the hashed embedder instead of crashing
+        return embedWithFallback(texts);
     }
 }
 
+/**
+ * Generate an embedding vector for a text string.
+ *
+ * If the provider fails (e.g., model download fails, ONNX runtime error,
+ * endpoint unreachable), the text is embedded with the offline hashed
+ * n-gram embedder instead. For queries; see embedForStorage for vectors
+ * that are kept.
+ */
+export async function embed(text: string): Promise<number[]> {
+    const [vector] = await embedBatch([text]);
+    return vector;
+}
+
 /**
  * Generate embeddings for multiple texts in a batch.
  */
 export async function embedBatch(texts: string[]): Promise<number[][]> {
     if (texts.length === 0) return [];
 
-    const config = getConfig();
-
-    if (config.embedding.provider === "none") {
-        return texts.map(() => new Array(config.embedding.dimensions).fill(0));
+    const provider = currentProvider();
+    const vectors: number[][] = [];
+    for (let start = 0; start < texts.length; start += provider.maxBatchSize) {
+        vectors.push(...(await embedChunk(provider, texts.slice(start, start + provider.maxBatchSize))));
     }
+    return vectors;
+}
 
-    try {
-        await initPipeline();
-    } catch {
-        return texts.map(() => new Array(config.embedding.dimensions).fill(0));
-    }
-
-    if (!_pipeline) {
-        return texts.map(() => new Array(config.embedding.dimensions).fill(0));
-    }
-
-    try {
-        const result = await _pipeline(texts, {
-            pooling: "mean",
-            normalize: true,
-        });
-
-        return result.tolist();
-    } catch {
-        return texts.map(() => new Array(config.embedding.dimensions).fill(0));
+/**
+ * Generate the embedding of a text that is about to be stored. Failures are
+ * retried; if they persist this throws rather than return a hashed vector
+ * that would never score against the model's. Only a provider that is
+ * unavailable for good (a local model that never loaded) is replaced by the
+ * hashed embedder.
+ */
+export async function embedForStorage(text: string): Promise<StoredEmbedding> {
+    const provider = currentProvider();
+    for (let attempt = 1; ; attempt++) {
+        try {
+            const [vector] = await embedWith(provider, [text]);
+            return { vector, embedder: provider.name };
+        } catch (error) {
+            if (provider.unavailable) {
+                const [vector] = await embedWithFallback([text]);
+                return { vector, embedder: embedderState().fallback.name };
+            }
+            if (attempt === STORAGE_ATTEMPTS) {
+                const message = error instanceof Error ? error.message : String(error);
+                throw new Error(`Embedding with ${provider.name} failed ${STORAGE_ATTEMPTS} times: ${message}`);
+            }
+            await new Promise((resolve) => setTimeout(resolve, STORAGE_RETRY_DELAY_MS * attempt));
+        }
     }
 }
 
@@ -188,15 +194,26 @@ export function bufferToVector(buf: Uint8Array): number[] {
 }
 
 /**
- * Check if the embedding pipeline is initialized.
+ * Check if the configured provider has produced embeddings (rather than the
+ * hashed fallback standing in for it).
  */
 export function isEmbeddingReady(): boolean {
-    return _pipeline !== null;
+    const state = embedderState();
+    return state.provider !== null && state.lastEmbedder === state.provider.name;
+}
+
+/**
+ * Name of the embedder that produced the latest embeddings: the configured
+ * model, or the hashed n-gram embedder when it is configured or stood in
+ * for a failed provider.
+ */
+export function getEmbedderName(): string {
+    return embedderState().lastEmbedder ?? currentProvider().name;
 }
 
 /**
- * Get the initialization error message, if any.
+ * Get the latest error from the configured provider, if any.
  */
 export function getEmbeddingError(): string | null {
-    return _initError;
+    return embedderState().error;
 }
@@ -0,0 +1,121 @@
+// ---------------------------------------------------------------------------
+// Hashed n-gram embedder (offline, deterministic)
+//
+// A dependency-free fallback for when no embedding model is available. Each
+// text becomes a bag of features — words, adjacent word pairs, and character
+// trigrams of each word (so "deploy" and "deployment" still overlap) — that
+// are hashed into a fixed number of buckets with a random sign per feature,
+// then L2-normalized. Feature weights are TF-IDF: sublinear term frequency
+// times a fixed IDF prior that down-weights common function words. The prior
+// is fixed rather than learned from the store so that a text always maps to
+// the same vector, and vectors stored months apart stay comparable.
+//
+// The vectors have HASHED_DIMENSIONS entries, deliberately a different
+// length from the model embeddings, so vectors from the two never get
+// compared with each other.
+// ---------------------------------------------------------------------------
+
+export const HASHED_EMBEDDER_NAME = "hashed-ngram-v1";
+export const HASHED_DIMENSIONS = 512;
+
+const BIGRAM_WEIGHT = 0.5;
+const TRIGRAM_WEIGHT = 1;
+/** IDF of common function words, relative to 1 for every other word */
+const COMMON_WORD_IDF = 0.1;
+
+const COMMON_WORDS = new Set([
+    "a", "an", "the", "and", "or", "but", "if", "of", "to", "in", "on", "at", "by",
+    "for", "with", "from", "into", "onto", "over", "as", "is", "are", "was", "were",
+    "be", "been", "being", "am", "it", "its", "this", "that", "these", "those",
+    "i", "me", "my", "we", "us", "our", "you", "your", "he", "him", "his", "she",
+    "her", "they", "them", "their", "there", "here", "do", "does", "did", "done",
+    "have", "has", "had", "not", "no", "so", "than", "then", "too", "very", "can",
+    "could", "will", "would", "should", "may", "might", "must", "shall", "just",
+    "also", "only", "about", "after", "before", "when", "where", "which", "who",
+    "what", "how", "why", "all", "any", "some", "each", "such", "both", "more",
+    "most", "other", "up", "out", "off", "again", "while", "because", "until",
+]);
+
+/**
+ * 32-bit FNV-1a hash of a string.
+ */
+function fnv1a(text: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * Murmur3 finalizer — decorrelates the sign bit from the bucket index.
+ */
+function mix(hash: number): number {
+    hash ^= hash >>> 16;
+    hash = Math.imul(hash, 0x85ebca6b);
+    hash ^= hash >>> 13;
+    hash = Math.imul(hash, 0xc2b2ae35);
+    hash ^= hash >>> 16;
+    return hash >>> 0;
+}
+
+function tokenize(text: string): string[] {
+    return text.normalize("NFKC").toLowerCase().match(/[\p{L}\p{N}_]+/gu) || [];
+}
+
+function idf(word: string): number {
+    return COMMON_WORDS.has(word) ? COMMON_WORD_IDF : 1;
+}
+
+/**
+ * Weighted features of a text, before hashing.
+ */
+function extractFeatures(text: string): Map<string, number> {
+    const features = new Map<string, number>();
+    const add = (feature: string, weight: number) => {
+        features.set(feature, (features.get(feature) || 0) + weight);
+    };
+
+    const words = tokenize(text);
+    for (let i = 0; i < words.length; i++) {
+        const word = words[i];
+        const weight = idf(word);
+        add(`w:${word}`, weight);
+
+        if (i > 0) {
+            add(`b:${words[i - 1]} ${word}`, BIGRAM_WEIGHT * Math.min(weight, idf(words[i - 1])));
+        }
+
+        // Scaled so each word's trigrams have the same norm, however long it is
+        const padded = `<${word}>`;
+        const trigrams = Math.max(padded.length - 2, 1);
+        for (let j = 0; j < trigrams; j++) {
+            add(`c:${padded.substring(j, j + 3)}`, (TRIGRAM_WEIGHT * weight) / Math.sqrt(trigrams));
+        }
+    }
+
+    return features;
+}
+
+/**
+ * Embed a text with the hashed n-gram embedder. Returns a unit vector of
+ * HASHED_DIMENSIONS entries, or a zero vector for text without words.
+ */
+export function embedHashed(text: string): number[] {
+    const vector = new Array<number>(HASHED_DIMENSIONS).fill(0);
+
+    for (const [feature, weight] of extractFeatures(text)) {
+        const hash = fnv1a(feature);
+        // Sublinear TF: repeated features count less than linearly
+        const tf = weight > 1 ? 1 + Math.log(weight) : weight;
+        vector[hash % HASHED_DIMENSIONS] += mix(hash) & 0x80000000 ? -tf : tf;
+    }
+
+    let norm = 0;
+    for (const value of vector) norm += value * value;
+    if (norm === 0) return vector;
+
+    const scale = 1 / Math.sqrt(norm);
+    return vector.map((value) => value * scale);
+}
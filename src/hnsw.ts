@@ -0,0 +1,594 @@
+// ---------------------------------------------------------------------------
+// HNSW approximate nearest-neighbour index
+//
+// Hierarchical Navigable Small World graph (Malkov & Yashunin, 2016) over
+// cosine similarity. The index holds only labels and links: every
+// similarity is asked of an HnswVectorSource, so the vectors live in one
+// place (the vector store's embedding matrix) in whatever encoding it uses.
+// Nodes are added incrementally. Removal unlinks a node and reconnects its
+// former neighbours among themselves, since its vector is gone by then; each
+// node keeps the set of nodes linking to it, so only those are revisited. The
+// empty slot stays until the owner rebuilds the index from scratch.
+// ---------------------------------------------------------------------------
+
+export interface HnswOptions {
+    /** Links per node on upper layers (layer 0 keeps 2·M). Default 16. */
+    m?: number;
+    /** Beam width while inserting. Default 200. */
+    efConstruction?: number;
+}
+
+/**
+ * Vectors of the indexed labels. Every label passed to `add()` must stay
+ * readable until it is removed from the index.
+ */
+export interface HnswVectorSource {
+    /** Cosine similarity between the vectors stored under two labels */
+    similarity(a: string, b: string): number;
+    /** Cosine similarity between `query` (Euclidean norm `queryNorm`) and the vector under `label` */
+    querySimilarity(label: string, query: ArrayLike<number>, queryNorm: number): number;
+}
+
+export interface HnswSearchResult {
+    label: string;
+    similarity: number;
+}
+
+const FORMAT_VERSION = 2;
+
+/**
+ * Binary heap of (distance, node) pairs. `max` orders the largest distance
+ * first.
+ */
+class DistanceHeap {
+    private dist: number[] = [];
+    private node: number[] = [];
+
+    constructor(private readonly max: boolean) { }
+
+    get size(): number {
+        return this.dist.length;
+    }
+
+    topDistance(): number {
+        return this.dist[0];
+    }
+
+    topNode(): number {
+        return this.node[0];
+    }
+
+    push(distance: number, node: number): void {
+        this.dist.push(distance);
+        this.node.push(node);
+        let i = this.dist.length - 1;
+        while (i > 0) {
+            const parent = (i - 1) >> 1;
+            if (!this.before(i, parent)) break;
+            this.swap(i, parent);
+            i = parent;
+        }
+    }
+
+    pop(): void {
+        const last = this.dist.length - 1;
+        this.swap(0, last);
+        this.dist.pop();
+        this.node.pop();
+        let i = 0;
+        for (; ;) {
+            const left = 2 * i + 1;
+            const right = left + 1;
+            let best = i;
+            if (left < this.dist.length && this.before(left, best)) best = left;
+            if (right < this.dist.length && this.before(right, best)) best = right;
+            if (best === i) break;
+            this.swap(i, best);
+            i = best;
+        }
+    }
+
+    private before(a: number, b: number): boolean {
+        return this.max ? this.dist[a] > this.dist[b] : this.dist[a] < this.dist[b];
+    }
+
+    private swap(a: number, b: number): void {
+        [this.dist[a], this.dist[b]] = [this.dist[b], this.dist[a]];
+        [this.node[a], this.node[b]] = [this.node[b], this.node[a]];
+    }
+}
+
+export class HnswIndex {
+    readonly dimensions: number;
+    readonly m: number;
+    readonly efConstruction: number;
+
+    private readonly source: HnswVectorSource;
+    private labels: string[] = [];
+    private levels: number[] = [];
+    /** links[node][level] = [count, neighbor, neighbor, ...] */
+    private links: Int32Array[][] = [];
+    /** linkedFrom[node][level] = nodes whose links on that level include node */
+    private linkedFrom: Set<number>[][] = [];
+    private deleted: Uint8Array;
+    private deletedCount = 0;
+    private nodeByLabel = new Map<string, number>();
+    private entryPoint = -1;
+    private maxLevel = -1;
+
+    private visited: Uint32Array;
+    private visitTag = 0;
+    private rngState: number;
+
+    constructor(dimensions: number, source: HnswVectorSource, options: HnswOptions = {}) {
+        this.dimensions = dimensions;
+        this.source = source;
+        this.m = options.m ?? 16;
+        this.efConstruction = options.efConstruction ?? 200;
+        this.deleted = new Uint8Array(64);
+        this.visited = new Uint32Array(64);
+        this.rngState = 0x9e3779b9;
+    }
+
+    /** Number of live (searchable) vectors */
+    get size(): number {
+        return this.labels.length - this.deletedCount;
+    }
+
+    /** Number of slots left empty by removed nodes */
+    get tombstones(): number {
+        return this.deletedCount;
+    }
+
+    has(label: string): boolean {
+        return this.nodeByLabel.has(label);
+    }
+
+    labelsInIndex(): IterableIterator<string> {
+        return this.nodeByLabel.keys();
+    }
+
+    // ── Mutation ──
+
+    /**
+     * Insert the source's vector for `label`. Re-adding an existing label
+     * re-links it.
+     */
+    add(label: string): void {
+        if (this.nodeByLabel.has(label)) this.remove([label]);
+
+        const node = this.labels.length;
+        this.ensureCapacity(node + 1);
+        this.labels.push(label);
+        this.nodeByLabel.set(label, node);
+
+        const level = this.randomLevel();
+        this.levels.push(level);
+        const nodeLinks: Int32Array[] = [];
+        const nodeLinkedFrom: Set<number>[] = [];
+        for (let l = 0; l <= level; l++) {
+            nodeLinks.push(new Int32Array(this.maxLinks(l) + 1));
+            nodeLinkedFrom.push(new Set());
+        }
+        this.links.push(nodeLinks);
+        this.linkedFrom.push(nodeLinkedFrom);
+
+        if (this.entryPoint === -1) {
+            this.entryPoint = node;
+            this.maxLevel = level;
+            return;
+        }
+
+        // Greedy descent through the layers above the new node's top layer
+        let current = this.entryPoint;
+        let currentDist = this.distance(node, current);
+        for (let l = this.maxLevel; l > level; l--) {
+            [current, currentDist] = this.greedyClosestTo(node, current, currentDist, l);
+        }
+
+        // Link into every layer the node lives on
+        for (let l = Math.min(level, this.maxLevel); l >= 0; l--) {
+            const candidates = this.searchLayer(node, [current], this.efConstruction, l, null);
+            const neighbors = this.selectNeighbors(node, candidates, this.m);
+            this.setLinks(node, l, neighbors);
+            for (const neighbor of neighbors) {
+                this.addLink(neighbor, node, l);
+            }
+            current = candidates[0][1];
+        }
+
+        if (level > this.maxLevel) {
+            this.entryPoint = node;
+            this.maxLevel = level;
+        }
+    }
+
+    /**
+     * Remove `labels` from the graph and return how many were indexed. Their
+     * vectors are never read, so the source may already have dropped them.
+     */
+    remove(labels: string[]): number {
+        const removed: number[] = [];
+        for (const label of labels) {
+            const node = this.nodeByLabel.get(label);
+            if (node === undefined) continue;
+            this.nodeByLabel.delete(label);
+            this.deleted[node] = 1;
+            this.deletedCount++;
+            removed.push(node);
+        }
+        if (removed.length === 0) return 0;
+
+        // Every node that linked to a removed one re-selects its links from
+        // its remaining neighbours plus the removed nodes' neighbours. The
+        // copy is needed as repairing drops the node from the set.
+        for (const node of removed) {
+            for (let l = 0; l < this.links[node].length; l++) {
+                for (const from of [...this.linkedFrom[node][l]]) {
+                    if (this.deleted[from] === 0) this.repairLinks(from, l);
+                }
+            }
+        }
+        for (const node of removed) {
+            for (let l = 0; l < this.links[node].length; l++) this.setLinks(node, l, []);
+        }
+
+        if (this.entryPoint !== -1 && this.deleted[this.entryPoint] === 1) {
+            this.entryPoint = -1;
+            this.maxLevel = -1;
+            for (let node = 0; node < this.labels.length; node++) {
+                if (this.deleted[node] === 0 && this.levels[node] > this.maxLevel) {
+                    this.entryPoint = node;
+                    this.maxLevel = this.levels[node];
+                }
+            }
+        }
+        return removed.length;
+    }
+
+    // ── Search ──
+
+    /**
+     * The `k` most similar live vectors to `query`. `ef` (>= k) trades speed
+     * for recall. `accept`, if given, restricts results to labels it returns
+     * true for; rejected nodes are still traversed.
+     */
+    search(
+        query: ArrayLike<number>,
+        k: number,
+        ef: number = 64,
+        accept: ((label: string) => boolean) | null = null
+    ): HnswSearchResult[] {
+        if (this.entryPoint === -1 || k <= 0 || query.length !== this.dimensions) return [];
+
+        const q = normalize(query);
+        let current = this.entryPoint;
+        let currentDist = this.distanceTo(q, current);
+        for (let l = this.maxLevel; l > 0; l--) {
+            [current, currentDist] = this.greedyClosestTo(q, current, currentDist, l);
+        }
+
+        const found = this.searchLayer(q, [current], Math.max(ef, k), 0, (node) =>
+            this.deleted[node] === 0 && (accept === null || accept(this.labels[node]))
+        );
+        return found.slice(0, k).map(([dist, node]) => ({ label: this.labels[node], similarity: 1 - dist }));
+    }
+
+    // ── Persistence ──
+
+    /**
+     * Serialize the index: a JSON header followed by the link lists as
+     * little-endian 32-bit arrays. Vectors are not included — they are read
+     * from the source the index is restored with.
+     */
+    serialize(): Buffer {
+        const header = Buffer.from(JSON.stringify({
+            version: FORMAT_VERSION,
+            dimensions: this.dimensions,
+            m: this.m,
+            efConstruction: this.efConstruction,
+            labels: this.labels,
+            levels: this.levels,
+            deleted: this.labels.map((_, node) => node).filter((node) => this.deleted[node] === 1),
+            entryPoint: this.entryPoint,
+            maxLevel: this.maxLevel,
+        }), "utf-8");
+        const headerPadded = Math.ceil((4 + header.length) / 4) * 4;
+
+        let linkInts = 0;
+        for (const nodeLinks of this.links) {
+            for (const list of nodeLinks) linkInts += list[0] + 1;
+        }
+
+        const buffer = Buffer.alloc(headerPadded + linkInts * 4);
+        buffer.writeUInt32LE(header.length, 0);
+        header.copy(buffer, 4);
+
+        let offset = headerPadded;
+
+        for (const nodeLinks of this.links) {
+            for (const list of nodeLinks) {
+                for (let i = 0; i <= list[0]; i++) {
+                    buffer.writeInt32LE(list[i], offset);
+                    offset += 4;
+                }
+            }
+        }
+        return buffer;
+    }
+
+    /**
+     * Restore an index written by `serialize()` over `source`. Throws on a
+     * malformed or truncated buffer.
+     */
+    static deserialize(buffer: Buffer, source: HnswVectorSource): HnswIndex {
+        const headerLength = buffer.readUInt32LE(0);
+        const header = JSON.parse(buffer.subarray(4, 4 + headerLength).toString("utf-8")) as {
+            version: number;
+            dimensions: number;
+            m: number;
+            efConstruction: number;
+            labels: string[];
+            levels: number[];
+            deleted: number[];
+            entryPoint: number;
+            maxLevel: number;
+        };
+        if (header.version !== FORMAT_VERSION) {
+            throw new Error(`Unsupported HNSW index version ${header.version}`);
+        }
+
+        const index = new HnswIndex(header.dimensions, source, { m: header.m, efConstruction: header.efConstruction });
+        const count = header.labels.length;
+        index.ensureCapacity(count);
+
+        let offset = Math.ceil((4 + headerLength) / 4) * 4;
+
+        for (let node = 0; node < count; node++) {
+            const nodeLinks: Int32Array[] = [];
+            for (let l = 0; l <= header.levels[node]; l++) {
+                const list = new Int32Array(index.maxLinks(l) + 1);
+                const size = buffer.readInt32LE(offset);
+                offset += 4;
+                if (size > index.maxLinks(l)) throw new Error("Corrupt HNSW index");
+                list[0] = size;
+                for (let i = 1; i <= size; i++) {
+                    list[i] = buffer.readInt32LE(offset);
+                    offset += 4;
+                    if (list[i] < 0 || list[i] >= count) throw new Error("Corrupt HNSW index");
+                }
+                nodeLinks.push(list);
+            }
+            index.links.push(nodeLinks);
+            index.linkedFrom.push(nodeLinks.map(() => new Set<number>()));
+        }
+        for (let node = 0; node < count; node++) {
+            index.links[node].forEach((list, l) => {
+                for (let i = 1; i <= list[0]; i++) {
+                    if (l >= index.linkedFrom[list[i]].length) throw new Error("Corrupt HNSW index");
+                    index.linkedFrom[list[i]][l].add(node);
+                }
+            });
+        }
+
+        index.labels = header.labels;
+        index.levels = header.levels;
+        for (let node = 0; node < count; node++) {
+            index.nodeByLabel.set(header.labels[node], node);
+        }
+        for (const node of header.deleted) {
+            index.deleted[node] = 1;
+            index.nodeByLabel.delete(header.labels[node]);
+        }
+        index.deletedCount = header.deleted.length;
+        index.entryPoint = header.entryPoint;
+        index.maxLevel = header.maxLevel;
+        return index;
+    }
+
+    // ── Internals ──
+
+    private maxLinks(level: number): number {
+        return level === 0 ? this.m * 2 : this.m;
+    }
+
+    private randomLevel(): number {
+        // xorshift32 — deterministic, so rebuilding the same data gives the same graph
+        let x = this.rngState;
+        x ^= x << 13;
+        x ^= x >>> 17;
+        x ^= x << 5;
+        this.rngState = x >>> 0;
+        const uniform = (this.rngState + 1) / 4294967297;
+        return Math.floor(-Math.log(uniform) / Math.log(this.m));
+    }
+
+    private ensureCapacity(nodes: number): void {
+        if (nodes <= this.deleted.length) return;
+        let capacity = this.deleted.length;
+        while (capacity < nodes) capacity *= 2;
+
+        const deleted = new Uint8Array(capacity);
+        deleted.set(this.deleted);
+        this.deleted = deleted;
+        this.visited = new Uint32Array(capacity);
+        this.visitTag = 0;
+    }
+
+    /** 1 − cosine similarity between two indexed nodes */
+    private distance(a: number, b: number): number {
+        return 1 - this.source.similarity(this.labels[a], this.labels[b]);
+    }
+
+    /** Distance from a node, or from a normalized query, to `node` */
+    private distanceTo(target: number | Float32Array, node: number): number {
+        return typeof target === "number"
+            ? this.distance(target, node)
+            : 1 - this.source.querySimilarity(this.labels[node], target, 1);
+    }
+
+    private greedyClosestTo(
+        target: number | Float32Array,
+        start: number,
+        startDist: number,
+        level: number
+    ): [number, number] {
+        let current = start;
+        let currentDist = startDist;
+        let improved = true;
+        while (improved) {
+            improved = false;
+            const list = this.links[current][level];
+            for (let i = 1; i <= list[0]; i++) {
+                const dist = this.distanceTo(target, list[i]);
+                if (dist < currentDist) {
+                    currentDist = dist;
+                    current = list[i];
+                    improved = true;
+                }
+            }
+        }
+        return [current, currentDist];
+    }
+
+    /**
+     * Beam search on one layer. Returns up to `ef` (distance, node) pairs,
+     * closest first. With `accept`, only accepted nodes enter the result set
+     * but every node is traversed.
+     */
+    private searchLayer(
+        target: number | Float32Array,
+        entryPoints: number[],
+        ef: number,
+        level: number,
+        accept: ((node: number) => boolean) | null
+    ): [number, number][] {
+        this.visitTag++;
+        if (this.visitTag === 0xffffffff) {
+            this.visited.fill(0);
+            this.visitTag = 1;
+        }
+        const tag = this.visitTag;
+
+        const candidates = new DistanceHeap(false);
+        const results = new DistanceHeap(true);
+        for (const entry of entryPoints) {
+            const dist = this.distanceTo(target, entry);
+            this.visited[entry] = tag;
+            candidates.push(dist, entry);
+            if (accept === null || accept(entry)) results.push(dist, entry);
+        }
+
+        while (candidates.size > 0) {
+            const dist = candidates.topDistance();
+            const node = candidates.topNode();
+            if (results.size >= ef && dist > results.topDistance()) break;
+            candidates.pop();
+
+            const list = this.links[node][level];
+            for (let i = 1; i <= list[0]; i++) {
+                const neighbor = list[i];
+                if (this.visited[neighbor] === tag) continue;
+                this.visited[neighbor] = tag;
+
+                const neighborDist = this.distanceTo(target, neighbor);
+                if (results.size < ef || neighborDist < results.topDistance()) {
+                    candidates.push(neighborDist, neighbor);
+                    if (accept === null || accept(neighbor)) {
+                        results.push(neighborDist, neighbor);
+                        if (results.size > ef) results.pop();
+                    }
+                }
+            }
+        }
+
+        const found: [number, number][] = [];
+        while (results.size > 0) {
+            found.push([results.topDistance(), results.topNode()]);
+            results.pop();
+        }
+        return found.reverse();
+    }
+
+    /**
+     * Neighbour selection heuristic: keep a candidate only if it is closer to
+     * the base node than to every neighbour kept so far, which spreads links
+     * across clusters instead of bunching them in one.
+     */
+    private selectNeighbors(base: number, candidates: [number, number][], max: number): number[] {
+        const selected: number[] = [];
+        for (const [dist, candidate] of candidates) {
+            if (candidate === base) continue;
+            if (selected.length >= max) break;
+            if (selected.every((kept) => this.distance(candidate, kept) > dist)) {
+                selected.push(candidate);
+            }
+        }
+        // Top up with the closest skipped candidates so sparse regions stay connected
+        for (const [, candidate] of candidates) {
+            if (selected.length >= max) break;
+            if (candidate !== base && !selected.includes(candidate)) selected.push(candidate);
+        }
+        return selected;
+    }
+
+    /**
+     * Re-select the links of `node` on `level` after some of its neighbours
+     * were removed: candidates are its live neighbours and theirs.
+     */
+    private repairLinks(node: number, level: number): void {
+        const list = this.links[node][level];
+        const candidates = new Set<number>();
+        for (let i = 1; i <= list[0]; i++) {
+            const neighbor = list[i];
+            if (this.deleted[neighbor] === 0) {
+                candidates.add(neighbor);
+                continue;
+            }
+            const removedLinks = this.links[neighbor][level];
+            for (let j = 1; j <= removedLinks[0]; j++) {
+                if (removedLinks[j] !== node && this.deleted[removedLinks[j]] === 0) candidates.add(removedLinks[j]);
+            }
+        }
+        const ranked: [number, number][] = [...candidates].map((candidate) => [this.distance(node, candidate), candidate]);
+        ranked.sort((a, b) => a[0] - b[0]);
+        this.setLinks(node, level, this.selectNeighbors(node, ranked, this.maxLinks(level)));
+    }
+
+    private setLinks(node: number, level: number, neighbors: number[]): void {
+        const list = this.links[node][level];
+        for (let i = 1; i <= list[0]; i++) this.linkedFrom[list[i]][level].delete(node);
+        list[0] = neighbors.length;
+        for (let i = 0; i < neighbors.length; i++) {
+            list[i + 1] = neighbors[i];
+            this.linkedFrom[neighbors[i]][level].add(node);
+        }
+    }
+
+    private addLink(node: number, neighbor: number, level: number): void {
+        const list = this.links[node][level];
+        const max = this.maxLinks(level);
+        if (list[0] < max) {
+            list[++list[0]] = neighbor;
+            this.linkedFrom[neighbor][level].add(node);
+            return;
+        }
+
+        // Full: re-select among the existing links plus the new one
+        const candidates: [number, number][] = [[this.distance(node, neighbor), neighbor]];
+        for (let i = 1; i <= list[0]; i++) {
+            candidates.push([this.distance(node, list[i]), list[i]]);
+        }
+        candidates.sort((a, b) => a[0] - b[0]);
+        this.setLinks(node, level, candidates.slice(0, max).map(([, c]) => c));
+    }
+}
+
+function normalize(vector: ArrayLike<number>): Float32Array {
+    const out = new Float32Array(vector.length);
+    let norm = 0;
+    for (let i = 0; i < vector.length; i++) norm += vector[i] * vector[i];
+    const scale = norm > 0 ? 1 / Math.sqrt(norm) : 0;
+    for (let i = 0; i < vector.length; i++) out[i] = vector[i] * scale;
+    return out;
+}
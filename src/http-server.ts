@@ -0,0 +1,292 @@
+import { createServer as createHttpServer, type IncomingMessage, type ServerResponse } from "http";
+import { randomUUID } from "crypto";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { getConfig } from "./config.js";
+import { createServer } from "./server.js";
+import {
+    createSessionState,
+    runWithSessionState,
+    startSession,
+    endCurrentSession,
+    getCurrentSessionIdOrNull,
+    type SessionState,
+} from "./session.js";
+import { archiveWorkingMemory, releaseWorkingMemory, setCompressionSampler } from "./memory-manager.js";
+
+// ---------------------------------------------------------------------------
+// Streamable HTTP transport
+//
+// One process serves any number of MCP clients. Every client connection
+// (an MCP session, identified by the Mcp-Session-Id header) gets its own
+// transport, MCP server instance and session state, and therefore its own
+// current session. All connections share the database and vector cache,
+// so there is a single writer for the database file.
+//
+// Requests must name this server in their Host header (and Origin, when a
+// browser sends one), so a web page cannot reach it through DNS rebinding.
+// ---------------------------------------------------------------------------
+
+export interface HttpServerOptions {
+    host: string;
+    port: number;
+    /** URL path of the MCP endpoint */
+    path: string;
+    /** Extra host names clients may use, besides the bound address */
+    allowedHosts?: string[];
+    log: (level: string, message: string, error?: unknown) => void;
+}
+
+export interface HttpServerHandle {
+    /** The port listened on (assigned by the OS when 0 was requested) */
+    port: number;
+    /** Close every client connection (archiving its session), then stop listening. */
+    close(): Promise<void>;
+    connectionCount(): number;
+}
+
+interface Connection {
+    server: Server;
+    transport: StreamableHTTPServerTransport;
+    state: SessionState;
+    closed: boolean;
+    /** Closes the connection once it has been idle for session.idleTimeoutMs */
+    idleTimer: NodeJS.Timeout | null;
+}
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+const LOOPBACK_HOSTS = ["localhost", "127.0.0.1", "::1"];
+const WILDCARD_HOSTS = ["0.0.0.0", "::"];
+
+/**
+ * Host header values the server answers to: the bound address (every
+ * loopback name when bound to loopback or all interfaces) and any extra
+ * names, each with the port.
+ */
+function allowedHostHeaders(host: string, port: number, extraHosts: string[]): string[] {
+    const bound = host.replace(/^\[(.*)\]$/, "$1");
+    const local = LOOPBACK_HOSTS.includes(bound) || WILDCARD_HOSTS.includes(bound);
+    const names = new Set([...(local ? LOOPBACK_HOSTS : [bound]), ...extraHosts]);
+
+    return [...names].flatMap((name) => {
+        const hostname = name.includes(":") ? `[${name}]` : name;
+        // Clients leave out the default port
+        return port === 80 ? [hostname, `${hostname}:80`] : [`${hostname}:${port}`];
+    });
+}
+
+function readJsonBody(req: IncomingMessage): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        req.on("data", (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > MAX_BODY_BYTES) {
+                reject(new Error("Request body too large"));
+                req.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on("end", () => {
+            try {
+                resolve(JSON.parse(Buffer.concat(chunks).toString("utf-8")));
+            } catch (error) {
+                reject(error);
+            }
+        });
+        req.on("error", reject);
+    });
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+    if (res.headersSent) return;
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null }));
+}
+
+/**
+ * Start the Streamable HTTP server. Resolves once it is listening.
+ */
+export async function startHttpServer(options: HttpServerOptions): Promise<HttpServerHandle> {
+    const { host, port, path, log } = options;
+    const connections = new Map<string, Connection>();
+    // Filled in once listening, when the port is known
+    let allowedHosts: string[] = [];
+
+    /**
+     * Create the transport, server and session state for a new client. The
+     * connection is registered, and its session started, once the transport
+     * has accepted the initialize request (Host and Origin included) and
+     * assigned its MCP session ID.
+     */
+    async function openConnection(): Promise<Connection> {
+        const state = createSessionState();
+
+        return runWithSessionState(state, async () => {
+            const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+                sessionIdGenerator: () => randomUUID(),
+                enableDnsRebindingProtection: true,
+                allowedHosts,
+                allowedOrigins: allowedHosts.map((allowed) => `http://${allowed}`),
+                onsessioninitialized: async (sessionId) => {
+                    if (getConfig().session.autoStartOnBoot) {
+                        await runWithSessionState(state, () => startSession());
+                    }
+                    connections.set(sessionId, connection);
+                    resetIdleTimer(connection);
+                    log("INFO", `HTTP client connected (${sessionId}, ${connections.size} open)`);
+                },
+            });
+            const connection: Connection = { server: createServer(), transport, state, closed: false, idleTimer: null };
+
+            transport.onclose = () => {
+                void closeConnection(connection);
+            };
+            await connection.server.connect(transport);
+            return connection;
+        });
+    }
+
+    /**
+     * (Re)start the connection's idle countdown. Called when it registers
+     * and around every request it sends.
+     */
+    function resetIdleTimer(connection: Connection): void {
+        if (connection.idleTimer) clearTimeout(connection.idleTimer);
+        connection.idleTimer = null;
+
+        const timeoutMs = getConfig().session.idleTimeoutMs;
+        if (timeoutMs <= 0 || connection.closed) return;
+        connection.idleTimer = setTimeout(() => {
+            log("INFO", `HTTP client idle for ${timeoutMs} ms, closing (${connection.transport.sessionId})`);
+            void disconnect(connection);
+        }, timeoutMs);
+        connection.idleTimer.unref();
+    }
+
+    /**
+     * Close the client's transport and server, then archive its session.
+     */
+    async function disconnect(connection: Connection): Promise<void> {
+        try {
+            await connection.server.close();
+        } catch (error) {
+            log("ERROR", "Error closing HTTP client connection", error);
+        }
+        await closeConnection(connection);
+    }
+
+    /**
+     * Archive the connection's working memory and end its session. Runs when
+     * the client deletes its MCP session, it has been idle too long, or the
+     * server shuts down.
+     */
+    async function closeConnection(connection: Connection): Promise<void> {
+        if (connection.closed) return;
+        connection.closed = true;
+        if (connection.idleTimer) clearTimeout(connection.idleTimer);
+
+        const mcpSessionId = connection.transport.sessionId;
+        if (mcpSessionId) connections.delete(mcpSessionId);
+
+        await runWithSessionState(connection.state, async () => {
+            const sessionId = getCurrentSessionIdOrNull();
+            try {
+                if (sessionId) await archiveWorkingMemory(sessionId);
+            } catch (error) {
+                log("ERROR", `Failed to archive session ${sessionId} (non-fatal)`, error);
+            }
+            endCurrentSession();
+            releaseWorkingMemory();
+            setCompressionSampler(null);
+        });
+        log("INFO", `HTTP client disconnected (${mcpSessionId ?? "uninitialized"}, ${connections.size} open)`);
+    }
+
+    async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+        const url = new URL(req.url ?? "/", "http://localhost");
+        if (url.pathname !== path) {
+            res.writeHead(404).end();
+            return;
+        }
+
+        let body: unknown;
+        if (req.method === "POST") {
+            try {
+                body = await readJsonBody(req);
+            } catch {
+                sendJsonRpcError(res, 400, -32700, "Parse error");
+                return;
+            }
+        }
+
+        const header = req.headers["mcp-session-id"];
+        const mcpSessionId = Array.isArray(header) ? header[0] : header;
+
+        if (mcpSessionId) {
+            const connection = connections.get(mcpSessionId);
+            if (!connection) {
+                sendJsonRpcError(res, 404, -32001, "Session not found");
+                return;
+            }
+            resetIdleTimer(connection);
+            await runWithSessionState(connection.state, () =>
+                connection.transport.handleRequest(req, res, body)
+            );
+            resetIdleTimer(connection);
+            return;
+        }
+
+        if (req.method === "POST" && isInitializeRequest(body)) {
+            const connection = await openConnection();
+            await runWithSessionState(connection.state, () =>
+                connection.transport.handleRequest(req, res, body)
+            );
+            // A failed initialize never registers the connection
+            if (!connection.transport.sessionId) await closeConnection(connection);
+            return;
+        }
+
+        sendJsonRpcError(res, 400, -32000, "Bad Request: no valid Mcp-Session-Id header");
+    }
+
+    const httpServer = createHttpServer((req, res) => {
+        handleRequest(req, res).catch((error) => {
+            log("ERROR", "HTTP request failed", error);
+            sendJsonRpcError(res, 500, -32603, "Internal server error");
+        });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+        httpServer.once("error", reject);
+        httpServer.listen(port, host, () => {
+            httpServer.off("error", reject);
+            resolve();
+        });
+    });
+
+    const address = httpServer.address();
+    const listeningPort = typeof address === "object" && address ? address.port : port;
+    allowedHosts = allowedHostHeaders(host, listeningPort, options.allowedHosts ?? []);
+
+    return {
+        port: listeningPort,
+
+        async close(): Promise<void> {
+            for (const connection of [...connections.values()]) {
+                await disconnect(connection);
+            }
+            await new Promise<void>((resolve) => {
+                httpServer.close(() => resolve());
+                httpServer.closeAllConnections();
+            });
+        },
+
+        connectionCount(): number {
+            return connections.size;
+        },
+    };
+}
@@ -2,9 +2,17 @@
 
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { loadConfig } from "./config.js";
-import { initDatabase, closeDatabase } from "./database.js";
+import { initDatabase, closeDatabase, getStorageWarning } from "./database.js";
+import { closeVectorStore } from "./vector-store.js";
 import { createServer } from "./server.js";
-import { startSession, endCurrentSession } from "./session.js";
+import { startHttpServer, type HttpServerHandle } from "./http-server.js";
+import {
+    startSession,
+    endCurrentSession,
+    resumeLatestSession,
+    type SessionInfo,
+} from "./session.js";
+import { recoverWorkingMemory } from "./memory-manager.js";
 import { writeFileSync, appendFileSync, mkdirSync, existsSync } from "fs";
 import { join } from "path";
 import { spawn } from "child_process";
@@ -111,6 +119,58 @@ function suppressConsole(): void {
     }, 100);
 }
 
+// ---------------------------------------------------------------------------
+// Command line
+//
+//   latentcontext-mcp                          stdio transport (default)
+//   latentcontext-mcp --http [--port 3000] [--host 127.0.0.1] [--allow-host name ...]
+// ---------------------------------------------------------------------------
+
+interface CliOptions {
+    http: boolean;
+    host: string;
+    port: number;
+    /** Extra host names HTTP clients may use to reach the server */
+    allowedHosts: string[];
+}
+
+const DEFAULT_HTTP_HOST = "127.0.0.1";
+const DEFAULT_HTTP_PORT = 3000;
+const HTTP_PATH = "/mcp";
+
+function parseArgs(argv: string[]): CliOptions {
+    const options: CliOptions = { http: false, host: DEFAULT_HTTP_HOST, port: DEFAULT_HTTP_PORT, allowedHosts: [] };
+
+    for (let i = 0; i < argv.length; i++) {
+        const [flag, inline] = argv[i].split("=", 2);
+        const value = () => inline ?? argv[++i];
+
+        switch (flag) {
+            case "--http":
+                options.http = true;
+                break;
+            case "--port": {
+                const port = Number(value());
+                if (!Number.isInteger(port) || port < 0 || port > 65535) {
+                    throw new Error(`Invalid --port: ${argv[i]}`);
+                }
+                options.port = port;
+                break;
+            }
+            case "--host":
+                options.host = value();
+                break;
+            case "--allow-host":
+                options.allowedHosts.push(value());
+                break;
+            default:
+                throw new Error(`Unknown argument: ${argv[i]}`);
+        }
+    }
+
+    return options;
+}
+
 // ---------------------------------------------------------------------------
 // Entry point
 // ---------------------------------------------------------------------------
@@ -119,6 +179,15 @@ async function main(): Promise<void> {
     // Step 1: Initialize log file FIRST (before suppressing console)
     initLogFile();
 
+    let cli: CliOptions;
+    try {
+        cli = parseArgs(process.argv.slice(2));
+    } catch (error) {
+        logToFile("FATAL", "Invalid command line", error);
+        process.stderr.write(`${(error as Error).message}\n`);
+        process.exit(2);
+    }
+
     // Step 2: Suppress all console/stdout/stderr output
     suppressConsole();
 
@@ -132,14 +201,39 @@ async function main(): Promise<void> {
     try {
         await initDatabase();
         logToFile("INFO", "Database initialized successfully");
+        const storageWarning = getStorageWarning();
+        if (storageWarning) logToFile("WARN", storageWarning);
     } catch (error) {
         logToFile("FATAL", "Failed to initialize database", error);
         // Database is critical — we cannot operate without it
         process.exit(1);
     }
 
-    // Step 5: Auto-start a fresh session on server startup
-    if (config.session.autoStartOnBoot) {
+    // Step 5: Optionally reattach to the last session that was never ended.
+    // Over HTTP every connection starts its own session, so there is no
+    // single session to reattach to — clients use session_resume instead.
+    let resumed: SessionInfo | null = null;
+    if (config.session.resumeOnBoot && !cli.http) {
+        resumed = resumeLatestSession();
+        if (resumed) {
+            logToFile("INFO", `Resumed unended session ${resumed.sessionId}`);
+        }
+    }
+
+    // Step 6: Reload persisted working memory. Entries from sessions other
+    // than the resumed one are archived into their session's Tier 1 notes.
+    // Over HTTP no connection owns the startup state, so everything is
+    // archived; clients reach it through session_resume and memory_recall.
+    try {
+        const restored = await recoverWorkingMemory(resumed ? resumed.sessionId : null, !cli.http);
+        logToFile("INFO", `Working memory recovered (${restored} entries restored into current session)`);
+    } catch (error) {
+        logToFile("ERROR", "Failed to recover working memory (non-fatal)", error);
+    }
+
+    // Step 7: Auto-start a fresh session on server startup (HTTP connections
+    // start theirs when they connect)
+    if (!resumed && config.session.autoStartOnBoot && !cli.http) {
         try {
             await startSession();
             logToFile("INFO", "Auto-started initial session");
@@ -150,13 +244,14 @@ async function main(): Promise<void> {
         }
     }
 
-    // Step 6: Create and start the MCP server
-    const server = createServer();
-    const transport = new StdioServerTransport();
+    // Step 8: Create the MCP server (stdio) — over HTTP, one server is
+    // created per client connection once the HTTP server is listening
+    const server = cli.http ? null : createServer();
+    let httpServer: HttpServerHandle | null = null;
 
-    logToFile("INFO", "MCP server created, connecting transport...");
+    logToFile("INFO", cli.http ? "Starting HTTP transport..." : "MCP server created, connecting transport...");
 
-    // Step 7: Graceful shutdown — do NOT call process.exit() here!
+    // Step 9: Graceful shutdown — do NOT call process.exit() here!
     // Calling process.exit() while the transport is active causes the
     // "connection closed: EOF" error. Instead, let the process close
     // naturally after cleanup.
@@ -167,14 +262,30 @@ async function main(): Promise<void> {
         isShuttingDown = true;
         logToFile("INFO", `Shutdown requested (${signal})`);
 
+        // HTTP connections archive and end their own sessions when closed
+        if (httpServer) {
+            try {
+                await httpServer.close();
+                logToFile("INFO", "HTTP server closed");
+            } catch (error) {
+                logToFile("ERROR", "Error closing HTTP server", error);
+            }
+        }
+
         try {
-            endCurrentSession();
-            logToFile("INFO", "Session ended");
+            // Leave the session open when it should be resumed on next boot
+            if (config.session.resumeOnBoot) {
+                logToFile("INFO", "Session left open for resume on next start");
+            } else {
+                endCurrentSession();
+                logToFile("INFO", "Session ended");
+            }
         } catch (error) {
             logToFile("ERROR", "Error ending session", error);
         }
 
         try {
+            closeVectorStore();
             closeDatabase();
             logToFile("INFO", "Database closed");
         } catch (error) {
@@ -182,7 +293,7 @@ async function main(): Promise<void> {
         }
 
         try {
-            await server.close();
+            await server?.close();
             logToFile("INFO", "MCP server closed");
         } catch (error) {
             logToFile("ERROR", "Error closing MCP server", error);
@@ -199,7 +310,7 @@ async function main(): Promise<void> {
     process.on("SIGTERM", () => shutdown("SIGTERM"));
     process.on("SIGHUP", () => shutdown("SIGHUP"));
 
-    // Step 8: Handle uncaught errors — log but do NOT crash
+    // Step 10: Handle uncaught errors — log but do NOT crash
     process.on("uncaughtException", (error: Error) => {
         logToFile("UNCAUGHT_EXCEPTION", error.message, error);
         // Do NOT call process.exit() — the MCP server should remain alive
@@ -210,16 +321,27 @@ async function main(): Promise<void> {
         // Do NOT call process.exit() — the MCP server should remain alive
     });
 
-    // Step 9: Connect to stdio transport
+    // Step 11: Connect to stdio transport, or start listening for HTTP clients
     try {
-        await server.connect(transport);
-        logToFile("INFO", "MCP transport connected — server is ready");
+        if (server) {
+            await server.connect(new StdioServerTransport());
+            logToFile("INFO", "MCP transport connected — server is ready");
+        } else {
+            httpServer = await startHttpServer({
+                host: cli.host,
+                port: cli.port,
+                path: HTTP_PATH,
+                allowedHosts: cli.allowedHosts,
+                log: logToFile,
+            });
+            logToFile("INFO", `Streamable HTTP transport listening on http://${cli.host}:${httpServer.port}${HTTP_PATH}`);
+        }
     } catch (error) {
         logToFile("FATAL", "Failed to connect MCP transport", error);
         process.exit(1);
     }
 
-    // Step 10: Hide console window on Windows (AFTER transport is connected)
+    // Step 12: Hide console window on Windows (AFTER transport is connected)
     // This runs async so it can't block or crash the startup sequence.
     // The window will be visible for ~1-2 seconds then disappear.
     if (process.platform === "win32") {
@@ -0,0 +1,44 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+// ---------------------------------------------------------------------------
+// Instance scope
+//
+// Module-level state (config, database handle, embedding pipeline, vector
+// cache, working memory, default session) lives in an instance rather than
+// in module globals. The MCP server runs in the process-wide default
+// instance. Each LatentContext owns another one and runs its calls inside
+// it, so module code keeps calling getDb(), getConfig() etc. unchanged and
+// several instances can run side by side in one process.
+// ---------------------------------------------------------------------------
+
+export interface Instance {
+    readonly state: Map<string, unknown>;
+}
+
+/**
+ * Create an empty instance. Its state is initialized lazily by the modules.
+ */
+export function createInstance(): Instance {
+    return { state: new Map() };
+}
+
+const _defaultInstance = createInstance();
+const _activeInstance = new AsyncLocalStorage<Instance>();
+
+/**
+ * Run `fn` (and everything it awaits) inside the given instance.
+ */
+export function runInInstance<T>(instance: Instance, fn: () => T): T {
+    return _activeInstance.run(instance, fn);
+}
+
+/**
+ * The calling instance's state for `key`, created with `init` on first use.
+ */
+export function instanceState<T>(key: string, init: () => T): T {
+    const { state } = _activeInstance.getStore() ?? _defaultInstance;
+    if (!state.has(key)) {
+        state.set(key, init());
+    }
+    return state.get(key) as T;
+}
@@ -14,8 +14,8 @@ import {
     getRelationCount,
     deleteEntity,
     deleteRelation,
-    getDb,
-    saveDatabase,
+    endRelation,
+    ensureWritable,
     type EntityRow,
     type RelationRow,
 } from "./database.js";
@@ -42,22 +42,50 @@ export interface GraphQueryResult {
     serialized: string;
 }
 
+export interface IngestReport {
+    stored: string[];
+    duplicates: string[];
+    conflicts: string[];
+    rejected: { index: number; reason: string }[];
+}
+
+/**
+ * Predicates that hold at most one current object per subject. Storing a new
+ * object supersedes the previous one; every other predicate is multi-valued.
+ */
+const FUNCTIONAL_PREDICATES = new Set([
+    "located_in",
+    "lives_in",
+    "works_at",
+    "employed_by",
+    "born_in",
+    "born_on",
+    "married_to",
+    "reports_to",
+    "has_role",
+]);
+
+export function isFunctionalPredicate(predicate: string): boolean {
+    return FUNCTIONAL_PREDICATES.has(predicate.toLowerCase());
+}
+
 // ---------------------------------------------------------------------------
 // Entity management
 // ---------------------------------------------------------------------------
 
 /**
  * Ensure an entity exists in the knowledge graph, creating it if needed.
- * Returns the entity ID.
+ * Entities are unique per (label, project). Returns the entity ID.
  */
 export function ensureEntity(
     label: string,
     entityType: string = "unknown",
     properties: Record<string, unknown> = {},
-    confidence: number = 1.0
+    confidence: number = 1.0,
+    project: string | null = null
 ): string {
     // Check if entity already exists by label (case-insensitive)
-    const existing = getEntityByLabel(label);
+    const existing = getEntityByLabel(label, project);
     if (existing) {
         // Update confidence if new one is higher
         if (confidence > existing.confidence) {
@@ -67,7 +95,7 @@ export function ensureEntity(
     }
 
     const id = uuidv4();
-    upsertEntity(id, label, entityType, properties, confidence);
+    upsertEntity(id, label, entityType, properties, confidence, null, project);
     return id;
 }
 
@@ -77,7 +105,8 @@ export function ensureEntity(
 
 /**
  * Store a fact as a subject-predicate-object triple in the knowledge graph.
- * Handles entity creation/lookup and conflict resolution automatically.
+ * Handles entity creation/lookup and conflict resolution automatically:
+ * a functional predicate replaces the subject's previous object.
  */
 export function storeFact(
     subjectLabel: string,
@@ -86,15 +115,150 @@ export function storeFact(
     subjectType: string = "unknown",
     objectType: string = "unknown",
     confidence: number = 1.0,
-    properties: Record<string, unknown> = {}
+    properties: Record<string, unknown> = {},
+    project: string | null = null
 ): string {
-    const subjectId = ensureEntity(subjectLabel, subjectType, {}, confidence);
-    const objectId = ensureEntity(objectLabel, objectType, {}, confidence);
+    ensureWritable();
+    const subjectId = ensureEntity(subjectLabel, subjectType, {}, confidence, project);
+    const objectId = ensureEntity(objectLabel, objectType, {}, confidence, project);
+
+    return upsertRelation(
+        uuidv4(),
+        subjectId,
+        predicate,
+        objectId,
+        properties,
+        confidence,
+        null,
+        null,
+        null,
+        isFunctionalPredicate(predicate)
+    );
+}
 
-    const relationId = uuidv4();
-    upsertRelation(relationId, subjectId, predicate, objectId, properties, confidence);
+/**
+ * Validate and store an array of triples in the format produced by the
+ * extract_facts prompt. Accepts the parsed array or its raw JSON text
+ * (a surrounding markdown code fence is tolerated).
+ *
+ * Rows already in the graph are reported as duplicates and not re-written;
+ * rows that replace the current object of a functional predicate are stored
+ * and reported as conflicts; malformed rows are rejected with a reason.
+ */
+export function ingestTriples(input: unknown, project: string | null = null): IngestReport {
+    ensureWritable();
+    const report: IngestReport = { stored: [], duplicates: [], conflicts: [], rejected: [] };
+
+    let rows = input;
+    if (typeof rows === "string") {
+        const json = rows.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+        try {
+            rows = JSON.parse(json);
+        } catch {
+            report.rejected.push({ index: -1, reason: "input is not valid JSON" });
+            return report;
+        }
+    }
+    if (!Array.isArray(rows)) {
+        report.rejected.push({ index: -1, reason: "expected a JSON array of triples" });
+        return report;
+    }
 
-    return relationId;
+    rows.forEach((row: unknown, index: number) => {
+        const triple = parseTriple(row);
+        if (typeof triple === "string") {
+            report.rejected.push({ index, reason: triple });
+            return;
+        }
+
+        const { subject, predicate, object } = triple;
+        const display = `${subject} → ${predicate} → ${object}`;
+
+        const current = currentObjects(subject, predicate, project);
+        if (current.some((label) => label.toLowerCase() === object.toLowerCase())) {
+            report.duplicates.push(display);
+            return;
+        }
+
+        if (isFunctionalPredicate(predicate) && current.length > 0) {
+            report.conflicts.push(`${subject} → ${predicate}: ${current.join(", ")} replaced by ${object}`);
+        }
+
+        storeFact(
+            subject,
+            predicate,
+            object,
+            triple.subjectType,
+            triple.objectType,
+            triple.confidence,
+            {},
+            project
+        );
+        report.stored.push(display);
+    });
+
+    return report;
+}
+
+/**
+ * Validate one extract_facts row. Returns the normalized triple, or the
+ * reason it was rejected.
+ */
+function parseTriple(row: unknown): Omit<GraphFact, "temporalStart"> | string {
+    if (typeof row !== "object" || row === null || Array.isArray(row)) {
+        return "not an object";
+    }
+    const r = row as Record<string, unknown>;
+
+    for (const field of ["subject", "predicate", "object"]) {
+        if (typeof r[field] !== "string" || (r[field] as string).trim() === "") {
+            return `missing or empty '${field}'`;
+        }
+    }
+
+    const predicate = (r.predicate as string).trim().toLowerCase().replace(/[\s-]+/g, "_");
+    if (!/^[a-z][a-z0-9_]*$/.test(predicate)) {
+        return `invalid predicate '${r.predicate}' (use snake_case, e.g. works_at)`;
+    }
+
+    for (const field of ["subject_type", "object_type"]) {
+        if (r[field] !== undefined && r[field] !== null && typeof r[field] !== "string") {
+            return `'${field}' must be a string`;
+        }
+    }
+
+    let confidence = 1.0;
+    if (r.confidence !== undefined && r.confidence !== null) {
+        if (typeof r.confidence !== "number" || !(r.confidence >= 0 && r.confidence <= 1)) {
+            return "'confidence' must be a number between 0 and 1";
+        }
+        confidence = r.confidence;
+    }
+
+    return {
+        subject: (r.subject as string).trim(),
+        subjectType: (r.subject_type as string | undefined)?.trim() || "unknown",
+        predicate,
+        object: (r.object as string).trim(),
+        objectType: (r.object_type as string | undefined)?.trim() || "unknown",
+        confidence,
+    };
+}
+
+/**
+ * Labels of the current objects of `subject → predicate`.
+ */
+function currentObjects(subjectLabel: string, predicate: string, project: string | null): string[] {
+    const subject = getEntityByLabel(subjectLabel, project);
+    if (!subject) return [];
+
+    const labels: string[] = [];
+    for (const rel of getRelationsBySubject(subject.id)) {
+        if (rel.predicate !== predicate) continue;
+        const object = getEntityById(rel.object_id);
+        if (object) labels.push(object.label);
+    }
+    return labels;
 }
 
 // ---------------------------------------------------------------------------
@@ -107,18 +271,33 @@ export function storeFact(
  */
 export function queryEntity(
     entityLabel: string,
-    depth: number = 1
+    depth: number = 1,
+    project: string | null = null
 ): GraphQueryResult | null {
-    const entity = getEntityByLabel(entityLabel);
+    const entity = getEntityByLabel(entityLabel, project);
     if (!entity) {
         // Try fuzzy search
-        const matches = searchEntities(entityLabel);
+        const matches = searchEntities(entityLabel, project);
         if (matches.length === 0) return null;
         return queryEntityById(matches[0].id, depth);
     }
     return queryEntityById(entity.id, depth);
 }
 
+/**
+ * Labels of entities whose label contains `query` (case-insensitive), most
+ * confident first.
+ */
+export function findEntityLabels(
+    query: string,
+    project: string | null = null,
+    limit: number = 100
+): string[] {
+    return searchEntities(query, project)
+        .slice(0, limit)
+        .map((e) => e.label);
+}
+
 /**
  * Query by entity ID with BFS traversal up to `depth` hops.
  */
@@ -173,15 +352,17 @@ export function queryEntityById(
 }
 
 /**
- * Query relations by predicate type.
+ * Query relations by predicate type. Pass `project` (including null) to
+ * restrict to facts whose subject belongs to that project.
  */
-export function queryByPredicate(predicate: string): GraphFact[] {
+export function queryByPredicate(predicate: string, project?: string | null): GraphFact[] {
     const relations = getRelationsByPredicate(predicate);
     const facts: GraphFact[] = [];
 
     for (const rel of relations) {
         const subject = getEntityById(rel.subject_id);
         const object = getEntityById(rel.object_id);
+        if (project !== undefined && subject?.project !== project) continue;
         if (subject && object) {
             facts.push({
                 subject: subject.label,
@@ -215,7 +396,13 @@ export function getGraphSchema(): { entityTypes: string[]; predicateTypes: strin
  * Get all facts as a flat list of triples.
  */
 export function getAllFacts(): GraphFact[] {
-    const relations = getAllRelations();
+    return relationsToFacts(getAllRelations());
+}
+
+/**
+ * Resolve relations into labelled triples, skipping any whose entities are gone.
+ */
+export function relationsToFacts(relations: RelationRow[]): GraphFact[] {
     const facts: GraphFact[] = [];
 
     for (const rel of relations) {
@@ -244,8 +431,9 @@ export function getAllFacts(): GraphFact[] {
 /**
  * Remove an entity and all its relations from the knowledge graph.
  */
-export function removeEntity(entityLabel: string): boolean {
-    const entity = getEntityByLabel(entityLabel);
+export function removeEntity(entityLabel: string, project: string | null = null): boolean {
+    ensureWritable();
+    const entity = getEntityByLabel(entityLabel, project);
     if (!entity) return false;
 
     // Delete all relations involving this entity
@@ -259,17 +447,41 @@ export function removeEntity(entityLabel: string): boolean {
     return true;
 }
 
+/**
+ * Remove a single subject-predicate-object fact, or deprecate it (lower its
+ * confidence and end it) so it drops out of queries but stays in history.
+ * Returns false if no active fact matches.
+ */
+export function removeFact(
+    subjectLabel: string,
+    predicate: string,
+    objectLabel: string,
+    mode: "delete" | "deprecate" = "delete",
+    project: string | null = null
+): boolean {
+    ensureWritable();
+    const subject = getEntityByLabel(subjectLabel, project);
+    const object = getEntityByLabel(objectLabel, project);
+    if (!subject || !object) return false;
+
+    const relation = getRelationsBySubject(subject.id).find(
+        (rel) => rel.predicate === predicate && rel.object_id === object.id
+    );
+    if (!relation) return false;
+
+    if (mode === "deprecate") {
+        return deprecateRelation(relation.id);
+    }
+    deleteRelation(relation.id);
+    return true;
+}
+
 /**
  * Update a specific relation's confidence or properties.
  */
 export function deprecateRelation(relationId: string, newConfidence: number = 0.1): boolean {
     try {
-        const db = getDb();
-        db.run(
-            "UPDATE relations SET confidence = ?, temporal_end = ? WHERE id = ?",
-            [newConfidence, new Date().toISOString(), relationId]
-        );
-        saveDatabase();
+        endRelation(relationId, newConfidence);
         return true;
     } catch {
         return false;
@@ -0,0 +1,212 @@
+import { resolveConfig, setConfig, type ConfigOverrides, type LatentContextConfig } from "./config.js";
+import { initDatabase, closeDatabase } from "./database.js";
+import { createInstance, runInInstance, type Instance } from "./instance.js";
+import {
+    createSessionState,
+    runWithSessionState,
+    startSession,
+    resumeSession,
+    endCurrentSession,
+    getSessionInfo,
+    listSessions,
+    type SessionState,
+    type SessionInfo,
+    type SessionStartResult,
+    type SessionListItem,
+} from "./session.js";
+import {
+    storeMemory,
+    compressMemory,
+    forgetMemory,
+    getMemoryStatus,
+    getCoreMemory,
+    archiveWorkingMemory,
+    clearWorkingMemory,
+    loadSessionWorkingMemory,
+    recoverWorkingMemory,
+    type MemoryType,
+    type CompressScope,
+    type ForgetAction,
+    type StoreResult,
+    type CompressResult,
+    type ForgetResult,
+    type MemoryStatus,
+} from "./memory-manager.js";
+import { assembleContext, recallMemories, type AssembledContext } from "./context-assembler.js";
+import { closeVectorStore, type VectorSearchFilter } from "./vector-store.js";
+
+export type {
+    ConfigOverrides,
+    LatentContextConfig,
+    SessionInfo,
+    SessionStartResult,
+    SessionListItem,
+    MemoryType,
+    CompressScope,
+    ForgetAction,
+    StoreResult,
+    CompressResult,
+    ForgetResult,
+    MemoryStatus,
+    AssembledContext,
+    VectorSearchFilter,
+};
+
+// ---------------------------------------------------------------------------
+// Embeddable library API
+//
+// LatentContext runs the memory engine in-process without the MCP layer.
+// Each object owns its own database, config, embedding pipeline, vector
+// cache and session, so several can run side by side in one process — as
+// long as they use different data directories, since each one holds its
+// database in memory and writes its own journal and snapshots.
+// ---------------------------------------------------------------------------
+
+export interface LatentContextOptions {
+    /** Directory for the database file; overrides `config.storage.dataDir`. */
+    dataDir?: string;
+    /** Config overrides on top of the defaults. No config file is read. */
+    config?: ConfigOverrides;
+    /** Project to scope the initial session's memories to. */
+    project?: string | null;
+    /** Start a session right away (default true). */
+    startSession?: boolean;
+}
+
+export interface StoreOptions {
+    confidence?: number;
+    entities?: string[];
+}
+
+export interface RetrieveOptions {
+    tokenBudget?: number;
+    filters?: VectorSearchFilter;
+}
+
+export class LatentContext {
+    private readonly instance: Instance = createInstance();
+    private readonly sessionState: SessionState = createSessionState();
+    private closed = false;
+
+    private constructor() { }
+
+    /**
+     * Create an instance: load (or create) its database, archive working
+     * memory left behind by an earlier process, and start a session.
+     */
+    static async open(options: LatentContextOptions = {}): Promise<LatentContext> {
+        const context = new LatentContext();
+        const overrides: ConfigOverrides = { ...options.config };
+        if (options.dataDir) {
+            overrides.storage = { ...overrides.storage, dataDir: options.dataDir };
+        }
+
+        await context.run(async () => {
+            setConfig(resolveConfig(overrides));
+            await initDatabase();
+            await recoverWorkingMemory(null);
+            if (options.startSession ?? true) {
+                await startSession(undefined, options.project ?? null);
+            }
+        });
+
+        return context;
+    }
+
+    /**
+     * Run `fn` against this instance's state. Every public method goes
+     * through here.
+     */
+    private run<T>(fn: () => T): T {
+        if (this.closed) {
+            throw new Error("LatentContext is closed.");
+        }
+        return runInInstance(this.instance, () => runWithSessionState(this.sessionState, fn));
+    }
+
+    // ── Sessions ──
+
+    /**
+     * Archive the current session's working memory and start a fresh session.
+     */
+    startSession(project: string | null = null): Promise<SessionStartResult> {
+        return this.run(async () => {
+            const result = await startSession(archiveWorkingMemory, project);
+            clearWorkingMemory();
+            return result;
+        });
+    }
+
+    /**
+     * Archive the current session and reattach to an earlier one by ID or
+     * unique ID prefix, restoring its working memory.
+     */
+    resumeSession(sessionIdOrPrefix: string): Promise<SessionStartResult> {
+        return this.run(async () => {
+            const result = await resumeSession(sessionIdOrPrefix, archiveWorkingMemory);
+            clearWorkingMemory();
+            loadSessionWorkingMemory(result.sessionId);
+            return result;
+        });
+    }
+
+    get session(): SessionInfo | null {
+        return this.run(() => getSessionInfo());
+    }
+
+    listSessions(limit: number = 10): SessionListItem[] {
+        return this.run(() => listSessions(limit));
+    }
+
+    // ── Memory operations (mirror the memory_* tools) ──
+
+    store(content: string, memoryType: MemoryType, options: StoreOptions = {}): Promise<StoreResult> {
+        return this.run(() => storeMemory(content, memoryType, options.confidence ?? 1.0, options.entities ?? []));
+    }
+
+    /**
+     * Context from the current session only (see memory_retrieve).
+     */
+    retrieve(query: string, options: RetrieveOptions = {}): Promise<AssembledContext> {
+        return this.run(() => assembleContext(query, options.tokenBudget, options.filters));
+    }
+
+    /**
+     * Context from past sessions of the current project (see memory_recall).
+     */
+    recall(query: string, options: RetrieveOptions = {}): Promise<AssembledContext> {
+        return this.run(() => recallMemories(query, options.tokenBudget, options.filters));
+    }
+
+    compress(scope: CompressScope): Promise<CompressResult> {
+        return this.run(() => compressMemory(scope));
+    }
+
+    forget(memoryId: string, action: ForgetAction, correction?: string): Promise<ForgetResult> {
+        return this.run(() => forgetMemory(memoryId, action, correction));
+    }
+
+    status(): MemoryStatus {
+        return this.run(() => getMemoryStatus());
+    }
+
+    coreMemory(): string {
+        return this.run(() => getCoreMemory());
+    }
+
+    /**
+     * Archive the working memory, end the session and write the database to
+     * disk. The instance cannot be used afterwards.
+     */
+    async close(): Promise<void> {
+        if (this.closed) return;
+        await this.run(async () => {
+            const sessionId = getSessionInfo()?.sessionId;
+            if (sessionId) await archiveWorkingMemory(sessionId);
+            endCurrentSession();
+            closeVectorStore();
+            closeDatabase();
+        });
+        this.closed = true;
+    }
+}
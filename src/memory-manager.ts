@@ -1,8 +1,9 @@
 import { v4 as uuidv4 } from "uuid";
-import { getConfig } from "./config.js";
+import { getConfig, type CompressionStrategy } from "./config.js";
 import {
     insertSummary,
     getSummariesByTier,
+    endSessionRecord,
     getSummariesByTierAndSession,
     getSummariesByTierExcludingSession,
     getSummaryById,
@@ -10,6 +11,13 @@ import {
     deleteSummary,
     getSummaryCountByTier,
     getTotalSummaryTokens,
+    getSessionById,
+    getSummaryIdsByPrefix,
+    getStorageWarning,
+    getSchemaVersion,
+    getVectorsBySourceId,
+    ensureWritable,
+    isDatabaseReadOnly,
     type SummaryRow,
 } from "./database.js";
 import {
@@ -23,11 +31,21 @@ import {
 } from "./knowledge-graph.js";
 import {
     addToVectorStore,
+    addVectorDirect,
     removeVectorsBySource,
     getVectorStoreCount,
 } from "./vector-store.js";
+import { embedForStorage, getEmbedderName, getEmbeddingError } from "./embeddings.js";
 import { countTokens, truncateToTokenBudget } from "./token-counter.js";
-import { getCurrentSessionIdOrNull } from "./session.js";
+import { instanceState } from "./instance.js";
+import { summarizeExtractive } from "./summarizer.js";
+import { compressSessionPrompt, consolidateEpochPrompt } from "./prompts.js";
+import {
+    getCurrentSessionIdOrNull,
+    getCurrentProjectOrNull,
+    getSessionState,
+    type SessionState,
+} from "./session.js";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -36,6 +54,13 @@ import { getCurrentSessionIdOrNull } from "./session.js";
 export type MemoryType = "fact" | "preference" | "event" | "summary" | "core";
 export type CompressScope = "working" | "session" | "epoch";
 export type ForgetAction = "deprecate" | "correct" | "delete";
+export type CompressionMethod = "sampling" | CompressionStrategy;
+
+/**
+ * Runs a compression prompt through the MCP client's model (sampling) and
+ * returns the generated summary, or null if nothing usable came back.
+ */
+export type CompressionSampler = (prompt: string, maxTokens: number) => Promise<string | null>;
 
 export interface StoreResult {
     memoryId: string;
@@ -47,6 +72,28 @@ export interface StoreResult {
     sessionId: string | null;
 }
 
+export interface CompressResult {
+    scope: CompressScope;
+    /** The new summary, or null when the scope had nothing to compress */
+    summaryId: string | null;
+    tier: number | null;
+    /** Entries consumed (and removed) by the compression */
+    sourceIds: string[];
+    originalTokens: number;
+    compressedTokens: number;
+    method: CompressionMethod | null;
+    message: string;
+}
+
+export interface ForgetResult {
+    memoryId: string;
+    action: ForgetAction;
+    /** Tier the memory was in, or null if no memory has this id */
+    tier: number | null;
+    applied: boolean;
+    message: string;
+}
+
 export interface MemoryStatus {
     tiers: {
         tier0: { count: number; tokenEstimate: number };
@@ -55,68 +102,193 @@ export interface MemoryStatus {
         tier3: { count: number; tokenEstimate: number };
     };
     knowledgeGraph: { entities: number; relations: number };
-    vectorStore: { count: number };
+    /** embedder is the model name, or the hashed embedder's when no model is in use */
+    vectorStore: { count: number; embedder: string; embeddingError: string | null };
     totalTokensStored: number;
     currentSessionId: string | null;
+    /** readOnly is set when another process holds the database lock */
+    storage: { schemaVersion: number; readOnly: boolean; warning: string | null };
 }
 
 // ---------------------------------------------------------------------------
-// Working memory (Tier 0) — in-memory ring buffer of recent turns
+// Working memory (Tier 0) — in-memory ring buffer of recent turns, written
+// through to the summaries table as tier-0 rows so a crash or restart of
+// the server does not lose the session
 // ---------------------------------------------------------------------------
 
-interface WorkingMemoryEntry {
+export interface WorkingMemoryMetadata {
+    type: MemoryType;
+    confidence: number;
+    entities: string[];
+}
+
+export interface WorkingMemoryEntry {
     id: string;
     content: string;
     tokens: number;
     timestamp: string;
     sessionId: string | null;
+    metadata: WorkingMemoryMetadata;
 }
 
-const _workingMemory: WorkingMemoryEntry[] = [];
+// One working memory buffer per client connection (see SessionState), so a
+// connection can only ever see or clear its own entries. Entries are also
+// tagged with the session they were stored in.
+function buffers(): Map<SessionState, WorkingMemoryEntry[]> {
+    return instanceState("working-memory", () => new Map<SessionState, WorkingMemoryEntry[]>());
+}
 
-function getWorkingMemoryTokens(): number {
-    return _workingMemory.reduce((sum, entry) => sum + entry.tokens, 0);
+/**
+ * The calling connection's working memory buffer.
+ */
+function workingMemory(): WorkingMemoryEntry[] {
+    const state = getSessionState();
+    let buffer = buffers().get(state);
+    if (!buffer) {
+        buffer = [];
+        buffers().set(state, buffer);
+    }
+    return buffer;
 }
 
-function getSessionWorkingMemoryTokens(sessionId: string | null): number {
-    if (!sessionId) return getWorkingMemoryTokens();
-    return _workingMemory
-        .filter((e) => e.sessionId === sessionId)
-        .reduce((sum, entry) => sum + entry.tokens, 0);
+/**
+ * Find a buffered entry by ID in the calling connection's buffer.
+ */
+function findWorkingMemoryEntry(id: string): WorkingMemoryEntry | undefined {
+    return workingMemory().find((e) => e.id === id);
 }
 
-function addToWorkingMemory(content: string): string {
+function addToWorkingMemory(content: string, metadata: WorkingMemoryMetadata): string {
     const id = uuidv4();
     const tokens = countTokens(content);
     const sessionId = getCurrentSessionIdOrNull();
-    _workingMemory.push({
+    const project = getCurrentProjectOrNull();
+    const row = insertSummary({
+        id,
+        tier: 0,
+        content,
+        token_count: tokens,
+        session_id: sessionId,
+        project,
+        source_ids: "[]",
+        metadata: JSON.stringify({ ...metadata, sessionId }),
+    });
+    workingMemory().push({
         id,
         content,
         tokens,
-        timestamp: new Date().toISOString(),
+        timestamp: row.created_at,
         sessionId,
+        metadata,
     });
     return id;
 }
 
+/**
+ * Remove entries from the calling connection's buffer and delete their
+ * persisted tier-0 rows.
+ */
+function removeFromWorkingMemory(ids: Set<string>): void {
+    const buffer = workingMemory();
+    const remaining = buffer.filter((e) => !ids.has(e.id));
+    buffer.length = 0;
+    buffer.push(...remaining);
+    for (const id of ids) {
+        deleteSummary(id);
+    }
+}
+
+function rowToWorkingMemoryEntry(row: SummaryRow): WorkingMemoryEntry {
+    let metadata: Record<string, unknown> = {};
+    try {
+        metadata = JSON.parse(row.metadata || "{}") as Record<string, unknown>;
+    } catch {
+        // Malformed metadata — fall back to event defaults
+    }
+    return {
+        id: row.id,
+        content: row.content,
+        tokens: row.token_count,
+        timestamp: row.created_at,
+        sessionId: row.session_id,
+        metadata: {
+            type: (typeof metadata.type === "string" ? metadata.type : "event") as MemoryType,
+            confidence: typeof metadata.confidence === "number" ? metadata.confidence : 1.0,
+            entities: Array.isArray(metadata.entities) ? (metadata.entities as string[]) : [],
+        },
+    };
+}
+
+/**
+ * Reload persisted tier-0 rows into the calling connection's buffer. Called
+ * once at startup. Entries belonging to any session other than `keepSessionId` are
+ * left over from a crash or an unclean exit: they are archived into a Tier 1
+ * summary for their own session, and that session is marked as ended.
+ * Returns the number of entries restored into the kept session.
+ *
+ * With `restore` false nothing is kept: every entry is archived, including
+ * ones stored outside any session. The HTTP transport recovers this way,
+ * since its connections never use the calling (default) buffer.
+ */
+export async function recoverWorkingMemory(keepSessionId: string | null, restore: boolean = true): Promise<number> {
+    const buffer = workingMemory();
+    buffer.length = 0;
+    // Read-only: the rows are the lock owner's live working memory
+    if (isDatabaseReadOnly()) return 0;
+
+    const rows = getSummariesByTier(0).reverse(); // oldest first
+    buffer.push(...rows.map(rowToWorkingMemoryEntry));
+
+    const orphanedSessions = new Set<string | null>();
+    for (const entry of buffer) {
+        if (!restore || (entry.sessionId && entry.sessionId !== keepSessionId)) {
+            orphanedSessions.add(entry.sessionId);
+        }
+    }
+
+    for (const sessionId of orphanedSessions) {
+        await archiveWorkingMemory(sessionId);
+        if (sessionId) endSessionRecord(sessionId);
+    }
+
+    if (!restore) {
+        releaseWorkingMemory();
+        return 0;
+    }
+    return buffer.filter((e) => e.sessionId === keepSessionId).length;
+}
+
 /**
  * Get the current session's working memory as text.
  */
 export function getWorkingMemory(): string {
     const sessionId = getCurrentSessionIdOrNull();
     const entries = sessionId
-        ? _workingMemory.filter((e) => e.sessionId === sessionId)
-        : _workingMemory;
+        ? workingMemory().filter((e) => e.sessionId === sessionId)
+        : workingMemory();
     if (entries.length === 0) return "";
     return entries.map((e) => e.content).join("\n");
 }
 
+/**
+ * Get the current session's working memory as individual entries, oldest first.
+ * Used by the context assembler to rank each entry on its own.
+ */
+export function getWorkingMemoryEntries(): WorkingMemoryEntry[] {
+    const sessionId = getCurrentSessionIdOrNull();
+    const entries = sessionId
+        ? workingMemory().filter((e) => e.sessionId === sessionId)
+        : workingMemory();
+    return entries.map((e) => ({ ...e, metadata: { ...e.metadata } }));
+}
+
 /**
  * Get ALL working memory as text (regardless of session).
  */
 export function getAllWorkingMemory(): string {
-    if (_workingMemory.length === 0) return "";
-    return _workingMemory.map((e) => e.content).join("\n");
+    const buffer = workingMemory();
+    if (buffer.length === 0) return "";
+    return buffer.map((e) => e.content).join("\n");
 }
 
 /**
@@ -124,35 +296,66 @@ export function getAllWorkingMemory(): string {
  */
 export function getWorkingMemoryCount(): number {
     const sessionId = getCurrentSessionIdOrNull();
-    if (!sessionId) return _workingMemory.length;
-    return _workingMemory.filter((e) => e.sessionId === sessionId).length;
+    const buffer = workingMemory();
+    if (!sessionId) return buffer.length;
+    return buffer.filter((e) => e.sessionId === sessionId).length;
+}
+
+/**
+ * Load a session's persisted tier-0 rows into the buffer, replacing any
+ * buffered entries for that session. Used when resuming a session.
+ * Returns the number of entries loaded.
+ */
+export function loadSessionWorkingMemory(sessionId: string): number {
+    const rows = getSummariesByTierAndSession(0, sessionId).reverse(); // oldest first
+    const buffer = workingMemory();
+    const others = buffer.filter((e) => e.sessionId !== sessionId);
+    buffer.length = 0;
+    buffer.push(...others, ...rows.map(rowToWorkingMemoryEntry));
+    return rows.length;
 }
 
 /**
- * Clear ALL working memory. Called on session start to guarantee
- * complete session isolation — no residual data from previous sessions.
+ * Clear this connection's working memory. Called on session start to
+ * guarantee complete session isolation — no residual data from previous
+ * sessions. Other connections' buffers are untouched.
+ * Persisted tier-0 rows are kept; anything not yet archived is recovered
+ * into its own session on the next startup.
  */
 export function clearWorkingMemory(): void {
-    _workingMemory.length = 0;
+    workingMemory().length = 0;
+}
+
+/**
+ * Drop this connection's buffer once the connection has closed.
+ */
+export function releaseWorkingMemory(): void {
+    buffers().delete(getSessionState());
 }
+
 /**
  * Archive all current session working memory into a Tier 1 summary.
  * Called during session transitions to preserve data before clearing.
+ * A null `sessionId` archives the entries stored outside any session.
  * Returns the archive summary text, or null if nothing to archive.
  */
-export async function archiveWorkingMemory(sessionId: string): Promise<string | null> {
+export async function archiveWorkingMemory(sessionId: string | null): Promise<string | null> {
     const config = getConfig();
 
     // Get entries for this session only
-    const sessionEntries = _workingMemory.filter((e) => e.sessionId === sessionId);
+    const sessionEntries = workingMemory().filter((e) => e.sessionId === sessionId);
     if (sessionEntries.length === 0) return null;
 
-    const combinedContent = sessionEntries.map((e) => e.content).join("\n");
     const originalTokens = sessionEntries.reduce((s, e) => s + e.tokens, 0);
-
-    const { text: compressed } = truncateToTokenBudget(
-        combinedContent,
-        config.tokenBudgets.tier1Session
+    // Archives may run for a session other than the current one (e.g. orphans
+    // recovered at startup), so take the project from the session record.
+    const project = sessionId ? getSessionById(sessionId)?.project ?? null : null;
+
+    const { text: compressed, method } = await compressPassages(
+        sessionEntries.map((e) => e.content),
+        config.tokenBudgets.tier1Session,
+        workingMemoryEntities(sessionEntries),
+        null
     );
 
     const summaryId = uuidv4();
@@ -164,9 +367,11 @@ export async function archiveWorkingMemory(sessionId: string): Promise<string |
         content: compressed,
         token_count: compressedTokens,
         session_id: sessionId,
+        project,
         source_ids: JSON.stringify(sessionEntries.map((e) => e.id)),
         metadata: JSON.stringify({
             type: "session_archive",
+            method,
             originalCount: sessionEntries.length,
             originalTokens,
             sessionId,
@@ -178,16 +383,13 @@ export async function archiveWorkingMemory(sessionId: string): Promise<string |
         await addToVectorStore(compressed, summaryId, "summary", 0.9, {
             sessionArchive: true,
             sessionId,
-        });
+        }, project);
     } catch {
         // non-fatal
     }
 
     // Remove archived entries from working memory
-    const archiveIds = new Set(sessionEntries.map((e) => e.id));
-    const remaining = _workingMemory.filter((e) => !archiveIds.has(e.id));
-    _workingMemory.length = 0;
-    _workingMemory.push(...remaining);
+    removeFromWorkingMemory(new Set(sessionEntries.map((e) => e.id)));
 
     return `Archived ${sessionEntries.length} entries (${originalTokens} tokens) → Tier 1 summary (${compressedTokens} tokens)`;
 }
@@ -196,16 +398,17 @@ export async function archiveWorkingMemory(sessionId: string): Promise<string |
  * Clear all working memory entries for the current session.
  */
 export function clearSessionWorkingMemory(sessionId: string): void {
-    const remaining = _workingMemory.filter((e) => e.sessionId !== sessionId);
-    _workingMemory.length = 0;
-    _workingMemory.push(...remaining);
+    const sessionIds = workingMemory()
+        .filter((e) => e.sessionId === sessionId)
+        .map((e) => e.id);
+    removeFromWorkingMemory(new Set(sessionIds));
 }
 
 /**
- * Clear ALL working memory regardless of session.
+ * Clear this connection's working memory regardless of session.
  */
 export function clearAllWorkingMemory(): void {
-    _workingMemory.length = 0;
+    workingMemory().length = 0;
 }
 
 // ---------------------------------------------------------------------------
@@ -214,7 +417,8 @@ export function clearAllWorkingMemory(): void {
 
 /**
  * Store information into the appropriate memory subsystem.
- * Automatically categorizes, indexes, and embeds content.
+ * Automatically categorizes, indexes, and embeds content. Throws, without
+ * storing anything, if the content cannot be embedded.
  */
 export async function storeMemory(
     content: string,
@@ -222,8 +426,17 @@ export async function storeMemory(
     confidence: number = 1.0,
     entities: string[] = []
 ): Promise<StoreResult> {
+    ensureWritable(); // Refuses while another process owns the database
     const config = getConfig();
     const sessionId = getCurrentSessionIdOrNull();
+    const project = getCurrentProjectOrNull();
+
+    // Embed before writing anything, so an embedder that keeps failing
+    // fails the store as a whole instead of leaving it unsearchable
+    const { vector, embedder } = await embedForStorage(content);
+    const addVector = (sourceId: string, sourceType: string, metadata: Record<string, unknown>): string =>
+        addVectorDirect(vector, content, sourceId, sourceType, confidence, { ...metadata, embedder }, project);
+
     const result: StoreResult = {
         memoryId: "",
         memoryType,
@@ -245,24 +458,15 @@ export async function storeMemory(
                 content,
                 token_count: tokens,
                 session_id: sessionId,
+                project,
                 source_ids: "[]",
-                metadata: JSON.stringify({ type: "core", entities, sessionId }),
+                metadata: JSON.stringify({ type: "core", entities, confidence, sessionId }),
             });
             result.memoryId = summaryId;
             result.tier = 3;
 
-            // Also embed for vector search
-            try {
-                result.vectorId = await addToVectorStore(
-                    content,
-                    summaryId,
-                    "core",
-                    confidence,
-                    { memoryType: "core", entities, sessionId }
-                );
-            } catch {
-                // Embedding failure is non-fatal
-            }
+            // Also index for vector search
+            result.vectorId = addVector(summaryId, "core", { memoryType: "core", entities, sessionId });
             break;
         }
 
@@ -272,7 +476,7 @@ export async function storeMemory(
 
             // Ensure entities exist in the graph
             for (const entityLabel of entities) {
-                ensureEntity(entityLabel, "unknown", {}, confidence);
+                ensureEntity(entityLabel, "unknown", {}, confidence, project);
                 result.entitiesCreated.push(entityLabel);
             }
 
@@ -287,7 +491,9 @@ export async function storeMemory(
                         entities[i],
                         "unknown",
                         "unknown",
-                        confidence
+                        confidence,
+                        {},
+                        project
                     );
                     result.factsStored++;
                 }
@@ -301,6 +507,7 @@ export async function storeMemory(
                 content,
                 token_count: tokens,
                 session_id: sessionId,
+                project,
                 source_ids: JSON.stringify(entities),
                 metadata: JSON.stringify({
                     type: "fact",
@@ -310,18 +517,8 @@ export async function storeMemory(
                 }),
             });
 
-            // Embed for vector search
-            try {
-                result.vectorId = await addToVectorStore(
-                    content,
-                    factId,
-                    "fact",
-                    confidence,
-                    { memoryType: "fact", entities, sessionId }
-                );
-            } catch {
-                // Embedding failure is non-fatal
-            }
+            // Index for vector search
+            result.vectorId = addVector(factId, "fact", { memoryType: "fact", entities, sessionId });
 
             result.memoryId = factId;
             result.tier = 1;
@@ -334,10 +531,10 @@ export async function storeMemory(
             const tokens = countTokens(content);
 
             // Create entity for "User" preferences
-            ensureEntity("User", "person", {}, 1.0);
+            ensureEntity("User", "person", {}, 1.0, project);
             for (const entityLabel of entities) {
-                ensureEntity(entityLabel, "unknown", {}, confidence);
-                storeFact("User", "prefers", entityLabel, "person", "unknown", confidence);
+                ensureEntity(entityLabel, "unknown", {}, confidence, project);
+                storeFact("User", "prefers", entityLabel, "person", "unknown", confidence, {}, project);
                 result.factsStored++;
             }
             result.entitiesCreated = ["User", ...entities];
@@ -348,21 +545,12 @@ export async function storeMemory(
                 content,
                 token_count: tokens,
                 session_id: sessionId,
+                project,
                 source_ids: JSON.stringify(entities),
-                metadata: JSON.stringify({ type: "preference", entities, sessionId }),
+                metadata: JSON.stringify({ type: "preference", entities, confidence, sessionId }),
             });
 
-            try {
-                result.vectorId = await addToVectorStore(
-                    content,
-                    prefId,
-                    "preference",
-                    confidence,
-                    { memoryType: "preference", entities, sessionId }
-                );
-            } catch {
-                // non-fatal
-            }
+            result.vectorId = addVector(prefId, "preference", { memoryType: "preference", entities, sessionId });
 
             result.memoryId = prefId;
             result.tier = 2;
@@ -371,30 +559,32 @@ export async function storeMemory(
 
         case "event": {
             // Events go to Tier 0 working memory + vector embed
-            const eventId = addToWorkingMemory(content);
+            const eventId = addToWorkingMemory(content, {
+                type: "event",
+                confidence,
+                entities,
+            });
 
             for (const entityLabel of entities) {
-                ensureEntity(entityLabel, "unknown", {}, confidence);
+                ensureEntity(entityLabel, "unknown", {}, confidence, project);
                 result.entitiesCreated.push(entityLabel);
             }
 
-            try {
-                result.vectorId = await addToVectorStore(
-                    content,
-                    eventId,
-                    "event",
-                    confidence,
-                    { memoryType: "event", entities, timestamp: new Date().toISOString(), sessionId }
-                );
-            } catch {
-                // non-fatal
-            }
+            result.vectorId = addVector(eventId, "event", {
+                memoryType: "event",
+                entities,
+                timestamp: new Date().toISOString(),
+                sessionId,
+            });
 
             result.memoryId = eventId;
             result.tier = 0;
 
             // Check if Tier 0 needs overflow compression
-            await checkTier0Overflow();
+            const overflowId = await checkTier0Overflow();
+            if (overflowId) {
+                notifyMemoryChange({ reason: "compress", tiers: [0, 1], memoryIds: [overflowId], sessionId });
+            }
             break;
         }
 
@@ -409,21 +599,12 @@ export async function storeMemory(
                 content,
                 token_count: tokens,
                 session_id: sessionId,
+                project,
                 source_ids: JSON.stringify(entities),
-                metadata: JSON.stringify({ type: "summary", entities, sessionId }),
+                metadata: JSON.stringify({ type: "summary", entities, confidence, sessionId }),
             });
 
-            try {
-                result.vectorId = await addToVectorStore(
-                    content,
-                    sumId,
-                    "summary",
-                    confidence,
-                    { memoryType: "summary", entities, sessionId }
-                );
-            } catch {
-                // non-fatal
-            }
+            result.vectorId = addVector(sumId, "summary", { memoryType: "summary", entities, sessionId });
 
             result.memoryId = sumId;
             result.tier = 1;
@@ -431,50 +612,231 @@ export async function storeMemory(
         }
     }
 
+    notifyMemoryChange({
+        reason: "store",
+        tiers: [result.tier],
+        memoryIds: [result.memoryId],
+        sessionId,
+        graphChanged: result.entitiesCreated.length > 0,
+    });
+
     return result;
 }
 
+// ---------------------------------------------------------------------------
+// Change notifications
+// ---------------------------------------------------------------------------
+
+/**
+ * Describes a write to the memory store, so that listeners (the MCP server's
+ * resource subscriptions) can tell which views of the data went stale.
+ */
+export interface MemoryChange {
+    reason: "store" | "compress" | "forget" | "session" | "graph";
+    /** Tiers that gained, lost or changed entries */
+    tiers: number[];
+    /** Memories that were created, changed or removed */
+    memoryIds: string[];
+    /** Session the change belongs to (the new one for a session switch) */
+    sessionId: string | null;
+    /** True when entities or facts were added to the knowledge graph */
+    graphChanged?: boolean;
+}
+
+export type MemoryChangeListener = (change: MemoryChange) => void;
+
+function changeListeners(): Set<MemoryChangeListener> {
+    return instanceState("change-listeners", () => new Set<MemoryChangeListener>());
+}
+
+/**
+ * Register a listener for memory changes. Returns a function that removes it.
+ */
+export function onMemoryChange(listener: MemoryChangeListener): () => void {
+    const listeners = changeListeners();
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+/**
+ * Tell every listener about a change. Listener errors never fail the write.
+ */
+export function notifyMemoryChange(change: MemoryChange): void {
+    for (const listener of changeListeners()) {
+        try {
+            listener(change);
+        } catch {
+            // non-fatal
+        }
+    }
+}
+
 // ---------------------------------------------------------------------------
 // Compression
 // ---------------------------------------------------------------------------
 
+// One sampler per client connection (see SessionState): compression started
+// by a connection is summarized by that connection's client, if it can.
+function samplers(): Map<SessionState, CompressionSampler> {
+    return instanceState("compression-samplers", () => new Map<SessionState, CompressionSampler>());
+}
+
+/**
+ * Install (or remove, with null) the calling connection's sampler used for
+ * LLM-backed compression. The server sets this once the client has
+ * advertised the sampling capability, and removes it when the connection
+ * closes.
+ */
+export function setCompressionSampler(sampler: CompressionSampler | null): void {
+    if (sampler) {
+        samplers().set(getSessionState(), sampler);
+    } else {
+        samplers().delete(getSessionState());
+    }
+}
+
+interface CompressedText {
+    text: string;
+    tokens: number;
+    method: CompressionMethod;
+}
+
+/**
+ * Reduce passages to a token budget.
+ *
+ * When `samplingPrompt` is given and a sampler is installed, the matching
+ * prompt is sent to the client's model first. Otherwise, or if sampling
+ * fails, the configured local strategy is used: 'extractive' keeps the most
+ * informative sentences from every passage, 'truncate' keeps the leading
+ * tokens of the joined text.
+ */
+async function compressPassages(
+    passages: string[],
+    budget: number,
+    entities: string[],
+    samplingPrompt: "compress_session" | "consolidate_epoch" | null,
+    separator: string = "\n"
+): Promise<CompressedText> {
+    const config = getConfig();
+
+    const sampler = samplers().get(getSessionState());
+    if (samplingPrompt && sampler && config.compression.sampling) {
+        const joined = passages.join(separator);
+        const prompt = samplingPrompt === "consolidate_epoch"
+            ? consolidateEpochPrompt(joined)
+            : compressSessionPrompt(joined);
+        try {
+            const sampled = await sampler(prompt, budget);
+            if (sampled && sampled.trim().length > 0) {
+                // The model may overshoot; trim to budget without losing whole points
+                const fitted = summarizeExtractive([sampled.trim()], budget, entities);
+                return { ...fitted, method: "sampling" };
+            }
+        } catch {
+            // Sampling unavailable or rejected — fall back to the local strategy
+        }
+    }
+
+    if (config.compression.strategy === "truncate") {
+        return { ...truncateToTokenBudget(passages.join(separator), budget), method: "truncate" };
+    }
+    return { ...summarizeExtractive(passages, budget, entities, separator), method: "extractive" };
+}
+
+function workingMemoryEntities(entries: WorkingMemoryEntry[]): string[] {
+    return [...new Set(entries.flatMap((e) => e.metadata.entities))];
+}
+
+function summaryEntities(rows: SummaryRow[]): string[] {
+    const entities = new Set<string>();
+    for (const row of rows) {
+        try {
+            const metadata = JSON.parse(row.metadata || "{}") as Record<string, unknown>;
+            if (Array.isArray(metadata.entities)) {
+                for (const entity of metadata.entities) {
+                    if (typeof entity === "string") entities.add(entity);
+                }
+            }
+        } catch {
+            // ignore malformed metadata
+        }
+    }
+    return [...entities];
+}
+
+/** Tier 1 summaries written by archiving and compressing a session */
+const SESSION_SUMMARY_TYPES = new Set(["session_archive", "auto_compressed", "manual_compressed", "session_consolidated"]);
+
+/**
+ * The session's own Tier 1 summaries, newest first. A null `sessionId`
+ * selects the project's summaries stored outside any session. Stored facts,
+ * preferences and explicit summaries are not included.
+ */
+function sessionSummaries(sessionId: string | null, project: string | null): SummaryRow[] {
+    const rows = sessionId
+        ? getSummariesByTierAndSession(1, sessionId)
+        : getSummariesByTier(1, project).filter((row) => row.session_id === null);
+    return rows.filter((row) => {
+        try {
+            const metadata = JSON.parse(row.metadata || "{}") as Record<string, unknown>;
+            return typeof metadata.type === "string" && SESSION_SUMMARY_TYPES.has(metadata.type);
+        } catch {
+            return false;
+        }
+    });
+}
+
+/**
+ * IDs of working memory entries an overflow compression is summarizing. The
+ * entries stay in working memory (and on disk) until their summary has been
+ * written, which may take a sampling round trip to the client; meanwhile
+ * they are not counted or picked again by another overflow check.
+ */
+function pendingCompression(): Set<string> {
+    return instanceState("pending-compression", () => new Set<string>());
+}
+
 /**
  * Check if Tier 0 working memory has overflowed its token budget.
- * If so, compress the oldest entries into a Tier 1 summary.
+ * If so, compress the oldest entries into a Tier 1 summary and return its ID.
  */
-async function checkTier0Overflow(): Promise<void> {
+async function checkTier0Overflow(): Promise<string | null> {
     const config = getConfig();
     const sessionId = getCurrentSessionIdOrNull();
-    const currentTokens = sessionId
-        ? getSessionWorkingMemoryTokens(sessionId)
-        : getWorkingMemoryTokens();
-
-    if (currentTokens <= config.compression.tier0OverflowThreshold) return;
+    const project = getCurrentProjectOrNull();
+    const pending = pendingCompression();
 
     // Get entries for the current session
-    const sessionEntries = sessionId
-        ? _workingMemory.filter((e) => e.sessionId === sessionId)
-        : _workingMemory;
+    const sessionEntries = (sessionId
+        ? workingMemory().filter((e) => e.sessionId === sessionId)
+        : workingMemory()
+    ).filter((e) => !pending.has(e.id));
+
+    const currentTokens = sessionEntries.reduce((sum, entry) => sum + entry.tokens, 0);
+    if (currentTokens <= config.compression.tier0OverflowThreshold) return null;
 
     // Compress the oldest half of working memory into a Tier 1 summary
     const halfIdx = Math.floor(sessionEntries.length / 2);
     const toCompress = sessionEntries.slice(0, halfIdx);
 
-    if (toCompress.length === 0) return;
-
-    // Remove compressed entries from the main array
-    const compressIds = new Set(toCompress.map((e) => e.id));
-    const remaining = _workingMemory.filter((e) => !compressIds.has(e.id));
-    _workingMemory.length = 0;
-    _workingMemory.push(...remaining);
+    if (toCompress.length === 0) return null;
 
-    const combinedContent = toCompress.map((e) => e.content).join("\n");
-
-    // Create a compressed Tier 1 summary
-    const { text: compressed } = truncateToTokenBudget(
-        combinedContent,
-        config.tokenBudgets.tier1Session
-    );
+    const ids = toCompress.map((e) => e.id);
+    ids.forEach((id) => pending.add(id));
+    let compressed: string;
+    let method: CompressionMethod;
+    try {
+        ({ text: compressed, method } = await compressPassages(
+            toCompress.map((e) => e.content),
+            config.tokenBudgets.tier1Session,
+            workingMemoryEntities(toCompress),
+            "compress_session"
+        ));
+    } finally {
+        ids.forEach((id) => pending.delete(id));
+    }
 
     const summaryId = uuidv4();
     const tokens = countTokens(compressed);
@@ -485,54 +847,70 @@ async function checkTier0Overflow(): Promise<void> {
         content: compressed,
         token_count: tokens,
         session_id: sessionId,
+        project,
         source_ids: JSON.stringify(toCompress.map((e) => e.id)),
         metadata: JSON.stringify({
             type: "auto_compressed",
+            method,
             originalCount: toCompress.length,
             originalTokens: toCompress.reduce((s, e) => s + e.tokens, 0),
             sessionId,
         }),
     });
 
+    // Only now that the summary is stored can the source entries go
+    removeFromWorkingMemory(new Set(ids));
+
     // Embed the compressed summary
     try {
         await addToVectorStore(compressed, summaryId, "summary", 0.9, {
             autoCompressed: true,
             sessionId,
-        });
+        }, project);
     } catch {
         // non-fatal
     }
+
+    return summaryId;
+}
+
+function nothingToCompress(scope: CompressScope, message: string): CompressResult {
+    return { scope, summaryId: null, tier: null, sourceIds: [], originalTokens: 0, compressedTokens: 0, method: null, message };
+}
+
+function compressionRatio(originalTokens: number, compressedTokens: number): string {
+    return `${(originalTokens / Math.max(compressedTokens, 1)).toFixed(1)}x`;
 }
 
 /**
  * Manually compress memory at the specified scope.
- * Returns a textual report of what was compressed.
+ * Returns the new summary, the entries it replaced and a textual report.
  */
-export async function compressMemory(scope: CompressScope): Promise<string> {
+export async function compressMemory(scope: CompressScope): Promise<CompressResult> {
+    ensureWritable();
     const config = getConfig();
     const sessionId = getCurrentSessionIdOrNull();
+    const project = getCurrentProjectOrNull();
 
     switch (scope) {
         case "working": {
             // Compress all of current session Tier 0 into a Tier 1 summary
             const sessionEntries = sessionId
-                ? _workingMemory.filter((e) => e.sessionId === sessionId)
-                : _workingMemory;
+                ? workingMemory().filter((e) => e.sessionId === sessionId)
+                : workingMemory();
 
             if (sessionEntries.length === 0) {
-                return "Working memory is empty, nothing to compress.";
+                return nothingToCompress(scope, "Working memory is empty, nothing to compress.");
             }
 
-            const content = sessionEntries
-                .map((e) => e.content)
-                .join("\n");
             const originalTokens = sessionEntries.reduce((s, e) => s + e.tokens, 0);
             const originalCount = sessionEntries.length;
 
-            const { text: compressed } = truncateToTokenBudget(
-                content,
-                config.tokenBudgets.tier1Session
+            const { text: compressed, method } = await compressPassages(
+                sessionEntries.map((e) => e.content),
+                config.tokenBudgets.tier1Session,
+                workingMemoryEntities(sessionEntries),
+                "compress_session"
             );
 
             const summaryId = uuidv4();
@@ -544,10 +922,12 @@ export async function compressMemory(scope: CompressScope): Promise<string> {
                 content: compressed,
                 token_count: compressedTokens,
                 session_id: sessionId,
+                project,
                 source_ids: JSON.stringify(sessionEntries.map((e) => e.id)),
                 metadata: JSON.stringify({
                     type: "manual_compressed",
                     scope: "working",
+                    method,
                     originalCount,
                     originalTokens,
                     sessionId,
@@ -555,35 +935,48 @@ export async function compressMemory(scope: CompressScope): Promise<string> {
             });
 
             try {
-                await addToVectorStore(compressed, summaryId, "summary", 0.9, { sessionId });
+                await addToVectorStore(compressed, summaryId, "summary", 0.9, { sessionId }, project);
             } catch {
                 // non-fatal
             }
 
             // Clear current session working memory
-            const compressIds = new Set(sessionEntries.map((e) => e.id));
-            const remaining = _workingMemory.filter((e) => !compressIds.has(e.id));
-            _workingMemory.length = 0;
-            _workingMemory.push(...remaining);
+            removeFromWorkingMemory(new Set(sessionEntries.map((e) => e.id)));
+
+            notifyMemoryChange({
+                reason: "compress",
+                tiers: [0, 1],
+                memoryIds: [summaryId, ...sessionEntries.map((e) => e.id)],
+                sessionId,
+            });
 
-            return `Compressed ${originalCount} working memory entries (${originalTokens} tokens) into Tier 1 summary (${compressedTokens} tokens). Compression ratio: ${(originalTokens / Math.max(compressedTokens, 1)).toFixed(1)}x`;
+            return {
+                scope,
+                summaryId,
+                tier: 1,
+                sourceIds: sessionEntries.map((e) => e.id),
+                originalTokens,
+                compressedTokens,
+                method,
+                message: `Compressed ${originalCount} working memory entries (${originalTokens} tokens) into Tier 1 summary (${compressedTokens} tokens). Compression ratio: ${compressionRatio(originalTokens, compressedTokens)}. Method: ${method}`,
+            };
         }
 
         case "session": {
-            // Compress multiple Tier 1 summaries into fewer entries
-            const tier1 = getSummariesByTier(1);
+            // Compress this session's Tier 1 summaries into fewer entries
+            const tier1 = sessionSummaries(sessionId, project);
             if (tier1.length < 2) {
-                return "Not enough Tier 1 summaries to consolidate.";
+                return nothingToCompress(scope, "Not enough Tier 1 summaries to consolidate.");
             }
 
-            const combinedContent = tier1
-                .map((s) => s.content)
-                .join("\n\n");
             const originalTokens = tier1.reduce((s, r) => s + r.token_count, 0);
 
-            const { text: compressed } = truncateToTokenBudget(
-                combinedContent,
-                config.tokenBudgets.tier1Session * 2
+            const { text: compressed, method } = await compressPassages(
+                tier1.map((s) => s.content),
+                config.tokenBudgets.tier1Session * 2,
+                summaryEntities(tier1),
+                "consolidate_epoch",
+                "\n\n"
             );
 
             const summaryId = uuidv4();
@@ -595,9 +988,11 @@ export async function compressMemory(scope: CompressScope): Promise<string> {
                 content: compressed,
                 token_count: compressedTokens,
                 session_id: sessionId,
+                project,
                 source_ids: JSON.stringify(tier1.map((s) => s.id)),
                 metadata: JSON.stringify({
                     type: "session_consolidated",
+                    method,
                     originalCount: tier1.length,
                     originalTokens,
                     sessionId,
@@ -611,29 +1006,48 @@ export async function compressMemory(scope: CompressScope): Promise<string> {
             }
 
             try {
-                await addToVectorStore(compressed, summaryId, "summary", 0.85, { sessionId });
+                await addToVectorStore(compressed, summaryId, "summary", 0.85, { sessionId }, project);
             } catch {
                 // non-fatal
             }
 
-            return `Consolidated ${tier1.length} Tier 1 summaries (${originalTokens} tokens) into 1 summary (${compressedTokens} tokens). Compression ratio: ${(originalTokens / Math.max(compressedTokens, 1)).toFixed(1)}x`;
+            notifyMemoryChange({
+                reason: "compress",
+                tiers: [1],
+                memoryIds: [summaryId, ...tier1.map((s) => s.id)],
+                sessionId,
+            });
+
+            return {
+                scope,
+                summaryId,
+                tier: 1,
+                sourceIds: tier1.map((s) => s.id),
+                originalTokens,
+                compressedTokens,
+                method,
+                message: `Consolidated ${tier1.length} Tier 1 summaries (${originalTokens} tokens) into 1 summary (${compressedTokens} tokens). Compression ratio: ${compressionRatio(originalTokens, compressedTokens)}. Method: ${method}`,
+            };
         }
 
         case "epoch": {
-            // Promote Tier 1 summaries into Tier 2 epoch summaries
-            const tier1 = getSummariesByTier(1);
+            // Promote this session's Tier 1 summaries into a Tier 2 epoch summary
+            const tier1 = sessionSummaries(sessionId, project);
             if (tier1.length < config.compression.tier1ConsolidationCount) {
-                return `Need at least ${config.compression.tier1ConsolidationCount} Tier 1 summaries for epoch consolidation (have ${tier1.length}).`;
+                return nothingToCompress(
+                    scope,
+                    `Need at least ${config.compression.tier1ConsolidationCount} Tier 1 summaries for epoch consolidation (have ${tier1.length}).`
+                );
             }
 
-            const combinedContent = tier1
-                .map((s) => s.content)
-                .join("\n\n");
             const originalTokens = tier1.reduce((s, r) => s + r.token_count, 0);
 
-            const { text: compressed } = truncateToTokenBudget(
-                combinedContent,
-                config.tokenBudgets.tier2Epoch
+            const { text: compressed, method } = await compressPassages(
+                tier1.map((s) => s.content),
+                config.tokenBudgets.tier2Epoch,
+                summaryEntities(tier1),
+                "consolidate_epoch",
+                "\n\n"
             );
 
             const epochId = uuidv4();
@@ -645,9 +1059,11 @@ export async function compressMemory(scope: CompressScope): Promise<string> {
                 content: compressed,
                 token_count: compressedTokens,
                 session_id: sessionId,
+                project,
                 source_ids: JSON.stringify(tier1.map((s) => s.id)),
                 metadata: JSON.stringify({
                     type: "epoch_summary",
+                    method,
                     originalCount: tier1.length,
                     originalTokens,
                     sessionId,
@@ -661,16 +1077,32 @@ export async function compressMemory(scope: CompressScope): Promise<string> {
             }
 
             try {
-                await addToVectorStore(compressed, epochId, "epoch", 0.8, { sessionId });
+                await addToVectorStore(compressed, epochId, "epoch", 0.8, { sessionId }, project);
             } catch {
                 // non-fatal
             }
 
-            return `Promoted ${tier1.length} Tier 1 summaries (${originalTokens} tokens) into Tier 2 epoch summary (${compressedTokens} tokens). Compression ratio: ${(originalTokens / Math.max(compressedTokens, 1)).toFixed(1)}x`;
+            notifyMemoryChange({
+                reason: "compress",
+                tiers: [1, 2],
+                memoryIds: [epochId, ...tier1.map((s) => s.id)],
+                sessionId,
+            });
+
+            return {
+                scope,
+                summaryId: epochId,
+                tier: 2,
+                sourceIds: tier1.map((s) => s.id),
+                originalTokens,
+                compressedTokens,
+                method,
+                message: `Promoted ${tier1.length} Tier 1 summaries (${originalTokens} tokens) into Tier 2 epoch summary (${compressedTokens} tokens). Compression ratio: ${compressionRatio(originalTokens, compressedTokens)}. Method: ${method}`,
+            };
         }
 
         default:
-            return `Unknown compression scope: ${scope}`;
+            return nothingToCompress(scope, `Unknown compression scope: ${scope}`);
     }
 }
 
@@ -680,20 +1112,62 @@ export async function compressMemory(scope: CompressScope): Promise<string> {
 
 /**
  * Mark a memory as outdated, correct it, or delete it entirely.
+ * `applied` is false when the memory does not exist or a correction is missing.
  */
 export async function forgetMemory(
     memoryId: string,
     action: ForgetAction,
     correction?: string
-): Promise<string> {
-    // Check if it's a summary
+): Promise<ForgetResult> {
+    ensureWritable();
+    const result = (tier: number | null, applied: boolean, message: string): ForgetResult =>
+        ({ memoryId, action, tier, applied, message });
+
+    // Check if it's a working memory entry (its tier-0 row is handled here too)
+    const entry = findWorkingMemoryEntry(memoryId);
+    if (entry) {
+        const changed = (): void =>
+            notifyMemoryChange({ reason: "forget", tiers: [0], memoryIds: [memoryId], sessionId: entry.sessionId });
+
+        if (action === "delete") {
+            removeFromWorkingMemory(new Set([memoryId]));
+            removeVectorsBySource(memoryId);
+            changed();
+            return result(0, true, `Deleted working memory entry ${memoryId}.`);
+        }
+        if (action === "deprecate") {
+            entry.content = `[DEPRECATED] ${entry.content}`;
+            entry.tokens = countTokens(entry.content);
+            updateSummaryContent(memoryId, entry.content, entry.tokens);
+            changed();
+            return result(0, true, `Deprecated working memory entry ${memoryId}.`);
+        }
+        if (!correction) return result(0, false, "Correction text required for 'correct' action.");
+        entry.content = correction;
+        entry.tokens = countTokens(correction);
+        updateSummaryContent(memoryId, correction, entry.tokens);
+        changed();
+        return result(0, true, `Corrected working memory entry ${memoryId}.`);
+    }
+
+    // Check if it's a summary. Tier-0 rows not in this connection's buffer
+    // are another connection's working memory and are left alone.
     const summary = getSummaryById(memoryId);
-    if (summary) {
+    if (summary && summary.tier !== 0) {
+        const changed = (): void =>
+            notifyMemoryChange({
+                reason: "forget",
+                tiers: [summary.tier],
+                memoryIds: [memoryId],
+                sessionId: summary.session_id,
+            });
+
         switch (action) {
             case "delete":
                 removeVectorsBySource(memoryId);
                 deleteSummary(memoryId);
-                return `Deleted memory ${memoryId} (was Tier ${summary.tier} summary).`;
+                changed();
+                return result(summary.tier, true, `Deleted memory ${memoryId} (was Tier ${summary.tier} summary).`);
 
             case "deprecate":
                 updateSummaryContent(
@@ -701,38 +1175,116 @@ export async function forgetMemory(
                     `[DEPRECATED] ${summary.content}`,
                     summary.token_count + 15
                 );
-                return `Deprecated memory ${memoryId}.`;
+                changed();
+                return result(summary.tier, true, `Deprecated memory ${memoryId}.`);
 
             case "correct":
-                if (!correction) return "Correction text required for 'correct' action.";
+                if (!correction) return result(summary.tier, false, "Correction text required for 'correct' action.");
+                // Embed first: if that fails, the memory keeps its old content
+                const { vector, embedder } = await embedForStorage(correction);
                 const tokens = countTokens(correction);
-                updateSummaryContent(memoryId, correction, tokens);
-                // Re-embed with new content
-                removeVectorsBySource(memoryId);
+                // The new vector keeps the memory's type (fact, preference, ...),
+                // confidence and metadata
+                const [original] = getVectorsBySourceId(memoryId);
+                let metadata: Record<string, unknown> = {};
                 try {
-                    await addToVectorStore(correction, memoryId, summary.tier === 3 ? "core" : "summary", 0.9);
+                    metadata = JSON.parse(original?.metadata || "{}") as Record<string, unknown>;
                 } catch {
-                    // non-fatal
+                    // ignore malformed metadata
                 }
-                return `Corrected memory ${memoryId} with new content.`;
+                updateSummaryContent(memoryId, correction, tokens);
+                removeVectorsBySource(memoryId);
+                addVectorDirect(
+                    vector,
+                    correction,
+                    memoryId,
+                    original?.source_type ?? (summary.tier === 3 ? "core" : "summary"),
+                    original?.confidence ?? 0.9,
+                    { ...metadata, embedder },
+                    summary.project
+                );
+                changed();
+                return result(summary.tier, true, `Corrected memory ${memoryId} with new content.`);
         }
     }
 
-    // Check if it's a working memory entry
-    const wmIdx = _workingMemory.findIndex((e) => e.id === memoryId);
-    if (wmIdx !== -1) {
-        if (action === "delete") {
-            _workingMemory.splice(wmIdx, 1);
-            return `Deleted working memory entry ${memoryId}.`;
-        }
-        if (action === "correct" && correction) {
-            _workingMemory[wmIdx].content = correction;
-            _workingMemory[wmIdx].tokens = countTokens(correction);
-            return `Corrected working memory entry ${memoryId}.`;
-        }
+    return result(null, false, `Memory ${memoryId} not found.`);
+}
+
+// ---------------------------------------------------------------------------
+// Destructive-action previews
+// ---------------------------------------------------------------------------
+
+export interface RemovalPreview {
+    tier: number;
+    count: number;
+    tokens: number;
+    preview: string;
+}
+
+const PREVIEW_CHARS = 160;
+
+function previewOf(contents: string[]): string {
+    const shown = contents.slice(0, 3).map((c) =>
+        c.length > PREVIEW_CHARS ? `${c.substring(0, PREVIEW_CHARS)}…` : c
+    );
+    const more = contents.length > shown.length ? `\n(+${contents.length - shown.length} more)` : "";
+    return shown.join("\n") + more;
+}
+
+/**
+ * Describe the memory that forgetMemory(memoryId, "delete") would remove,
+ * or null if there is no such memory.
+ */
+export function describeMemory(memoryId: string): RemovalPreview | null {
+    const entry = findWorkingMemoryEntry(memoryId);
+    if (entry) {
+        return { tier: 0, count: 1, tokens: entry.tokens, preview: previewOf([entry.content]) };
+    }
+
+    const summary = getSummaryById(memoryId);
+    if (summary && summary.tier !== 0) {
+        return {
+            tier: summary.tier,
+            count: 1,
+            tokens: summary.token_count,
+            preview: previewOf([summary.content]),
+        };
+    }
+
+    return null;
+}
+
+/**
+ * Describe the entries compressMemory(scope) would consume (and remove),
+ * or null if that scope has nothing to compress yet.
+ */
+export function describeCompression(scope: CompressScope): RemovalPreview | null {
+    const config = getConfig();
+
+    if (scope === "working") {
+        const sessionId = getCurrentSessionIdOrNull();
+        const entries = sessionId
+            ? workingMemory().filter((e) => e.sessionId === sessionId)
+            : workingMemory();
+        if (entries.length === 0) return null;
+        return {
+            tier: 0,
+            count: entries.length,
+            tokens: entries.reduce((s, e) => s + e.tokens, 0),
+            preview: previewOf(entries.map((e) => e.content)),
+        };
     }
 
-    return `Memory ${memoryId} not found.`;
+    const tier1 = sessionSummaries(getCurrentSessionIdOrNull(), getCurrentProjectOrNull());
+    const minimum = scope === "session" ? 2 : config.compression.tier1ConsolidationCount;
+    if (tier1.length < minimum) return null;
+    return {
+        tier: 1,
+        count: tier1.length,
+        tokens: tier1.reduce((s, r) => s + r.token_count, 0),
+        preview: previewOf(tier1.map((r) => r.content)),
+    };
 }
 
 // ---------------------------------------------------------------------------
@@ -752,14 +1304,15 @@ export function getMemoryStatus(): MemoryStatus {
 
     const sessionId = getCurrentSessionIdOrNull();
     const sessionEntries = sessionId
-        ? _workingMemory.filter((e) => e.sessionId === sessionId)
-        : _workingMemory;
+        ? workingMemory().filter((e) => e.sessionId === sessionId)
+        : workingMemory();
     const tier0Tokens = sessionEntries.reduce((s, e) => s + e.tokens, 0);
     const tier1Tokens = summariesByTier[1]?.reduce((s, r) => s + r.token_count, 0) || 0;
     const tier2Tokens = summariesByTier[2]?.reduce((s, r) => s + r.token_count, 0) || 0;
     const tier3Tokens = summariesByTier[3]?.reduce((s, r) => s + r.token_count, 0) || 0;
 
     const graphStats = getGraphStats();
+    const storageWarning = getStorageWarning();
 
     return {
         tiers: {
@@ -769,17 +1322,26 @@ export function getMemoryStatus(): MemoryStatus {
             tier3: { count: tierCounts[3] || 0, tokenEstimate: tier3Tokens },
         },
         knowledgeGraph: graphStats,
-        vectorStore: { count: getVectorStoreCount() },
+        vectorStore: {
+            count: getVectorStoreCount(),
+            embedder: getEmbedderName(),
+            embeddingError: getEmbeddingError(),
+        },
         totalTokensStored: tier0Tokens + tier1Tokens + tier2Tokens + tier3Tokens,
         currentSessionId: sessionId,
+        storage: {
+            schemaVersion: getSchemaVersion(),
+            readOnly: storageWarning !== null,
+            warning: storageWarning,
+        },
     };
 }
 
 /**
- * Get Tier 3 core memory content.
+ * Get Tier 3 core memory content for the current project.
  */
 export function getCoreMemory(): string {
-    const tier3 = getSummariesByTier(3);
+    const tier3 = getSummariesByTier(3, getCurrentProjectOrNull());
     if (tier3.length === 0) return "No core memories stored yet.";
     return tier3.map((s) => s.content).join("\n");
 }
@@ -790,14 +1352,64 @@ export function getCoreMemory(): string {
 export function getCurrentSessionMemory(): string {
     const sessionId = getCurrentSessionIdOrNull();
     const entries = sessionId
-        ? _workingMemory.filter((e) => e.sessionId === sessionId)
-        : _workingMemory;
+        ? workingMemory().filter((e) => e.sessionId === sessionId)
+        : workingMemory();
     if (entries.length === 0) return "No working memory entries for this session.";
     return entries
         .map((e) => `[${e.timestamp}] ${e.content}`)
         .join("\n");
 }
 
+/**
+ * Get one session's stored memory — working memory and session notes — read
+ * from the database, so past sessions can be shown as well as the current one.
+ */
+export function getSessionMemory(sessionId: string): string {
+    const sections: [string, SummaryRow[]][] = [
+        ["Working Memory", getSummariesByTierAndSession(0, sessionId)],
+        ["Session Notes", getSummariesByTierAndSession(1, sessionId)],
+    ];
+
+    const text = sections
+        .filter(([, rows]) => rows.length > 0)
+        .map(([label, rows]) => {
+            const lines = [...rows].reverse().map((r) => `[${r.created_at}] ${r.content}`); // oldest first
+            return `[${label}]\n${lines.join("\n")}`;
+        })
+        .join("\n\n");
+
+    return text || "No memories stored in this session.";
+}
+
+/**
+ * Get all memories of one tier, newest first: the current session's working
+ * memory for Tier 0, the current project's summaries for Tiers 1-3.
+ */
+export function getTierMemories(tier: number): SummaryRow[] {
+    if (tier === 0) {
+        const sessionId = getCurrentSessionIdOrNull();
+        return sessionId ? getSummariesByTierAndSession(0, sessionId) : getSummariesByTier(0);
+    }
+    return getSummariesByTier(tier, getCurrentProjectOrNull());
+}
+
+/**
+ * Look up a single stored memory of any tier by ID, within the current
+ * project.
+ */
+export function getMemoryById(memoryId: string): SummaryRow | undefined {
+    const row = getSummaryById(memoryId);
+    return row && row.project === getCurrentProjectOrNull() ? row : undefined;
+}
+
+/**
+ * IDs of the current project's stored memories starting with `prefix`,
+ * newest first.
+ */
+export function getMemoryIdsByPrefix(prefix: string, limit: number = 100): string[] {
+    return getSummaryIdsByPrefix(prefix, limit, getCurrentProjectOrNull());
+}
+
 // ---------------------------------------------------------------------------
 // Utility: Predicate inference
 // ---------------------------------------------------------------------------
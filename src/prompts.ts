@@ -0,0 +1,47 @@
+// ---------------------------------------------------------------------------
+// Prompt templates
+//
+// Shared by the MCP prompts endpoint (for clients that run them) and by
+// sampling-backed compression (where the server runs them through the
+// client's model itself).
+// ---------------------------------------------------------------------------
+
+export function extractFactsPrompt(text: string): string {
+    return `Extract all factual statements from the following text as structured triples. Output a JSON array where each element has: "subject", "predicate", "object", "subject_type", "object_type", "confidence" (0.0-1.0).
+
+Use clear, normalized predicates like: located_in, works_at, is_a, has, prefers, knows, wants_to, created, uses, born_in, member_of, etc.
+
+Text:
+${text}
+
+Output only the JSON array, no other text.`;
+}
+
+export function compressSessionPrompt(workingMemory: string): string {
+    return `Compress the following conversation working memory into a concise summary of ~200 tokens. Preserve:
+1. Key decisions made
+2. Important facts learned about the user
+3. Unresolved questions or pending items
+4. Action items or next steps
+5. Emotional context if notable
+
+Aggressively compress redundant dialogue, greetings, and filler. Keep only high-information-density content.
+
+Working Memory:
+${workingMemory}
+
+Output only the compressed summary.`;
+}
+
+export function consolidateEpochPrompt(sessionSummaries: string): string {
+    return `Merge the following session summaries into a single epoch summary of ~100 tokens. Focus on:
+1. Recurring themes and patterns
+2. Evolving user preferences
+3. Long-term goals and progress
+4. Significant milestones or decisions
+
+Session Summaries:
+${sessionSummaries}
+
+Output only the consolidated epoch summary.`;
+}
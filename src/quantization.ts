@@ -0,0 +1,307 @@
+import { vectorToBuffer, bufferToVector } from "./embeddings.js";
+
+// ---------------------------------------------------------------------------
+// Embedding quantization
+//
+// Embeddings can be stored (and cached) in three encodings:
+//
+//   none    float32 per dimension                      4·d bytes
+//   int8    float32 scale + one signed byte per dim    d + 4 bytes
+//   binary  one sign bit per dimension                 ⌈d/8⌉ bytes
+//
+// The `dimensions` column holds d, so a row's encoding follows from the
+// length of its BLOB — rows written under different settings can be mixed
+// in one table. int8 keeps cosine scores within about 0.01 of float32.
+// binary is 32× smaller but too coarse to rank by: it is used for the
+// in-memory matrix only, where candidates are picked by Hamming distance,
+// while the vectors table keeps int8 rows (see storageQuantization) that the
+// candidates are re-scored against.
+// ---------------------------------------------------------------------------
+
+export type Quantization = "none" | "int8" | "binary";
+
+const POPCOUNT = new Uint8Array(256);
+for (let i = 1; i < 256; i++) POPCOUNT[i] = POPCOUNT[i >> 1] + (i & 1);
+
+function binaryBytes(dimensions: number): number {
+    return Math.ceil(dimensions / 8);
+}
+
+/**
+ * Encoding of the rows written to the vectors table under `quantization`.
+ * Binary keeps int8 rows, so search has precise data to re-score against.
+ */
+export function storageQuantization(quantization: Quantization): Quantization {
+    return quantization === "binary" ? "int8" : quantization;
+}
+
+/**
+ * Encoding of a stored embedding, from its BLOB length and dimension count.
+ * Null if the length matches none of them.
+ */
+export function blobQuantization(blob: Uint8Array, dimensions: number): Quantization | null {
+    if (blob.byteLength === dimensions * 4) return "none";
+    if (blob.byteLength === dimensions + 4) return "int8";
+    if (blob.byteLength === binaryBytes(dimensions)) return "binary";
+    return null;
+}
+
+/**
+ * Encode an embedding for BLOB storage.
+ */
+export function encodeEmbedding(vector: ArrayLike<number>, quantization: Quantization): Uint8Array {
+    const dimensions = vector.length;
+    switch (quantization) {
+        case "none":
+            return vectorToBuffer(Array.from(vector));
+
+        case "int8": {
+            let max = 0;
+            for (let i = 0; i < dimensions; i++) max = Math.max(max, Math.abs(vector[i]));
+            const scale = max > 0 ? max / 127 : 0;
+            const blob = new Uint8Array(dimensions + 4);
+            new DataView(blob.buffer).setFloat32(0, scale, true);
+            const values = new Int8Array(blob.buffer, 4);
+            for (let i = 0; i < dimensions; i++) {
+                values[i] = scale > 0 ? Math.round(vector[i] / scale) : 0;
+            }
+            return blob;
+        }
+
+        case "binary": {
+            const blob = new Uint8Array(binaryBytes(dimensions));
+            for (let i = 0; i < dimensions; i++) {
+                if (vector[i] > 0) blob[i >> 3] |= 0x80 >> (i & 7);
+            }
+            return blob;
+        }
+    }
+}
+
+/**
+ * Decode a stored embedding back to floats. Binary rows decode to ±1 per
+ * dimension. Returns an empty vector if the encoding is unknown.
+ */
+export function decodeEmbedding(blob: Uint8Array, dimensions: number): number[] {
+    switch (blobQuantization(blob, dimensions)) {
+        case "none":
+            return bufferToVector(blob);
+
+        case "int8": {
+            const scale = new DataView(blob.buffer, blob.byteOffset, 4).getFloat32(0, true);
+            const vector = new Array<number>(dimensions);
+            for (let i = 0; i < dimensions; i++) {
+                const byte = blob[4 + i];
+                vector[i] = (byte > 127 ? byte - 256 : byte) * scale;
+            }
+            return vector;
+        }
+
+        case "binary": {
+            const vector = new Array<number>(dimensions);
+            for (let i = 0; i < dimensions; i++) {
+                vector[i] = blob[i >> 3] & (0x80 >> (i & 7)) ? 1 : -1;
+            }
+            return vector;
+        }
+
+        default:
+            return [];
+    }
+}
+
+// ---------------------------------------------------------------------------
+// Embedding matrix
+// ---------------------------------------------------------------------------
+
+/**
+ * Fixed-width rows of embeddings in one contiguous typed array, stored in
+ * the given encoding, with each row's norm precomputed. Similarities are
+ * always between a float query and the (dequantized) row.
+ */
+export class EmbeddingMatrix {
+    readonly width: number;
+    readonly quantization: Quantization;
+
+    private capacity: number;
+    /** float32 values, int8 values, or sign bits, depending on the encoding */
+    private data: Float32Array | Int8Array | Uint8Array;
+    private readonly rowLength: number;
+    private scales: Float32Array;
+    private norms: Float32Array;
+
+    constructor(width: number, quantization: Quantization, capacity: number = 64) {
+        this.width = width;
+        this.quantization = quantization;
+        this.capacity = Math.max(capacity, 1);
+        this.rowLength = quantization === "binary" ? binaryBytes(width) : width;
+        this.data = this.allocate(this.capacity * this.rowLength);
+        this.scales = new Float32Array(quantization === "int8" ? this.capacity : 0);
+        this.norms = new Float32Array(this.capacity);
+    }
+
+    /** Bytes held by the embedding data */
+    get byteLength(): number {
+        return this.data.byteLength + this.scales.byteLength + this.norms.byteLength;
+    }
+
+    /**
+     * Store `vector` in `row`, growing the matrix as needed. A vector of
+     * another length is stored as a zero row, which scores 0.
+     */
+    set(row: number, vector: ArrayLike<number>): void {
+        this.ensureCapacity(row + 1);
+        const offset = row * this.rowLength;
+        if (vector.length !== this.width) {
+            this.data.fill(0, offset, offset + this.rowLength);
+            if (this.quantization === "int8") this.scales[row] = 0;
+            this.norms[row] = 0;
+            return;
+        }
+
+        switch (this.quantization) {
+            case "none": {
+                let norm = 0;
+                for (let i = 0; i < this.width; i++) {
+                    this.data[offset + i] = vector[i];
+                    norm += vector[i] * vector[i];
+                }
+                this.norms[row] = Math.sqrt(norm);
+                break;
+            }
+
+            case "int8": {
+                const blob = encodeEmbedding(vector, "int8");
+                const scale = new DataView(blob.buffer).getFloat32(0, true);
+                const values = new Int8Array(blob.buffer, 4);
+                let norm = 0;
+                for (let i = 0; i < this.width; i++) {
+                    this.data[offset + i] = values[i];
+                    norm += values[i] * values[i];
+                }
+                this.scales[row] = scale;
+                this.norms[row] = Math.sqrt(norm) * scale;
+                break;
+            }
+
+            case "binary": {
+                (this.data as Uint8Array).set(encodeEmbedding(vector, "binary"), offset);
+                // Every dimension decodes to ±1
+                this.norms[row] = Math.sqrt(this.width);
+                break;
+            }
+        }
+    }
+
+    /**
+     * Copy row `from` over row `to`.
+     */
+    move(from: number, to: number): void {
+        this.data.copyWithin(to * this.rowLength, from * this.rowLength, (from + 1) * this.rowLength);
+        if (this.quantization === "int8") this.scales[to] = this.scales[from];
+        this.norms[to] = this.norms[from];
+    }
+
+    /**
+     * Cosine similarity between a float query and `row`. `queryNorm` is the
+     * query's Euclidean norm.
+     */
+    similarity(row: number, query: ArrayLike<number>, queryNorm: number): number {
+        const denominator = this.norms[row] * queryNorm;
+        if (denominator === 0 || query.length !== this.width) return 0;
+
+        const offset = row * this.rowLength;
+        let dot = 0;
+        switch (this.quantization) {
+            case "none":
+            case "int8": {
+                const data = this.data;
+                for (let i = 0; i < this.width; i++) dot += query[i] * data[offset + i];
+                if (this.quantization === "int8") dot *= this.scales[row];
+                break;
+            }
+
+            case "binary": {
+                const data = this.data;
+                for (let i = 0; i < this.width; i++) {
+                    dot += data[offset + (i >> 3)] & (0x80 >> (i & 7)) ? query[i] : -query[i];
+                }
+                break;
+            }
+        }
+        return dot / denominator;
+    }
+
+    /**
+     * Cosine similarity between rows `a` and `b`.
+     */
+    rowSimilarity(a: number, b: number): number {
+        const denominator = this.norms[a] * this.norms[b];
+        if (denominator === 0) return 0;
+
+        const aOffset = a * this.rowLength;
+        const bOffset = b * this.rowLength;
+        let dot = 0;
+        switch (this.quantization) {
+            case "none":
+            case "int8": {
+                const data = this.data;
+                for (let i = 0; i < this.width; i++) dot += data[aOffset + i] * data[bOffset + i];
+                if (this.quantization === "int8") dot *= this.scales[a] * this.scales[b];
+                break;
+            }
+
+            case "binary": {
+                // ±1 vectors: each differing bit turns a +1 term into −1
+                const data = this.data as Uint8Array;
+                let differing = 0;
+                for (let i = 0; i < this.rowLength; i++) differing += POPCOUNT[data[aOffset + i] ^ data[bOffset + i]];
+                dot = this.width - 2 * differing;
+                break;
+            }
+        }
+        return dot / denominator;
+    }
+
+    /**
+     * Hamming distance between `row` and a query encoded with
+     * `encodeEmbedding(query, "binary")`. Binary matrices only.
+     */
+    hammingDistance(row: number, queryBits: Uint8Array): number {
+        const data = this.data as Uint8Array;
+        const offset = row * this.rowLength;
+        let distance = 0;
+        for (let i = 0; i < this.rowLength; i++) {
+            distance += POPCOUNT[data[offset + i] ^ queryBits[i]];
+        }
+        return distance;
+    }
+
+    private allocate(length: number): Float32Array | Int8Array | Uint8Array {
+        switch (this.quantization) {
+            case "none":
+                return new Float32Array(length);
+            case "int8":
+                return new Int8Array(length);
+            case "binary":
+                return new Uint8Array(length);
+        }
+    }
+
+    private ensureCapacity(rows: number): void {
+        if (rows <= this.capacity) return;
+        while (this.capacity < rows) this.capacity *= 2;
+
+        const data = this.allocate(this.capacity * this.rowLength);
+        data.set(this.data);
+        this.data = data;
+        if (this.quantization === "int8") {
+            const scales = new Float32Array(this.capacity);
+            scales.set(this.scales);
+            this.scales = scales;
+        }
+        const norms = new Float32Array(this.capacity);
+        norms.set(this.norms);
+        this.norms = norms;
+    }
+}
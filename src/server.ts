@@ -1,12 +1,20 @@
+import { basename } from "path";
+import { fileURLToPath } from "url";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import {
     CallToolRequestSchema,
     ListToolsRequestSchema,
     ListResourcesRequestSchema,
     ReadResourceRequestSchema,
+    ListResourceTemplatesRequestSchema,
     ListPromptsRequestSchema,
     GetPromptRequestSchema,
+    CompleteRequestSchema,
+    SubscribeRequestSchema,
+    UnsubscribeRequestSchema,
+    type ReadResourceResult,
 } from "@modelcontextprotocol/sdk/types.js";
+import { UriTemplate } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
 import {
     storeMemory,
     compressMemory,
@@ -14,30 +22,344 @@ import {
     getMemoryStatus,
     getCoreMemory,
     getCurrentSessionMemory,
+    getSessionMemory,
+    getTierMemories,
+    getMemoryById,
+    getMemoryIdsByPrefix,
     archiveWorkingMemory,
     clearWorkingMemory,
-    type MemoryType,
-    type CompressScope,
-    type ForgetAction,
+    loadSessionWorkingMemory,
+    setCompressionSampler,
+    describeMemory,
+    describeCompression,
+    onMemoryChange,
+    notifyMemoryChange,
+    type RemovalPreview,
+    type MemoryChange,
 } from "./memory-manager.js";
-import { assembleContext } from "./context-assembler.js";
+import { assembleContext, recallMemories, type AssembledContext } from "./context-assembler.js";
+import type { VectorSearchFilter } from "./vector-store.js";
 import {
     queryEntity,
     queryByPredicate,
+    storeFact,
+    ingestTriples,
+    removeEntity,
+    removeFact,
+    relationsToFacts,
     serializeFacts,
     getGraphSchema,
+    findEntityLabels,
 } from "./knowledge-graph.js";
 import {
     startSession,
+    resumeSession,
+    listSessions,
     getSessionInfo,
     getCurrentSessionIdOrNull,
+    getCurrentProjectOrNull,
+    setCurrentProject,
+    findSession,
+    getSessionIdsByPrefix,
+    getSessionState,
+    runWithSessionState,
 } from "./session.js";
+import {
+    toJsonSchema,
+    parseToolArgs,
+    SessionStartInput,
+    SessionStartOutput,
+    SessionListInput,
+    SessionListOutput,
+    SessionResumeInput,
+    SessionResumeOutput,
+    MemoryStoreInput,
+    MemoryStoreOutput,
+    MemoryRetrieveInput,
+    MemoryRecallInput,
+    AssembledContextOutput,
+    MemoryCompressInput,
+    MemoryCompressOutput,
+    MemoryForgetInput,
+    MemoryForgetOutput,
+    MemoryStatusInput,
+    MemoryStatusOutput,
+    GraphQueryInput,
+    GraphQueryOutput,
+    GraphFactsByPredicateInput,
+    GraphFactsOutput,
+    GraphAddFactInput,
+    GraphAddFactOutput,
+    GraphIngestTriplesInput,
+    GraphIngestOutput,
+    GraphRemoveInput,
+    GraphRemoveOutput,
+    type RetrievalFilters,
+} from "./tool-schemas.js";
+import {
+    extractFactsPrompt,
+    compressSessionPrompt,
+    consolidateEpochPrompt,
+} from "./prompts.js";
+
+// ---------------------------------------------------------------------------
+// Shared retrieval filters (memory_retrieve, memory_recall)
+// ---------------------------------------------------------------------------
+
+/**
+ * Tool result for memory_retrieve / memory_recall: the formatted context as
+ * text, and which memories were selected (ids, tiers, budget) as structured
+ * content.
+ */
+function contextResult(result: AssembledContext) {
+    const { text, totalTokens: _totalTokens, ...structured } = result;
+    return {
+        content: [{ type: "text" as const, text }],
+        structuredContent: structured,
+    };
+}
+
+function toVectorSearchFilter(filters: RetrievalFilters | undefined): VectorSearchFilter | undefined {
+    if (!filters) return undefined;
+    return {
+        sourceTypes: filters.memory_types,
+        after: filters.after,
+        before: filters.before,
+        minConfidence: filters.min_confidence,
+    };
+}
+
+// ---------------------------------------------------------------------------
+// Project scoping via MCP roots
+// ---------------------------------------------------------------------------
+
+/**
+ * Derive a project name from the client's first workspace root: its display
+ * name if given, otherwise the last path segment of the root URI.
+ * Returns null if the client does not expose roots or the request fails.
+ */
+async function projectFromRoots(server: Server): Promise<string | null> {
+    if (!server.getClientCapabilities()?.roots) return null;
+
+    try {
+        const { roots } = await server.listRoots();
+        const root = roots[0];
+        if (!root) return null;
+        if (root.name) return root.name;
+
+        const path = root.uri.startsWith("file:") ? fileURLToPath(root.uri) : root.uri;
+        return basename(path.replace(/[\\/]+$/, "")) || root.uri;
+    } catch {
+        return null; // non-fatal: stay unscoped
+    }
+}
+
+// ---------------------------------------------------------------------------
+// Destructive-action confirmation via elicitation
+// ---------------------------------------------------------------------------
+
+/**
+ * Ask the user to confirm a destructive tool call. Clients without the
+ * elicitation capability are not asked — their own tool approval, guided by
+ * destructiveHint, applies instead. Anything but an explicit confirmation,
+ * including a failed request, counts as declined.
+ */
+async function confirmDestructive(server: Server, message: string): Promise<boolean> {
+    if (!server.getClientCapabilities()?.elicitation) return true;
+
+    try {
+        const result = await server.elicitInput({
+            message,
+            requestedSchema: {
+                type: "object",
+                properties: {
+                    confirm: {
+                        type: "boolean",
+                        title: "Proceed",
+                        description: "Permanently remove the memories shown above.",
+                        default: false,
+                    },
+                },
+                required: ["confirm"],
+            },
+        });
+        return result.action === "accept" && result.content?.confirm === true;
+    } catch {
+        return false;
+    }
+}
+
+function removalMessage(what: string, preview: RemovalPreview): string {
+    const entries = preview.count === 1 ? "1 entry" : `${preview.count} entries`;
+    return `${what} will permanently remove ${entries} from Tier ${preview.tier} (~${preview.tokens} tokens):\n\n${preview.preview}`;
+}
+
+/**
+ * Result for a destructive call the user declined. Carries the tool's
+ * structured result for "nothing changed", as its output schema requires.
+ */
+function cancelled(structuredContent: Record<string, unknown>) {
+    return {
+        content: [{ type: "text" as const, text: "Cancelled — nothing was removed." }],
+        structuredContent,
+    };
+}
+
+// ---------------------------------------------------------------------------
+// Resource templates (RFC 6570)
+// ---------------------------------------------------------------------------
+
+const MEMORY_TEMPLATE = new UriTemplate("memory://memory/{id}");
+const SESSION_TEMPLATE = new UriTemplate("memory://session/{sessionId}");
+const ENTITY_TEMPLATE = new UriTemplate("memory://entity/{label}");
+const TIER_TEMPLATE = new UriTemplate("memory://tier/{n}");
+
+const COMPLETION_LIMIT = 100;
+
+function templateVariable(template: UriTemplate, uri: string, name: string): string | null {
+    const value = template.match(uri)?.[name];
+    if (typeof value !== "string" || value === "") return null;
+    return decodeURIComponent(value);
+}
+
+function textResource(uri: string, text: string, mimeType: string = "text/plain"): ReadResourceResult {
+    return { contents: [{ uri, text, mimeType }] };
+}
+
+/**
+ * Read a resource addressed through one of the templates. Returns null if
+ * the URI matches none of them; throws if it matches but the target is missing.
+ */
+function readTemplatedResource(uri: string): ReadResourceResult | null {
+    const memoryId = templateVariable(MEMORY_TEMPLATE, uri, "id");
+    if (memoryId) {
+        const memory = getMemoryById(memoryId);
+        if (!memory) throw new Error(`No memory with ID '${memoryId}'.`);
+        const session = memory.session_id ? ` | session ${memory.session_id}` : "";
+        const header = `Tier ${memory.tier} | ${memory.token_count} tokens | created ${memory.created_at}${session}`;
+        return textResource(uri, `${header}\n\n${memory.content}`);
+    }
+
+    const sessionId = templateVariable(SESSION_TEMPLATE, uri, "sessionId");
+    if (sessionId) {
+        const session = findSession(sessionId, getCurrentProjectOrNull());
+        const project = session.project ? ` [${session.project}]` : "";
+        const ended = session.ended_at ? `ended ${session.ended_at}` : "never ended";
+        const header = `Session ${session.id}${project} — started ${session.started_at}, ${ended}`;
+        return textResource(uri, `${header}\n\n${getSessionMemory(session.id)}`);
+    }
+
+    const label = templateVariable(ENTITY_TEMPLATE, uri, "label");
+    if (label) {
+        const result = queryEntity(label, 1, getCurrentProjectOrNull());
+        if (!result) throw new Error(`No entity matching '${label}' in the knowledge graph.`);
+        return textResource(uri, result.serialized);
+    }
+
+    const n = templateVariable(TIER_TEMPLATE, uri, "n");
+    if (n) {
+        if (!/^[0-3]$/.test(n)) throw new Error(`Unknown tier '${n}' (expected 0-3).`);
+        const memories = getTierMemories(Number(n)).map((m) => ({
+            id: m.id,
+            createdAt: m.created_at,
+            sessionId: m.session_id,
+            tokens: m.token_count,
+            content: m.content,
+        }));
+        return textResource(uri, JSON.stringify(memories, null, 2), "application/json");
+    }
+
+    return null;
+}
+
+/**
+ * Completion candidates for a resource template argument.
+ */
+function completeTemplateArgument(templateUri: string, name: string, value: string): string[] {
+    const limit = COMPLETION_LIMIT + 1; // one extra to detect hasMore
+
+    switch (`${templateUri}#${name}`) {
+        case `${MEMORY_TEMPLATE}#id`:
+            return getMemoryIdsByPrefix(value, limit);
+        case `${SESSION_TEMPLATE}#sessionId`:
+            return getSessionIdsByPrefix(value, limit);
+        case `${ENTITY_TEMPLATE}#label`:
+            return findEntityLabels(value, getCurrentProjectOrNull(), limit);
+        case `${TIER_TEMPLATE}#n`:
+            return ["0", "1", "2", "3"].filter((tier) => tier.startsWith(value));
+        default:
+            return [];
+    }
+}
+
+// ---------------------------------------------------------------------------
+// Resource subscriptions
+// ---------------------------------------------------------------------------
+
+const STATIC_RESOURCE_URIS = new Set([
+    "memory://core",
+    "memory://session/current",
+    "memory://graph/schema",
+    "memory://stats",
+]);
+
+function isKnownResource(uri: string): boolean {
+    return STATIC_RESOURCE_URIS.has(uri)
+        || [MEMORY_TEMPLATE, SESSION_TEMPLATE, ENTITY_TEMPLATE, TIER_TEMPLATE].some((t) => t.match(uri) !== null);
+}
+
+/**
+ * A session switch can change the current project, which re-scopes the
+ * tiers, core memory and the knowledge graph along with the working memory.
+ */
+function notifySessionSwitch(sessionId: string): void {
+    notifyMemoryChange({ reason: "session", tiers: [0, 1, 2, 3], memoryIds: [], sessionId, graphChanged: true });
+}
+
+function notifyGraphChange(): void {
+    notifyMemoryChange({ reason: "graph", tiers: [], memoryIds: [], sessionId: null, graphChanged: true });
+}
+
+/**
+ * Whether a change to the memory store makes the resource at `uri` stale.
+ */
+function isResourceAffected(uri: string, change: MemoryChange): boolean {
+    switch (uri) {
+        case "memory://stats":
+            return true;
+        case "memory://session/current":
+            return change.reason === "session" || change.sessionId === getCurrentSessionIdOrNull();
+        case "memory://core":
+            return change.tiers.includes(3);
+        case "memory://graph/schema":
+            return change.graphChanged === true;
+    }
+
+    const memoryId = templateVariable(MEMORY_TEMPLATE, uri, "id");
+    if (memoryId) return change.memoryIds.includes(memoryId);
+
+    const sessionId = templateVariable(SESSION_TEMPLATE, uri, "sessionId");
+    if (sessionId) return change.sessionId !== null && change.sessionId.startsWith(sessionId);
+
+    if (templateVariable(ENTITY_TEMPLATE, uri, "label")) return change.graphChanged === true;
+
+    const n = templateVariable(TIER_TEMPLATE, uri, "n");
+    if (n) return change.tiers.includes(Number(n));
+
+    return false;
+}
 
 // ---------------------------------------------------------------------------
 // Create the MCP Server
 // ---------------------------------------------------------------------------
 
+/**
+ * Create the MCP server for one client connection. The connection's session
+ * state is the one active when this is called (see runWithSessionState); the
+ * transport must deliver the connection's requests inside that same state.
+ */
 export function createServer(): Server {
+    const sessionState = getSessionState();
     const server = new Server(
         {
             name: "latentcontext-mcp",
@@ -46,12 +368,67 @@ export function createServer(): Server {
         {
             capabilities: {
                 tools: {},
-                resources: {},
+                resources: { subscribe: true, listChanged: true },
                 prompts: {},
+                completions: {},
             },
         }
     );
 
+    // ── Sampling-backed compression ──
+    // Once the client has initialized, route compression prompts through its
+    // model if it advertises the sampling capability. Otherwise compression
+    // stays on the local strategy.
+    // The auto-started session also picks up its project from the client's
+    // roots here, unless it already has one (e.g. a resumed session).
+    server.oninitialized = () => {
+        if (getCurrentSessionIdOrNull() && getCurrentProjectOrNull() === null) {
+            void projectFromRoots(server).then((project) => {
+                const sessionId = getCurrentSessionIdOrNull();
+                if (!project || !sessionId) return;
+                setCurrentProject(project);
+                notifySessionSwitch(sessionId);
+            });
+        }
+
+        if (!server.getClientCapabilities()?.sampling) {
+            setCompressionSampler(null);
+            return;
+        }
+        setCompressionSampler(async (prompt, maxTokens) => {
+            const result = await server.createMessage({
+                messages: [{ role: "user", content: { type: "text", text: prompt } }],
+                systemPrompt: "You condense memory notes for an AI assistant. Reply with the summary only.",
+                includeContext: "none",
+                maxTokens,
+            });
+            return result.content.type === "text" ? result.content.text : null;
+        });
+    };
+
+    // ── Resource change notifications ──
+    // URIs this client subscribed to; every write to the memory store sends
+    // notifications/resources/updated for the ones it affects. A session
+    // switch also re-scopes the fixed resources, so it announces listChanged.
+    const subscriptions = new Set<string>();
+
+    const stopListening = onMemoryChange((change) => {
+        for (const uri of subscriptions) {
+            // Evaluate against this connection's session, not the writer's
+            if (runWithSessionState(sessionState, () => isResourceAffected(uri, change))) {
+                server.sendResourceUpdated({ uri }).catch(() => {
+                    // non-fatal: the client may already be gone
+                });
+            }
+        }
+        if (change.reason === "session") {
+            server.sendResourceListChanged().catch(() => {
+                // non-fatal
+            });
+        }
+    });
+    server.onclose = stopListening;
+
     // ═══════════════════════════════════════════════════════════════════════════
     // TOOLS
     // ═══════════════════════════════════════════════════════════════════════════
@@ -78,10 +455,49 @@ WHAT IT DOES:
 - Creates a completely fresh, empty memory for the new conversation.
 - Returns the new session ID.
 
+PROJECT SCOPING:
+- Pass 'project' to tag the session with a workspace/project name. If omitted, it is taken from the client's workspace roots when available.
+- Core memories, preferences, consolidation and memory_recall only see memories from the same project.
+
 WARNING: Always call this first to ensure session isolation.`,
-                inputSchema: {
-                    type: "object" as const,
-                    properties: {},
+                inputSchema: toJsonSchema(SessionStartInput),
+                outputSchema: toJsonSchema(SessionStartOutput),
+                annotations: {
+                    readOnlyHint: false,
+                    destructiveHint: false,
+                    idempotentHint: false,
+                },
+            },
+            {
+                name: "session_list",
+                description:
+                    `List recent memory sessions of the current project, newest first, with start/end times, number of stored entries, and a short title taken from each session's first note.
+
+WHEN TO USE:
+- The user refers to an earlier conversation ("continue yesterday's refactor", "pick up where we left off").
+- Before session_resume, to find the session ID to reattach to.`,
+                inputSchema: toJsonSchema(SessionListInput),
+                outputSchema: toJsonSchema(SessionListOutput),
+                annotations: {
+                    readOnlyHint: true,
+                    destructiveHint: false,
+                    idempotentHint: true,
+                },
+            },
+            {
+                name: "session_resume",
+                description:
+                    `Reattach to an earlier session so its working memory and session notes are retrievable again with memory_retrieve.
+
+The currently active session is archived and ended first (like session_start). Use instead of session_start when the user wants to CONTINUE a previous conversation, not start a new one.
+
+Get the session ID from session_list. A unique prefix of the ID is enough. A session that another connected client has active cannot be resumed until that client ends it or disconnects.`,
+                inputSchema: toJsonSchema(SessionResumeInput),
+                outputSchema: toJsonSchema(SessionResumeOutput),
+                annotations: {
+                    readOnlyHint: false,
+                    destructiveHint: false,
+                    idempotentHint: false,
                 },
             },
             {
@@ -119,31 +535,12 @@ MEMORY TYPES (choose carefully):
 - 'summary': Compressed notes about a session or topic. Should be a dense briefing paragraph, not bullet points.
 
 ENTITIES: Always provide relevant entity names in the 'entities' array for 'fact' type. The first entity is treated as the subject. Example: entities: ["User", "dark mode"] for "User prefers dark mode".`,
-                inputSchema: {
-                    type: "object" as const,
-                    properties: {
-                        content: {
-                            type: "string",
-                            description: "DETAILED, self-contained paragraph (3-5+ sentences). Must include full context so a future AI can understand without re-deriving. Include specifics: names, paths, colors, versions, decisions, reasoning. NEVER write single sentences — that defeats the purpose of memory.",
-                        },
-                        memory_type: {
-                            type: "string",
-                            enum: ["fact", "preference", "event", "summary", "core"],
-                            description:
-                                "Category: 'core' for critical permanent info, 'fact' for knowledge, 'preference' for user likes/dislikes, 'event' for what just happened, 'summary' for compressed notes.",
-                        },
-                        confidence: {
-                            type: "number",
-                            description: "Confidence 0.0-1.0. Lower confidence = evicted first. Default 1.0. Use lower values for uncertain or temporary information.",
-                        },
-                        entities: {
-                            type: "array",
-                            items: { type: "string" },
-                            description:
-                                "Key entities this memory relates to. REQUIRED for 'fact' type — first entity is the subject. Example: ['User', 'JavaScript'] for 'User knows JavaScript'.",
-                        },
-                    },
-                    required: ["content", "memory_type"],
+                inputSchema: toJsonSchema(MemoryStoreInput),
+                outputSchema: toJsonSchema(MemoryStoreOutput),
+                annotations: {
+                    readOnlyHint: false,
+                    destructiveHint: false,
+                    idempotentHint: false,
                 },
             },
             {
@@ -168,49 +565,44 @@ SESSION ISOLATION:
 - Each session starts with ZERO entries — completely fresh.
 - Only returns data stored via memory_store during THIS session.
 - No data from past sessions, global knowledge graph, or vector store is included.
+- To search past sessions on purpose, use memory_recall.
 
 SECTIONS IN OUTPUT:
 - [Current Session]: What has been stored so far in this conversation.
 - [Current Session Notes]: Compressed notes from this session (if working memory was compressed).
 
 TIP: Use a higher token_budget (5000-8000) for comprehensive context. Use lower (1000-2000) for focused lookups.`,
-                inputSchema: {
-                    type: "object" as const,
-                    properties: {
-                        query: {
-                            type: "string",
-                            description: "What to search for. Be descriptive — include project names, tech stack, topic areas. Example: 'user website fate.rf.gd design preferences audio visualizer' rather than just 'website'.",
-                        },
-                        token_budget: {
-                            type: "integer",
-                            description: "Max tokens to return. Default 3000. Use 5000-8000 for broad conversation-start context. Use 1000-2000 for focused lookups.",
-                        },
-                        filters: {
-                            type: "object",
-                            properties: {
-                                memory_types: {
-                                    type: "array",
-                                    items: { type: "string" },
-                                    description: "Filter by source types (e.g., ['fact', 'preference']).",
-                                },
-                                after: {
-                                    type: "string",
-                                    description: "ISO datetime — only include memories after this time.",
-                                },
-                                before: {
-                                    type: "string",
-                                    description: "ISO datetime — only include memories before this time.",
-                                },
-                                min_confidence: {
-                                    type: "number",
-                                    description: "Minimum confidence score to include (0.0-1.0).",
-                                },
-                            },
-                        },
-                    },
-                    required: ["query"],
+                inputSchema: toJsonSchema(MemoryRetrieveInput),
+                outputSchema: toJsonSchema(AssembledContextOutput),
+                annotations: {
+                    readOnlyHint: true,
+                    destructiveHint: false,
+                    idempotentHint: true,
                 },
+            },
+            {
+                name: "memory_recall",
+                description:
+                    `Search memories from OTHER sessions: past session notes, long-term epoch summaries, core memories, and the vector store — limited to the current session's project. Every result is labelled with its origin session and date.
+
+This is the ONLY way to reach data outside the current session. memory_retrieve never does this.
+
+WHEN TO USE (only when explicitly needed):
+- The user asks about earlier conversations: "what did we decide about X last week?", "how did we fix this before?".
+- You need a decision or fact that was clearly established in a previous session.
 
+WHEN NOT TO USE:
+- For context from THIS conversation — use memory_retrieve.
+- Speculatively at session start. Past-session data may belong to unrelated projects.
+
+Treat recalled items as historical: check that they still apply before acting on them.`,
+                inputSchema: toJsonSchema(MemoryRecallInput),
+                outputSchema: toJsonSchema(AssembledContextOutput),
+                annotations: {
+                    readOnlyHint: true,
+                    destructiveHint: false,
+                    idempotentHint: true,
+                },
             },
             {
                 name: "memory_compress",
@@ -224,18 +616,15 @@ WHEN TO USE:
 
 EFFECTS:
 - All compression is lossy — details are condensed but key information is preserved.
+- If the client supports sampling, the summary is written by the client's model; otherwise a local extractive summarizer is used.
 - Compressed data is re-embedded for semantic search.
 - Original entries are removed after compression.`,
-                inputSchema: {
-                    type: "object" as const,
-                    properties: {
-                        scope: {
-                            type: "string",
-                            enum: ["working", "session", "epoch"],
-                            description: "Compression scope: 'working' (current session), 'session' (merge sessions), 'epoch' (long-term consolidation).",
-                        },
-                    },
-                    required: ["scope"],
+                inputSchema: toJsonSchema(MemoryCompressInput),
+                outputSchema: toJsonSchema(MemoryCompressOutput),
+                annotations: {
+                    readOnlyHint: false,
+                    destructiveHint: true,
+                    idempotentHint: false,
                 },
             },
             {
@@ -254,24 +643,12 @@ ACTIONS:
 - 'delete': Permanently removes the memory. Use for clearly wrong or duplicate entries.
 
 You need the memory_id which is returned when you store a memory, or visible in memory_status output.`,
-                inputSchema: {
-                    type: "object" as const,
-                    properties: {
-                        memory_id: {
-                            type: "string",
-                            description: "ID of the memory to modify (UUID format, returned by memory_store).",
-                        },
-                        action: {
-                            type: "string",
-                            enum: ["deprecate", "correct", "delete"],
-                            description: "Action to take: 'deprecate' (lower priority), 'correct' (replace content), 'delete' (remove permanently).",
-                        },
-                        correction: {
-                            type: "string",
-                            description: "New content to replace the memory with. Required when action is 'correct'.",
-                        },
-                    },
-                    required: ["memory_id", "action"],
+                inputSchema: toJsonSchema(MemoryForgetInput),
+                outputSchema: toJsonSchema(MemoryForgetOutput),
+                annotations: {
+                    readOnlyHint: false,
+                    destructiveHint: true,
+                    idempotentHint: false,
                 },
             },
             {
@@ -286,9 +663,102 @@ WHEN TO USE:
 - To monitor token budgets and plan compression.
 
 SHOWS: Tier counts, token estimates, knowledge graph size, vector store count, and current session ID.`,
-                inputSchema: {
-                    type: "object" as const,
-                    properties: {},
+                inputSchema: toJsonSchema(MemoryStatusInput),
+                outputSchema: toJsonSchema(MemoryStatusOutput),
+                annotations: {
+                    readOnlyHint: true,
+                    destructiveHint: false,
+                    idempotentHint: true,
+                },
+            },
+            {
+                name: "graph_query",
+                description:
+                    `Look up an entity in the knowledge graph and list the facts connected to it.
+
+WHEN TO USE:
+- To answer structured questions ("where does the user work?", "what does project X use?").
+- Before graph_add_fact, to check what is already recorded about an entity.
+
+Matches the label case-insensitively, falling back to a partial match. Only entities of the current project are searched.
+
+OUTPUT: One line per fact — '→ predicate → object' for outgoing facts, '← subject → predicate' for incoming ones.`,
+                inputSchema: toJsonSchema(GraphQueryInput),
+                outputSchema: toJsonSchema(GraphQueryOutput),
+                annotations: {
+                    readOnlyHint: true,
+                    destructiveHint: false,
+                    idempotentHint: true,
+                },
+            },
+            {
+                name: "graph_facts_by_predicate",
+                description:
+                    `List every current fact with a given predicate, e.g. all 'uses' or 'prefers' relations in the current project.`,
+                inputSchema: toJsonSchema(GraphFactsByPredicateInput),
+                outputSchema: toJsonSchema(GraphFactsOutput),
+                annotations: {
+                    readOnlyHint: true,
+                    destructiveHint: false,
+                    idempotentHint: true,
+                },
+            },
+            {
+                name: "graph_add_fact",
+                description:
+                    `Record a structured fact as a subject-predicate-object triple in the knowledge graph.
+
+WHEN TO USE:
+- When you learn a clear, durable relation ("the API uses PostgreSQL", "the user works at Acme").
+- Prefer this over memory_store's 'fact' type when you know the exact predicate.
+
+BEHAVIOR:
+- Missing entities are created with the given types.
+- Single-valued predicates (located_in, lives_in, works_at, employed_by, born_in, born_on, married_to, reports_to, has_role) keep one current object: adding 'User → located_in → Berlin' ends an earlier 'User → located_in → Paris'. Other predicates accumulate objects.
+- Use normalized snake_case predicates: located_in, works_at, is_a, has, prefers, uses, created, member_of, etc.`,
+                inputSchema: toJsonSchema(GraphAddFactInput),
+                outputSchema: toJsonSchema(GraphAddFactOutput),
+                annotations: {
+                    readOnlyHint: false,
+                    destructiveHint: false,
+                    idempotentHint: true,
+                },
+            },
+            {
+                name: "graph_ingest_triples",
+                description:
+                    `Store a batch of facts extracted with the extract_facts prompt.
+
+WHEN TO USE:
+- After running extract_facts on a passage, pass its JSON array here unchanged.
+
+BEHAVIOR:
+- Each row needs 'subject', 'predicate' and 'object'; 'subject_type', 'object_type' and 'confidence' (0.0-1.0) are optional.
+- Facts already in the graph are skipped and reported as duplicates.
+- Rows that replace the current object of a single-valued predicate (e.g. located_in) are stored and reported as conflicts.
+- Malformed rows are rejected with a reason; the rest of the batch is still stored.`,
+                inputSchema: toJsonSchema(GraphIngestTriplesInput),
+                outputSchema: toJsonSchema(GraphIngestOutput),
+                annotations: {
+                    readOnlyHint: false,
+                    destructiveHint: false,
+                    idempotentHint: true,
+                },
+            },
+            {
+                name: "graph_remove",
+                description:
+                    `Remove an entity or a single fact from the knowledge graph.
+
+USAGE:
+- Pass 'entity' alone to delete that entity together with all of its facts.
+- Pass 'subject', 'predicate' and 'object' to remove one fact. With action 'deprecate' the fact is ended and kept as history instead of deleted.`,
+                inputSchema: toJsonSchema(GraphRemoveInput),
+                outputSchema: toJsonSchema(GraphRemoveOutput),
+                annotations: {
+                    readOnlyHint: false,
+                    destructiveHint: true,
+                    idempotentHint: true,
                 },
             },
         ],
@@ -301,17 +771,22 @@ SHOWS: Tier counts, token estimates, knowledge graph size, vector store count, a
         try {
             switch (name) {
                 case "session_start": {
+                    const input = parseToolArgs(SessionStartInput, args);
+                    const project = input.project ?? await projectFromRoots(server);
                     const result = await startSession(async (oldSessionId) => {
                         return archiveWorkingMemory(oldSessionId);
-                    });
+                    }, project);
 
-                    // Clear ALL working memory to guarantee complete session isolation.
-                    // No data from previous sessions should leak into the new one.
+                    // Clear this connection's working memory to guarantee complete session
+                    // isolation. No data from previous sessions should leak into the new one;
+                    // other connections keep their buffers.
                     clearWorkingMemory();
+                    notifySessionSwitch(result.sessionId);
 
                     const lines = [
                         `New session started: ${result.sessionId}`,
                         `Started at: ${result.startedAt}`,
+                        `Project: ${result.project ?? "(none)"}`,
                         `Session is COMPLETELY FRESH — zero entries from past sessions.`,
                     ];
 
@@ -320,22 +795,87 @@ SHOWS: Tier counts, token estimates, knowledge graph size, vector store count, a
                     lines.push("Throughout this conversation, call memory_store to save DETAILED notes (3-5+ sentences each) about tasks, decisions, and discoveries.");
                     lines.push("Call memory_retrieve at any time to recall what was stored earlier in THIS session.");
 
-                    return { content: [{ type: "text" as const, text: lines.join("\n") }] };
+                    return {
+                        content: [{ type: "text" as const, text: lines.join("\n") }],
+                        structuredContent: {
+                            sessionId: result.sessionId,
+                            startedAt: result.startedAt,
+                            project: result.project,
+                            previousSessionId: result.previousSessionId,
+                            previousSessionArchived: result.previousSessionArchived,
+                        },
+                    };
                 }
 
-                case "memory_store": {
-                    const content = args?.content as string;
-                    const memoryType = (args?.memory_type || "event") as MemoryType;
-                    const confidence = (args?.confidence as number) ?? 1.0;
-                    const entities = (args?.entities as string[]) || [];
+                case "session_list": {
+                    const { limit } = parseToolArgs(SessionListInput, args);
+                    const sessions = listSessions(limit);
 
-                    if (!content) {
+                    if (sessions.length === 0) {
                         return {
-                            content: [{ type: "text" as const, text: "Error: 'content' is required." }],
-                            isError: true,
+                            content: [{ type: "text" as const, text: "No sessions recorded yet." }],
+                            structuredContent: { sessions },
                         };
                     }
 
+                    const lines = sessions.map((s) => {
+                        const marker = s.isCurrent ? " (current)" : "";
+                        const ended = s.endedAt ? `ended ${s.endedAt}` : "never ended";
+                        const project = s.project ? `[${s.project}] ` : "";
+                        return `${s.sessionId}${marker}\n  ${project}"${s.title}" — ${s.entryCount} entries, started ${s.startedAt}, ${ended}`;
+                    });
+
+                    return {
+                        content: [{ type: "text" as const, text: lines.join("\n") }],
+                        structuredContent: { sessions },
+                    };
+                }
+
+                case "session_resume": {
+                    const { session_id: sessionId } = parseToolArgs(SessionResumeInput, args);
+
+                    const result = await resumeSession(sessionId, async (oldSessionId) => {
+                        return archiveWorkingMemory(oldSessionId);
+                    });
+
+                    // Same isolation as session_start: drop other sessions' buffered
+                    // entries, then bring back the resumed session's own Tier 0
+                    clearWorkingMemory();
+                    const restored = loadSessionWorkingMemory(result.sessionId);
+                    notifySessionSwitch(result.sessionId);
+
+                    const lines = [
+                        `Resumed session: ${result.sessionId}`,
+                        `Originally started at: ${result.startedAt}`,
+                        `Project: ${result.project ?? "(none)"}`,
+                        `Working memory entries restored: ${restored}`,
+                        result.previousSessionId && result.previousSessionId !== result.sessionId
+                            ? `Previous session ${result.previousSessionId.substring(0, 20)} ended${result.previousSessionArchived ? " and archived" : ""}.`
+                            : null,
+                        "",
+                        "Call memory_retrieve now to load this session's stored context.",
+                    ].filter((line) => line !== null);
+
+                    return {
+                        content: [{ type: "text" as const, text: lines.join("\n") }],
+                        structuredContent: {
+                            sessionId: result.sessionId,
+                            startedAt: result.startedAt,
+                            project: result.project,
+                            restoredEntries: restored,
+                            previousSessionId: result.previousSessionId,
+                        },
+                    };
+                }
+
+                case "memory_store": {
+                    const {
+                        content,
+                        memory_type: memoryType,
+                        confidence,
+                        entities,
+                    } = parseToolArgs(MemoryStoreInput, args);
+
                     // ── Content quality enforcement ──
                     // Reject entries that are too terse to be useful in future retrieval.
                     // A single sentence like "Fixed audio issue" wastes storage and forces
@@ -374,71 +914,77 @@ SHOWS: Tier counts, token estimates, knowledge graph size, vector store count, a
                         .filter(Boolean)
                         .join("\n");
 
-                    return { content: [{ type: "text" as const, text: response }] };
+                    return {
+                        content: [{ type: "text" as const, text: response }],
+                        structuredContent: { ...result },
+                    };
                 }
 
                 case "memory_retrieve": {
-                    const query = args?.query as string;
-                    const tokenBudget = args?.token_budget as number | undefined;
-                    const filters = args?.filters as
-                        | {
-                            memory_types?: string[];
-                            after?: string;
-                            before?: string;
-                            min_confidence?: number;
-                        }
-                        | undefined;
-
-                    if (!query) {
-                        return {
-                            content: [{ type: "text" as const, text: "Error: 'query' is required." }],
-                            isError: true,
-                        };
-                    }
-
-                    const vectorFilters = filters
-                        ? {
-                            sourceTypes: filters.memory_types,
-                            after: filters.after,
-                            before: filters.before,
-                            minConfidence: filters.min_confidence,
-                        }
-                        : undefined;
-
-                    const result = await assembleContext(query, tokenBudget, vectorFilters);
-
-                    return { content: [{ type: "text" as const, text: result.text }] };
+                    const { query, token_budget: tokenBudget, filters } = parseToolArgs(MemoryRetrieveInput, args);
+                    const result = await assembleContext(query, tokenBudget, toVectorSearchFilter(filters));
+                    return contextResult(result);
                 }
 
+                case "memory_recall": {
+                    const { query, token_budget: tokenBudget, filters } = parseToolArgs(MemoryRecallInput, args);
+                    const result = await recallMemories(query, tokenBudget, toVectorSearchFilter(filters));
+                    return contextResult(result);
+                }
 
                 case "memory_compress": {
-                    const scope = (args?.scope || "working") as CompressScope;
-                    const result = await compressMemory(scope);
-                    return { content: [{ type: "text" as const, text: result }] };
+                    const { scope } = parseToolArgs(MemoryCompressInput, args);
+
+                    const preview = describeCompression(scope);
+                    if (preview && !(await confirmDestructive(server, removalMessage(`Compressing '${scope}' into a summary`, preview)))) {
+                        return cancelled({
+                            scope,
+                            summaryId: null,
+                            tier: null,
+                            sourceIds: [],
+                            originalTokens: 0,
+                            compressedTokens: 0,
+                            method: null,
+                        });
+                    }
+
+                    const { message, ...result } = await compressMemory(scope);
+                    return {
+                        content: [{ type: "text" as const, text: message }],
+                        structuredContent: result,
+                    };
                 }
 
                 case "memory_forget": {
-                    const memoryId = args?.memory_id as string;
-                    const action = (args?.action || "deprecate") as ForgetAction;
-                    const correction = args?.correction as string | undefined;
-
-                    if (!memoryId) {
-                        return {
-                            content: [{ type: "text" as const, text: "Error: 'memory_id' is required." }],
-                            isError: true,
-                        };
+                    const {
+                        memory_id: memoryId,
+                        action,
+                        correction,
+                    } = parseToolArgs(MemoryForgetInput, args);
+
+                    if (action === "delete") {
+                        const preview = describeMemory(memoryId);
+                        if (preview && !(await confirmDestructive(server, removalMessage(`Deleting memory ${memoryId}`, preview)))) {
+                            return cancelled({ memoryId, action, tier: preview.tier, applied: false });
+                        }
                     }
 
-                    const result = await forgetMemory(memoryId, action, correction);
-                    return { content: [{ type: "text" as const, text: result }] };
+                    const { message, ...result } = await forgetMemory(memoryId, action, correction);
+                    return {
+                        content: [{ type: "text" as const, text: message }],
+                        structuredContent: result,
+                    };
                 }
 
                 case "memory_status": {
+                    parseToolArgs(MemoryStatusInput, args);
                     const status = getMemoryStatus();
                     const sessionInfo = getSessionInfo();
                     const lines = [
+                        ...(status.storage.warning ? [`WARNING: ${status.storage.warning}`, ""] : []),
                         "=== Memory Status ===",
                         `Session: ${sessionInfo ? `${sessionInfo.sessionId.substring(0, 8)}... (started ${sessionInfo.startedAt})` : "No active session — call session_start first!"}`,
+                        `Project: ${sessionInfo?.project ?? "(none)"}`,
                         "",
                         `Tier 0 (Working):  ${status.tiers.tier0.count} entries, ~${status.tiers.tier0.tokenEstimate} tokens`,
                         `Tier 1 (Session):  ${status.tiers.tier1.count} entries, ~${status.tiers.tier1.tokenEstimate} tokens`,
@@ -446,9 +992,155 @@ SHOWS: Tier counts, token estimates, knowledge graph size, vector store count, a
                         `Tier 3 (Core):     ${status.tiers.tier3.count} entries, ~${status.tiers.tier3.tokenEstimate} tokens`,
                         `Knowledge Graph:   ${status.knowledgeGraph.entities} entities, ${status.knowledgeGraph.relations} relations`,
                         `Vector Store:      ${status.vectorStore.count} vectors`,
+                        `Embedder:          ${status.vectorStore.embedder}${status.vectorStore.embeddingError ? ` (model failed to load: ${status.vectorStore.embeddingError})` : ""}`,
                         `Total Tokens:      ~${status.totalTokensStored}`,
+                        `Schema Version:    ${status.storage.schemaVersion}${status.storage.readOnly ? " (read-only)" : ""}`,
                     ];
-                    return { content: [{ type: "text" as const, text: lines.join("\n") }] };
+                    return {
+                        content: [{ type: "text" as const, text: lines.join("\n") }],
+                        structuredContent: { ...status, project: sessionInfo?.project ?? null },
+                    };
+                }
+
+                case "graph_query": {
+                    const { entity, depth } = parseToolArgs(GraphQueryInput, args);
+                    const result = queryEntity(entity, depth, getCurrentProjectOrNull());
+                    const text = result ? result.serialized : `No entity matching '${entity}' in the knowledge graph.`;
+                    return {
+                        content: [{ type: "text" as const, text }],
+                        structuredContent: {
+                            entity: result
+                                ? {
+                                    id: result.entity.id,
+                                    label: result.entity.label,
+                                    type: result.entity.entity_type,
+                                    project: result.entity.project,
+                                }
+                                : null,
+                            // Deeper relations can be listed as both outgoing and incoming
+                            facts: result
+                                ? relationsToFacts([...new Map([...result.outgoing, ...result.incoming].map((r) => [r.id, r])).values()])
+                                : [],
+                            neighbors: result ? result.neighbors.map((n) => n.label) : [],
+                        },
+                    };
+                }
+
+                case "graph_facts_by_predicate": {
+                    const { predicate } = parseToolArgs(GraphFactsByPredicateInput, args);
+                    const facts = queryByPredicate(predicate, getCurrentProjectOrNull());
+                    return {
+                        content: [{ type: "text" as const, text: serializeFacts(facts) }],
+                        structuredContent: { facts },
+                    };
+                }
+
+                case "graph_add_fact": {
+                    const {
+                        subject,
+                        predicate,
+                        object,
+                        subject_type: subjectType,
+                        object_type: objectType,
+                        confidence,
+                    } = parseToolArgs(GraphAddFactInput, args);
+
+                    const project = getCurrentProjectOrNull();
+                    const relationId = storeFact(subject, predicate, object, subjectType, objectType, confidence, {}, project);
+                    notifyGraphChange();
+
+                    const result = queryEntity(subject, 1, project);
+                    const lines = [
+                        `Stored fact: ${subject} → ${predicate} → ${object}`,
+                        "",
+                        result ? result.serialized : "",
+                    ];
+                    return {
+                        content: [{ type: "text" as const, text: lines.join("\n").trimEnd() }],
+                        structuredContent: {
+                            relationId,
+                            subject,
+                            predicate,
+                            object,
+                            factCount: result ? result.outgoing.length + result.incoming.length : 1,
+                        },
+                    };
+                }
+
+                case "graph_ingest_triples": {
+                    const { triples } = parseToolArgs(GraphIngestTriplesInput, args);
+                    const report = ingestTriples(triples, getCurrentProjectOrNull());
+                    if (report.stored.length > 0) notifyGraphChange();
+                    const total = report.stored.length + report.duplicates.length + report.rejected.length;
+                    const lines = [`Stored ${report.stored.length} of ${total} triples.`];
+
+                    const section = (title: string, items: string[]) => {
+                        if (items.length === 0) return;
+                        lines.push("", `${title} (${items.length}):`, ...items.map((item) => `  ${item}`));
+                    };
+                    section("Stored", report.stored);
+                    section("Conflicts — previous value replaced", report.conflicts);
+                    section("Duplicates — already known, skipped", report.duplicates);
+                    section(
+                        "Rejected",
+                        report.rejected.map((r) => (r.index >= 0 ? `#${r.index}: ${r.reason}` : r.reason))
+                    );
+
+                    return {
+                        content: [{ type: "text" as const, text: lines.join("\n") }],
+                        structuredContent: { ...report },
+                        isError: report.stored.length === 0 && report.rejected.length > 0,
+                    };
+                }
+
+                case "graph_remove": {
+                    const { entity, subject, predicate, object, action } = parseToolArgs(GraphRemoveInput, args);
+                    const project = getCurrentProjectOrNull();
+
+                    if (entity) {
+                        const existing = queryEntity(entity, 1, project);
+                        let facts = 0;
+                        if (existing && existing.entity.label.toLowerCase() === entity.toLowerCase()) {
+                            facts = existing.outgoing.length + existing.incoming.length;
+                            const message = `Removing entity '${existing.entity.label}' will permanently delete it and its ${facts} fact(s):\n\n${existing.serialized}`;
+                            if (!(await confirmDestructive(server, message))) {
+                                return cancelled({ removed: false, entity, fact: null, action, factsRemoved: 0 });
+                            }
+                        }
+
+                        const removed = removeEntity(entity, project);
+                        if (removed) notifyGraphChange();
+                        const text = removed
+                            ? `Removed entity '${entity}' and all of its facts.`
+                            : `No entity '${entity}' in the knowledge graph.`;
+                        return {
+                            content: [{ type: "text" as const, text }],
+                            structuredContent: { removed, entity, fact: null, action, factsRemoved: removed ? facts : 0 },
+                        };
+                    }
+
+                    // The schema requires subject, predicate and object when 'entity' is absent
+                    const fact = { subject: subject!, predicate: predicate!, object: object! };
+                    const removed = removeFact(fact.subject, fact.predicate, fact.object, action, project);
+                    const structuredContent = { removed, entity: null, fact, action, factsRemoved: removed ? 1 : 0 };
+                    if (!removed) {
+                        return {
+                            content: [{ type: "text" as const, text: `No current fact ${subject} → ${predicate} → ${object}.` }],
+                            structuredContent,
+                        };
+                    }
+                    notifyGraphChange();
+
+                    const result = queryEntity(subject!, 1, project);
+                    const lines = [
+                        `${action === "deprecate" ? "Deprecated" : "Removed"} fact: ${subject} → ${predicate} → ${object}`,
+                        "",
+                        result ? result.serialized : "",
+                    ];
+                    return {
+                        content: [{ type: "text" as const, text: lines.join("\n").trimEnd() }],
+                        structuredContent,
+                    };
                 }
 
                 default:
@@ -544,11 +1236,70 @@ SHOWS: Tier counts, token estimates, knowledge graph size, vector store count, a
                 };
             }
 
-            default:
+            default: {
+                const templated = readTemplatedResource(uri);
+                if (templated) return templated;
                 throw new Error(`Unknown resource: ${uri}`);
+            }
         }
     });
 
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+        const { uri } = request.params;
+        if (!isKnownResource(uri)) throw new Error(`Unknown resource: ${uri}`);
+        subscriptions.add(uri);
+        return {};
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+        subscriptions.delete(request.params.uri);
+        return {};
+    });
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+        resourceTemplates: [
+            {
+                uriTemplate: MEMORY_TEMPLATE.toString(),
+                name: "Memory",
+                description: "A single stored memory of any tier in the current project, by ID (as returned by memory_store).",
+                mimeType: "text/plain",
+            },
+            {
+                uriTemplate: SESSION_TEMPLATE.toString(),
+                name: "Session Memory",
+                description: "Working memory and session notes of a session of the current project, by ID or unique ID prefix.",
+                mimeType: "text/plain",
+            },
+            {
+                uriTemplate: ENTITY_TEMPLATE.toString(),
+                name: "Knowledge Graph Entity",
+                description: "An entity of the current project's knowledge graph and the facts connected to it.",
+                mimeType: "text/plain",
+            },
+            {
+                uriTemplate: TIER_TEMPLATE.toString(),
+                name: "Memory Tier",
+                description: "All memories of one tier (0-3): the current session's working memory for Tier 0, the current project's summaries otherwise.",
+                mimeType: "application/json",
+            },
+        ],
+    }));
+
+    // ── Argument completion for resource templates ──
+    server.setRequestHandler(CompleteRequestSchema, async (request) => {
+        const { ref, argument } = request.params;
+        const values = ref.type === "ref/resource"
+            ? completeTemplateArgument(ref.uri, argument.name, argument.value)
+            : [];
+
+        return {
+            completion: {
+                values: values.slice(0, COMPLETION_LIMIT),
+                hasMore: values.length > COMPLETION_LIMIT,
+            },
+        };
+    });
+
     // ═══════════════════════════════════════════════════════════════════════════
     // PROMPTS
     // ═══════════════════════════════════════════════════════════════════════════
@@ -607,14 +1358,7 @@ SHOWS: Tier counts, token estimates, knowledge graph size, vector store count, a
                             role: "user" as const,
                             content: {
                                 type: "text" as const,
-                                text: `Extract all factual statements from the following text as structured triples. Output a JSON array where each element has: "subject", "predicate", "object", "subject_type", "object_type", "confidence" (0.0-1.0).
-
-Use clear, normalized predicates like: located_in, works_at, is_a, has, prefers, knows, wants_to, created, uses, born_in, member_of, etc.
-
-Text:
-${text}
-
-Output only the JSON array, no other text.`,
+                                text: extractFactsPrompt(text),
                             },
                         },
                     ],
@@ -630,19 +1374,7 @@ Output only the JSON array, no other text.`,
                             role: "user" as const,
                             content: {
                                 type: "text" as const,
-                                text: `Compress the following conversation working memory into a concise summary of ~200 tokens. Preserve:
-1. Key decisions made
-2. Important facts learned about the user
-3. Unresolved questions or pending items
-4. Action items or next steps
-5. Emotional context if notable
-
-Aggressively compress redundant dialogue, greetings, and filler. Keep only high-information-density content.
-
-Working Memory:
-${workingMemory}
-
-Output only the compressed summary.`,
+                                text: compressSessionPrompt(workingMemory),
                             },
                         },
                     ],
@@ -658,16 +1390,7 @@ Output only the compressed summary.`,
                             role: "user" as const,
                             content: {
                                 type: "text" as const,
-                                text: `Merge the following session summaries into a single epoch summary of ~100 tokens. Focus on:
-1. Recurring themes and patterns
-2. Evolving user preferences
-3. Long-term goals and progress
-4. Significant milestones or decisions
-
-Session Summaries:
-${summaries}
-
-Output only the consolidated epoch summary.`,
+                                text: consolidateEpochPrompt(summaries),
                             },
                         },
                     ],
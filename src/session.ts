@@ -1,11 +1,21 @@
+import { AsyncLocalStorage } from "async_hooks";
 import { v4 as uuidv4 } from "uuid";
 import { getConfig } from "./config.js";
+import { instanceState } from "./instance.js";
 import {
     insertSession,
     endSessionRecord,
+    reopenSessionRecord,
+    updateSessionProject,
     getRecentSessions as dbGetRecentSessions,
+    getActiveSession,
+    getSessionById,
+    getSessionsByIdPrefix,
+    getSummaryCountBySession,
+    getSummariesBySession,
     type SessionRow,
 } from "./database.js";
+import { setCachedVectorProject } from "./vector-store.js";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -15,22 +25,89 @@ export interface SessionInfo {
     sessionId: string;
     startedAt: string;
     isActive: boolean;
+    project: string | null;
 }
 
 export interface SessionStartResult {
     sessionId: string;
     startedAt: string;
+    project: string | null;
     previousSessionArchived: boolean;
     previousSessionId: string | null;
     archiveSummary: string | null;
 }
 
+export interface SessionListItem {
+    sessionId: string;
+    startedAt: string;
+    endedAt: string | null;
+    project: string | null;
+    entryCount: number;
+    title: string;
+    isCurrent: boolean;
+}
+
+export type ArchiveCallback = (oldSessionId: string) => Promise<string | null>;
+
+/**
+ * The current session of one client connection. Stdio serves a single client
+ * and uses the instance's default state; the HTTP transport creates one
+ * state per connection and handles that connection's requests inside it.
+ */
+export interface SessionState {
+    sessionId: string | null;
+    startedAt: string | null;
+    project: string | null;
+}
+
 // ---------------------------------------------------------------------------
 // Session state
 // ---------------------------------------------------------------------------
 
-let _currentSessionId: string | null = null;
-let _sessionStartedAt: string | null = null;
+const _connectionState = new AsyncLocalStorage<SessionState>();
+
+function currentState(): SessionState {
+    return _connectionState.getStore() ?? instanceState("session", createSessionState);
+}
+
+/**
+ * The state each session is active in. A session is active on at most one
+ * connection at a time, so two clients never share a working memory buffer.
+ */
+function activeSessions(): Map<string, SessionState> {
+    return instanceState("active-sessions", () => new Map<string, SessionState>());
+}
+
+/**
+ * Drop `state`'s claim on its current session, if it still holds it.
+ */
+function releaseSession(state: SessionState): void {
+    if (state.sessionId && activeSessions().get(state.sessionId) === state) {
+        activeSessions().delete(state.sessionId);
+    }
+}
+
+/**
+ * Create an empty session state for a new client connection.
+ */
+export function createSessionState(): SessionState {
+    return { sessionId: null, startedAt: null, project: null };
+}
+
+/**
+ * Run `fn` (and everything it awaits) against the given connection's
+ * session state instead of the default one.
+ */
+export function runWithSessionState<T>(state: SessionState, fn: () => T): T {
+    return _connectionState.run(state, fn);
+}
+
+/**
+ * The session state that session functions called from here operate on.
+ */
+export function getSessionState(): SessionState {
+    return currentState();
+}
 
 // ---------------------------------------------------------------------------
 // Public API
@@ -44,67 +121,190 @@ let _sessionStartedAt: string | null = null;
  * @param archiveCallback — optional async callback that compresses/archives
  *        the current working memory before switching sessions.
  *        Receives the old session ID so it can tag the archive properly.
+ * @param project — workspace/project the session belongs to. Memories
+ *        stored in the session are tagged with it, and cross-session
+ *        recall and core memory are scoped to it.
  */
 export async function startSession(
-    archiveCallback?: (oldSessionId: string) => Promise<string | null>
+    archiveCallback?: ArchiveCallback,
+    project: string | null = null
 ): Promise<SessionStartResult> {
     const result: SessionStartResult = {
         sessionId: "",
         startedAt: "",
+        project,
         previousSessionArchived: false,
         previousSessionId: null,
         archiveSummary: null,
     };
 
-    // Archive previous session if one exists
-    if (_currentSessionId) {
-        result.previousSessionId = _currentSessionId;
-
-        // Call the archive callback (compresses working memory → Tier 1)
-        if (archiveCallback) {
-            try {
-                result.archiveSummary = await archiveCallback(_currentSessionId);
-                result.previousSessionArchived = result.archiveSummary !== null;
-            } catch {
-                // Archive failure is non-fatal — we still start the new session
-            }
-        }
+    const state = currentState();
 
-        // Mark old session as ended in the database
-        endSessionRecord(_currentSessionId);
-    }
+    // Archive previous session if one exists
+    await closeCurrentSession(state, result, archiveCallback);
 
     // Generate new session with timestamp-prefixed ID for guaranteed uniqueness.
     // Format: {unixTimestampMs}-{uuid} — the timestamp ensures temporal uniqueness
     // even if UUID somehow collides (which is already astronomically unlikely).
     const timestamp = Date.now();
-    _currentSessionId = `${timestamp}-${uuidv4()}`;
-    _sessionStartedAt = new Date(timestamp).toISOString();
+    const sessionId = `${timestamp}-${uuidv4()}`;
+    const startedAt = new Date(timestamp).toISOString();
+    state.sessionId = sessionId;
+    state.startedAt = startedAt;
+    state.project = project;
+    activeSessions().set(sessionId, state);
 
-    result.sessionId = _currentSessionId;
-    result.startedAt = _sessionStartedAt;
+    result.sessionId = sessionId;
+    result.startedAt = startedAt;
 
     // Persist session to database
     insertSession({
-        id: _currentSessionId,
-        started_at: _sessionStartedAt,
+        id: sessionId,
+        started_at: startedAt,
         ended_at: null,
         metadata: JSON.stringify({
             previousSessionId: result.previousSessionId,
         }),
+        project,
     });
 
     return result;
 }
 
+/**
+ * Archive and end the active session (if any), recording the outcome on
+ * `result`. Shared by startSession and resumeSession.
+ */
+async function closeCurrentSession(
+    state: SessionState,
+    result: SessionStartResult,
+    archiveCallback?: ArchiveCallback
+): Promise<void> {
+    const sessionId = state.sessionId;
+    if (!sessionId) return;
+
+    result.previousSessionId = sessionId;
+
+    // Call the archive callback (compresses working memory → Tier 1)
+    if (archiveCallback) {
+        try {
+            result.archiveSummary = await archiveCallback(sessionId);
+            result.previousSessionArchived = result.archiveSummary !== null;
+        } catch {
+            // Archive failure is non-fatal — we still switch sessions
+        }
+    }
+
+    // Mark old session as ended in the database
+    endSessionRecord(sessionId);
+    releaseSession(state);
+}
+
+/**
+ * Reattach to an earlier session by its ID (or a unique prefix of it).
+ * The active session is archived and ended first, exactly like startSession.
+ * The resumed session is reopened so its Tier 0/Tier 1 content is scoped
+ * to the current session again.
+ *
+ * Throws if no session matches, the prefix is ambiguous, or the session is
+ * active on another connection.
+ */
+export async function resumeSession(
+    sessionIdOrPrefix: string,
+    archiveCallback?: ArchiveCallback
+): Promise<SessionStartResult> {
+    const target = findSession(sessionIdOrPrefix);
+
+    const result: SessionStartResult = {
+        sessionId: target.id,
+        startedAt: target.started_at,
+        project: target.project,
+        previousSessionArchived: false,
+        previousSessionId: null,
+        archiveSummary: null,
+    };
+
+    const state = currentState();
+    if (state.sessionId === target.id) return result;
+
+    const owner = activeSessions().get(target.id);
+    if (owner && owner !== state) {
+        throw new Error(
+            `Session '${target.id}' is active on another connection. It can be resumed here once that connection ends it or disconnects.`
+        );
+    }
+
+    await closeCurrentSession(state, result, archiveCallback);
+
+    reopenSessionRecord(target.id);
+    state.sessionId = target.id;
+    state.startedAt = target.started_at;
+    state.project = target.project;
+    activeSessions().set(target.id, state);
+
+    return result;
+}
+
+/**
+ * Look up a session by full ID or unique ID prefix. Pass `project`
+ * (including null) to only match sessions of that project. Throws if
+ * nothing matches or the prefix is ambiguous.
+ */
+export function findSession(sessionIdOrPrefix: string, project?: string | null): SessionRow {
+    const exact = getSessionById(sessionIdOrPrefix);
+    if (exact && (project === undefined || exact.project === project)) return exact;
+
+    const matches = getSessionsByIdPrefix(sessionIdOrPrefix, project);
+    if (matches.length === 0) {
+        throw new Error(`No session found matching '${sessionIdOrPrefix}'.`);
+    }
+    if (matches.length > 1) {
+        throw new Error(
+            `Session prefix '${sessionIdOrPrefix}' is ambiguous (${matches.length} matches). Use a longer prefix.`
+        );
+    }
+    return matches[0];
+}
+
+/**
+ * Reattach to the most recently started session that was never ended
+ * (e.g. the server was killed mid-conversation). Returns null if every
+ * recorded session has ended, or the latest one is active on another
+ * connection, in which case the caller should start a new one.
+ */
+export function resumeLatestSession(): SessionInfo | null {
+    const row = getActiveSession();
+    if (!row) return null;
+
+    const state = currentState();
+    const owner = activeSessions().get(row.id);
+    if (owner && owner !== state) return null;
+
+    releaseSession(state);
+    state.sessionId = row.id;
+    state.startedAt = row.started_at;
+    state.project = row.project;
+    activeSessions().set(row.id, state);
+
+    return {
+        sessionId: row.id,
+        startedAt: row.started_at,
+        isActive: true,
+        project: row.project,
+    };
+}
+
 /**
  * End the current session. Marks it as ended in the database.
  */
 export function endCurrentSession(): void {
-    if (_currentSessionId) {
-        endSessionRecord(_currentSessionId);
-        _currentSessionId = null;
-        _sessionStartedAt = null;
+    const state = currentState();
+    if (state.sessionId) {
+        endSessionRecord(state.sessionId);
+        releaseSession(state);
+        state.sessionId = null;
+        state.startedAt = null;
+        state.project = null;
     }
 }
 
@@ -112,42 +312,64 @@ export function endCurrentSession(): void {
  * Get the current session ID. Throws if no session is active.
  */
 export function getCurrentSessionId(): string {
-    if (!_currentSessionId) {
+    const sessionId = currentState().sessionId;
+    if (!sessionId) {
         throw new Error("No active session. Call startSession() first.");
     }
-    return _currentSessionId;
+    return sessionId;
 }
 
 /**
  * Get the current session ID or null if no session is active.
  */
 export function getCurrentSessionIdOrNull(): string | null {
-    return _currentSessionId;
+    return currentState().sessionId;
+}
+
+/**
+ * Get the project of the current session, or null if it has none.
+ */
+export function getCurrentProjectOrNull(): string | null {
+    return currentState().project;
+}
+
+/**
+ * Assign a project to the current session after it started — used when the
+ * project is only known once the client has reported its workspace roots.
+ */
+export function setCurrentProject(project: string | null): void {
+    const state = currentState();
+    if (!state.sessionId) return;
+    state.project = project;
+    updateSessionProject(state.sessionId, project);
+    setCachedVectorProject(getSummariesBySession(state.sessionId).map((row) => row.id), project);
 }
 
 /**
  * Get the current session start time.
  */
 export function getSessionStartTime(): string | null {
-    return _sessionStartedAt;
+    return currentState().startedAt;
 }
 
 /**
  * Check if a session is currently active.
  */
 export function isSessionActive(): boolean {
-    return _currentSessionId !== null;
+    return currentState().sessionId !== null;
 }
 
 /**
  * Get current session info.
  */
 export function getSessionInfo(): SessionInfo | null {
-    if (!_currentSessionId || !_sessionStartedAt) return null;
+    const { sessionId, startedAt, project } = currentState();
+    if (!sessionId || !startedAt) return null;
     return {
-        sessionId: _currentSessionId,
-        startedAt: _sessionStartedAt,
+        sessionId,
+        startedAt,
         isActive: true,
+        project,
     };
 }
 
@@ -157,3 +379,50 @@ export function getSessionInfo(): SessionInfo | null {
 export function getRecentSessions(limit: number = 10): SessionRow[] {
     return dbGetRecentSessions(limit);
 }
+
+/**
+ * The current project's recent sessions with entry counts and a short title
+ * for display.
+ */
+export function listSessions(limit: number = 10): SessionListItem[] {
+    const { sessionId: currentSessionId, project } = currentState();
+    return dbGetRecentSessions(limit, project).map((row) => ({
+        sessionId: row.id,
+        startedAt: row.started_at,
+        endedAt: row.ended_at,
+        project: row.project,
+        entryCount: getSummaryCountBySession(row.id),
+        title: sessionTitle(row.id),
+        isCurrent: row.id === currentSessionId,
+    }));
+}
+
+/**
+ * IDs of the current project's sessions starting with `prefix`, newest first.
+ */
+export function getSessionIdsByPrefix(prefix: string, limit: number = 100): string[] {
+    return getSessionsByIdPrefix(prefix, currentState().project)
+        .slice(0, limit)
+        .map((row) => row.id);
+}
+
+const TITLE_MAX_LENGTH = 60;
+
+/**
+ * Derive a short title from the first sentence of the session's earliest
+ * stored memory.
+ */
+function sessionTitle(sessionId: string): string {
+    const summaries = getSummariesBySession(sessionId);
+    if (summaries.length === 0) return "(empty session)";
+
+    const earliest = summaries[summaries.length - 1]; // ordered newest first
+    const firstSentence = earliest.content
+        .replace(/^\[DEPRECATED\]\s*/, "")
+        .split(/(?<=[.!?])\s+|\n/)[0]
+        .trim();
+
+    return firstSentence.length > TITLE_MAX_LENGTH
+        ? firstSentence.substring(0, TITLE_MAX_LENGTH - 1).trimEnd() + "…"
+        : firstSentence;
+}
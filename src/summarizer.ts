@@ -0,0 +1,288 @@
+import { countTokens, truncateToTokenBudget } from "./token-counter.js";
+
+// ---------------------------------------------------------------------------
+// Extractive summarization (offline, deterministic)
+//
+// Sentences from all input passages are ranked with TextRank over TF-IDF
+// term vectors, then greedily selected within the token budget. Sentences
+// that mention an entity not yet covered get a boost, and near-duplicates
+// of already selected sentences are skipped. The selected sentences are
+// emitted in their original order so the summary still reads chronologically.
+// ---------------------------------------------------------------------------
+
+export interface SummaryResult {
+    text: string;
+    tokens: number;
+}
+
+interface Sentence {
+    text: string;
+    passage: number;
+    position: number;
+    tokens: number;
+    terms: Map<string, number>;
+    entities: Set<string>;
+    weight: number;
+}
+
+const DAMPING = 0.85;
+const MAX_ITERATIONS = 50;
+const CONVERGENCE = 1e-6;
+const REDUNDANCY_THRESHOLD = 0.8;
+const ENTITY_BONUS = 0.5;
+
+const STOP_WORDS = new Set([
+    "the", "and", "for", "are", "but", "not", "you", "all", "any", "can", "had",
+    "her", "was", "one", "our", "out", "has", "him", "his", "how", "its", "may",
+    "new", "now", "old", "see", "two", "way", "who", "did", "get", "let", "put",
+    "say", "she", "too", "use", "that", "with", "have", "this", "will", "your",
+    "from", "they", "been", "were", "said", "each", "which", "their", "there",
+    "what", "when", "where", "then", "them", "these", "some", "would", "make",
+    "like", "into", "than", "also", "just", "only", "over", "such", "very",
+    "about", "after", "before", "because", "while", "should", "could", "being",
+]);
+
+// ---------------------------------------------------------------------------
+// Text processing
+// ---------------------------------------------------------------------------
+
+function splitSentences(text: string): string[] {
+    return text
+        .split(/(?<=[.!?])\s+|\n+/)
+        .map((s) => s.trim())
+        .filter((s) => s.length > 0);
+}
+
+function extractTerms(sentence: string): Map<string, number> {
+    const terms = new Map<string, number>();
+    const words = sentence.toLowerCase().match(/[a-z0-9][a-z0-9_.\-/#]*[a-z0-9]|[a-z0-9]/g) || [];
+    for (const word of words) {
+        if (word.length <= 2 || STOP_WORDS.has(word)) continue;
+        terms.set(word, (terms.get(word) || 0) + 1);
+    }
+    return terms;
+}
+
+/**
+ * Heuristic entity mentions: known entity labels, capitalized words that do
+ * not start the sentence, and identifier-like tokens (paths, domains, versions).
+ */
+function extractEntities(sentence: string, knownEntities: string[]): Set<string> {
+    const found = new Set<string>();
+    const lower = sentence.toLowerCase();
+
+    for (const label of knownEntities) {
+        if (label && lower.includes(label.toLowerCase())) {
+            found.add(label.toLowerCase());
+        }
+    }
+
+    const words = sentence.split(/\s+/);
+    for (let i = 0; i < words.length; i++) {
+        const word = words[i].replace(/^[^\w#@./]+|[^\w#@./]+$/g, "").replace(/[.]+$/, "");
+        if (word.length < 2) continue;
+        const capitalized = i > 0 && /^[A-Z][a-zA-Z0-9]+/.test(word);
+        const identifier = /[./#@_]|\d/.test(word) && /[a-zA-Z]/.test(word);
+        if (capitalized || identifier) {
+            found.add(word.toLowerCase());
+        }
+    }
+
+    return found;
+}
+
+function cosine(a: Map<string, number>, b: Map<string, number>): number {
+    if (a.size === 0 || b.size === 0) return 0;
+    const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+
+    let dot = 0;
+    for (const [term, value] of small) {
+        const other = large.get(term);
+        if (other !== undefined) dot += value * other;
+    }
+    if (dot === 0) return 0;
+
+    let normA = 0;
+    let normB = 0;
+    for (const value of a.values()) normA += value * value;
+    for (const value of b.values()) normB += value * value;
+
+    return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+// ---------------------------------------------------------------------------
+// Ranking
+// ---------------------------------------------------------------------------
+
+function applyTfIdf(sentences: Sentence[]): void {
+    const documentFrequency = new Map<string, number>();
+    for (const sentence of sentences) {
+        for (const term of sentence.terms.keys()) {
+            documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+        }
+    }
+
+    const n = sentences.length;
+    for (const sentence of sentences) {
+        for (const [term, tf] of sentence.terms) {
+            const idf = Math.log((n + 1) / ((documentFrequency.get(term) || 0) + 1)) + 1;
+            sentence.terms.set(term, tf * idf);
+        }
+    }
+}
+
+/**
+ * Weighted PageRank over the sentence similarity graph.
+ */
+function textRank(similarity: number[][]): number[] {
+    const n = similarity.length;
+    const outWeight = similarity.map((row) => row.reduce((sum, w) => sum + w, 0));
+    let scores = new Array(n).fill(1 / n);
+
+    for (let iter = 0; iter < MAX_ITERATIONS; iter++) {
+        const next = new Array(n).fill((1 - DAMPING) / n);
+        for (let j = 0; j < n; j++) {
+            if (outWeight[j] === 0) {
+                // Dangling sentence: spread its score evenly
+                for (let i = 0; i < n; i++) next[i] += (DAMPING * scores[j]) / n;
+                continue;
+            }
+            for (let i = 0; i < n; i++) {
+                const w = similarity[j][i];
+                if (w > 0) next[i] += (DAMPING * scores[j] * w) / outWeight[j];
+            }
+        }
+
+        let delta = 0;
+        for (let i = 0; i < n; i++) delta += Math.abs(next[i] - scores[i]);
+        scores = next;
+        if (delta < CONVERGENCE) break;
+    }
+
+    return scores;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Summarize one or more passages into at most `budget` tokens by selecting
+ * their most informative sentences. Input that already fits the budget is
+ * returned unchanged (passages joined with `separator`).
+ *
+ * @param knownEntities — entity labels to treat as mentions worth keeping,
+ *        in addition to the capitalized/identifier heuristic.
+ */
+export function summarizeExtractive(
+    passages: string[],
+    budget: number,
+    knownEntities: string[] = [],
+    separator: string = "\n"
+): SummaryResult {
+    const nonEmpty = passages.filter((p) => p.trim().length > 0);
+    const joined = nonEmpty.join(separator);
+    const joinedTokens = countTokens(joined);
+    if (joinedTokens <= budget) {
+        return { text: joined, tokens: joinedTokens };
+    }
+
+    const sentences: Sentence[] = [];
+    nonEmpty.forEach((passage, passageIdx) => {
+        for (const text of splitSentences(passage)) {
+            sentences.push({
+                text,
+                passage: passageIdx,
+                position: sentences.length,
+                tokens: countTokens(text),
+                terms: extractTerms(text),
+                entities: extractEntities(text, knownEntities),
+                weight: 0,
+            });
+        }
+    });
+
+    if (sentences.length <= 1) {
+        return truncateToTokenBudget(joined, budget);
+    }
+
+    applyTfIdf(sentences);
+
+    const n = sentences.length;
+    const similarity: number[][] = Array.from({ length: n }, () => new Array(n).fill(0));
+    for (let i = 0; i < n; i++) {
+        for (let j = i + 1; j < n; j++) {
+            const sim = cosine(sentences[i].terms, sentences[j].terms);
+            similarity[i][j] = sim;
+            similarity[j][i] = sim;
+        }
+    }
+
+    const ranks = textRank(similarity);
+    const maxRank = Math.max(...ranks);
+    sentences.forEach((s, i) => {
+        s.weight = maxRank > 0 ? ranks[i] / maxRank : 0;
+    });
+
+    // Greedy selection: highest adjusted score first, re-scored after every
+    // pick so that sentences introducing uncovered entities move up.
+    const selected: Sentence[] = [];
+    const covered = new Set<string>();
+    const remaining = new Set(sentences);
+    let used = 0;
+
+    while (remaining.size > 0) {
+        let best: Sentence | null = null;
+        let bestScore = -Infinity;
+
+        for (const sentence of remaining) {
+            let uncovered = 0;
+            for (const entity of sentence.entities) {
+                if (!covered.has(entity)) uncovered++;
+            }
+            const entityScore = sentence.entities.size > 0 ? uncovered / sentence.entities.size : 0;
+            const score = sentence.weight * (1 + ENTITY_BONUS * entityScore);
+            if (score > bestScore) {
+                bestScore = score;
+                best = sentence;
+            }
+        }
+
+        if (!best) break;
+        remaining.delete(best);
+
+        // +1 accounts for the separator between sentences
+        if (used + best.tokens + 1 > budget) continue;
+
+        const redundant = selected.some(
+            (s) => similarity[s.position][best!.position] >= REDUNDANCY_THRESHOLD
+        );
+        if (redundant) continue;
+
+        selected.push(best);
+        used += best.tokens + 1;
+        for (const entity of best.entities) covered.add(entity);
+    }
+
+    if (selected.length === 0) {
+        return truncateToTokenBudget(joined, budget);
+    }
+
+    // Restore original order, keeping passage boundaries
+    selected.sort((a, b) => a.position - b.position);
+    const byPassage = new Map<number, string[]>();
+    for (const sentence of selected) {
+        const list = byPassage.get(sentence.passage) || [];
+        list.push(sentence.text);
+        byPassage.set(sentence.passage, list);
+    }
+    let text = [...byPassage.values()].map((list) => list.join(" ")).join(separator);
+    let tokens = countTokens(text);
+
+    // Token counts are not strictly additive across joins; trim if we overshot
+    if (tokens > budget) {
+        ({ text, tokens } = truncateToTokenBudget(text, budget));
+    }
+
+    return { text, tokens };
+}
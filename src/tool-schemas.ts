@@ -0,0 +1,358 @@
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+
+// ---------------------------------------------------------------------------
+// Tool argument and result schemas
+//
+// Every tool's arguments are validated with these zod schemas before they
+// reach the memory layer, and the JSON Schemas advertised in tools/list are
+// derived from them so the two cannot drift apart. Output schemas describe
+// the `structuredContent` returned next to the human-readable text.
+// ---------------------------------------------------------------------------
+
+export interface JsonObjectSchema {
+    type: "object";
+    properties?: Record<string, object>;
+    required?: string[];
+    [key: string]: unknown;
+}
+
+/**
+ * Convert a zod object schema into the JSON Schema form used by tools/list.
+ */
+export function toJsonSchema(schema: z.ZodTypeAny): JsonObjectSchema {
+    const { $schema: _schema, ...json } = zodToJsonSchema(schema, {
+        $refStrategy: "none",
+    }) as JsonObjectSchema;
+    return json;
+}
+
+/**
+ * Validate tool arguments against a schema. Throws an Error listing every
+ * invalid field, which the tool handler reports back as an error result.
+ */
+export function parseToolArgs<T extends z.ZodTypeAny>(schema: T, args: unknown): z.infer<T> {
+    const result = schema.safeParse(args ?? {});
+    if (!result.success) {
+        const issues = result.error.issues.map((issue) =>
+            issue.path.length > 0 ? `'${issue.path.join(".")}': ${issue.message}` : issue.message
+        );
+        throw new Error(`invalid arguments — ${issues.join("; ")}`);
+    }
+    return result.data;
+}
+
+// ---------------------------------------------------------------------------
+// Shared pieces
+// ---------------------------------------------------------------------------
+
+const MemoryTypeSchema = z.enum(["fact", "preference", "event", "summary", "core"]);
+
+const Confidence = z.number().min(0).max(1);
+
+const IsoDateTime = z.string().refine((value) => !Number.isNaN(Date.parse(value)), {
+    message: "invalid ISO datetime",
+});
+
+export const RetrievalFiltersSchema = z.object({
+    memory_types: z
+        .array(MemoryTypeSchema)
+        .optional()
+        .describe("Only include these memory types: 'fact', 'preference', 'event', 'summary', 'core' (e.g., ['event', 'summary']). Compressed session notes count as 'summary'."),
+    after: IsoDateTime.optional().describe("ISO datetime — only include memories after this time."),
+    before: IsoDateTime.optional().describe("ISO datetime — only include memories before this time."),
+    min_confidence: Confidence.optional().describe("Minimum confidence score to include (0.0-1.0)."),
+});
+
+export type RetrievalFilters = z.infer<typeof RetrievalFiltersSchema>;
+
+// ---------------------------------------------------------------------------
+// Tool inputs
+// ---------------------------------------------------------------------------
+
+export const SessionStartInput = z.object({
+    project: z
+        .string()
+        .trim()
+        .min(1)
+        .optional()
+        .describe("Project or workspace name to scope this session's memories to (e.g., the repository name). Defaults to the client's first workspace root."),
+});
+
+export const SessionListInput = z.object({
+    limit: z
+        .number()
+        .int()
+        .positive()
+        .default(10)
+        .describe("Maximum number of sessions to list. Default 10."),
+});
+
+export const SessionResumeInput = z.object({
+    session_id: z
+        .string()
+        .min(1)
+        .describe("ID (or unique ID prefix) of the session to resume, as shown by session_list."),
+});
+
+export const MemoryStoreInput = z.object({
+    content: z
+        .string()
+        .min(1)
+        .describe("DETAILED, self-contained paragraph (3-5+ sentences). Must include full context so a future AI can understand without re-deriving. Include specifics: names, paths, colors, versions, decisions, reasoning. NEVER write single sentences — that defeats the purpose of memory."),
+    memory_type: MemoryTypeSchema.describe(
+        "Category: 'core' for critical permanent info, 'fact' for knowledge, 'preference' for user likes/dislikes, 'event' for what just happened, 'summary' for compressed notes."
+    ),
+    confidence: Confidence.default(1.0).describe(
+        "Confidence 0.0-1.0. Lower confidence = evicted first. Default 1.0. Use lower values for uncertain or temporary information."
+    ),
+    entities: z
+        .array(z.string().min(1))
+        .default([])
+        .describe("Key entities this memory relates to. REQUIRED for 'fact' type — first entity is the subject. Example: ['User', 'JavaScript'] for 'User knows JavaScript'."),
+});
+
+export const MemoryRetrieveInput = z.object({
+    query: z
+        .string()
+        .min(1)
+        .describe("What to search for. Be descriptive — include project names, tech stack, topic areas. Example: 'user website fate.rf.gd design preferences audio visualizer' rather than just 'website'."),
+    token_budget: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe("Max tokens to return. Default 3000. Use 5000-8000 for broad conversation-start context. Use 1000-2000 for focused lookups."),
+    filters: RetrievalFiltersSchema.optional(),
+});
+
+export const MemoryRecallInput = z.object({
+    query: z
+        .string()
+        .min(1)
+        .describe("What to look for in past sessions. Be specific — include project names, topics, and the decision or fact you need."),
+    token_budget: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe("Max tokens to return. Default 8000. Use 1000-2000 for a single decision or fact."),
+    filters: RetrievalFiltersSchema.optional(),
+});
+
+export const MemoryCompressInput = z.object({
+    scope: z
+        .enum(["working", "session", "epoch"])
+        .describe("Compression scope: 'working' (current session), 'session' (merge this session's summaries), 'epoch' (consolidate this session's summaries into long-term knowledge)."),
+});
+
+export const MemoryForgetInput = z
+    .object({
+        memory_id: z
+            .string()
+            .min(1)
+            .describe("ID of the memory to modify (UUID format, returned by memory_store)."),
+        action: z
+            .enum(["deprecate", "correct", "delete"])
+            .describe("Action to take: 'deprecate' (lower priority), 'correct' (replace content), 'delete' (remove permanently)."),
+        correction: z
+            .string()
+            .min(1)
+            .optional()
+            .describe("New content to replace the memory with. Required when action is 'correct'."),
+    })
+    .refine((args) => args.action !== "correct" || args.correction !== undefined, {
+        message: "required when action is 'correct'",
+        path: ["correction"],
+    });
+
+export const MemoryStatusInput = z.object({});
+
+export const GraphQueryInput = z.object({
+    entity: z.string().min(1).describe("Entity label to look up (e.g., 'User', 'PostgreSQL')."),
+    depth: z
+        .number()
+        .int()
+        .min(1)
+        .max(3)
+        .default(1)
+        .describe("Traversal depth: 1 = direct facts only, 2 = also facts about the direct neighbors. Default 1."),
+});
+
+export const GraphFactsByPredicateInput = z.object({
+    predicate: z.string().min(1).describe("Predicate to list (e.g., 'uses', 'works_at', 'prefers')."),
+});
+
+export const GraphAddFactInput = z.object({
+    subject: z.string().trim().min(1).describe("Subject entity label."),
+    predicate: z.string().trim().min(1).describe("Relation predicate (snake_case)."),
+    object: z.string().trim().min(1).describe("Object entity label."),
+    subject_type: z
+        .string()
+        .default("unknown")
+        .describe("Entity type of the subject (e.g., 'person', 'project', 'technology'). Default 'unknown'."),
+    object_type: z.string().default("unknown").describe("Entity type of the object. Default 'unknown'."),
+    confidence: Confidence.default(1.0).describe("Confidence score 0.0-1.0. Default 1.0."),
+});
+
+export const GraphIngestTriplesInput = z.object({
+    // Rows are validated one by one by ingestTriples so that a single bad
+    // row is reported instead of failing the whole batch
+    triples: z
+        .array(z.unknown())
+        .describe("The extract_facts output: an array of {subject, predicate, object, subject_type, object_type, confidence}."),
+});
+
+export const GraphRemoveInput = z
+    .object({
+        entity: z.string().min(1).optional().describe("Label of the entity to delete with all of its facts."),
+        subject: z.string().min(1).optional().describe("Subject label of the fact to remove."),
+        predicate: z.string().min(1).optional().describe("Predicate of the fact to remove."),
+        object: z.string().min(1).optional().describe("Object label of the fact to remove."),
+        action: z
+            .enum(["delete", "deprecate"])
+            .default("delete")
+            .describe("For facts only: 'delete' (default) removes it, 'deprecate' ends it but keeps it as history."),
+    })
+    .refine((args) => args.entity !== undefined || Boolean(args.subject && args.predicate && args.object), {
+        message: "pass either 'entity', or 'subject', 'predicate' and 'object'",
+    });
+
+// ---------------------------------------------------------------------------
+// Tool outputs (structuredContent)
+// ---------------------------------------------------------------------------
+
+export const SessionStartOutput = z.object({
+    sessionId: z.string(),
+    startedAt: z.string(),
+    project: z.string().nullable(),
+    previousSessionId: z.string().nullable(),
+    previousSessionArchived: z.boolean(),
+});
+
+export const SessionListOutput = z.object({
+    sessions: z.array(
+        z.object({
+            sessionId: z.string(),
+            startedAt: z.string(),
+            endedAt: z.string().nullable(),
+            project: z.string().nullable(),
+            entryCount: z.number(),
+            title: z.string(),
+            isCurrent: z.boolean(),
+        })
+    ),
+});
+
+export const SessionResumeOutput = z.object({
+    sessionId: z.string(),
+    startedAt: z.string(),
+    project: z.string().nullable(),
+    restoredEntries: z.number(),
+    previousSessionId: z.string().nullable(),
+});
+
+export const MemoryStoreOutput = z.object({
+    memoryId: z.string(),
+    memoryType: MemoryTypeSchema,
+    tier: z.number(),
+    sessionId: z.string().nullable(),
+    entitiesCreated: z.array(z.string()),
+    factsStored: z.number(),
+    vectorId: z.string().nullable(),
+});
+
+export const AssembledContextOutput = z.object({
+    memories: z
+        .array(
+            z.object({
+                id: z.string(),
+                source: z.string(),
+                tier: z.number().nullable(),
+                tokens: z.number(),
+                score: z.number(),
+            })
+        )
+        .describe("Selected memories in ranking order."),
+    sourceCounts: z.record(z.number()),
+    budgetUsed: z.number(),
+    budgetRemaining: z.number(),
+    candidatesConsidered: z.number(),
+    candidatesSelected: z.number(),
+    sessionId: z.string().nullable(),
+});
+
+const TierStatus = z.object({ count: z.number(), tokenEstimate: z.number() });
+
+export const MemoryStatusOutput = z.object({
+    tiers: z.object({ tier0: TierStatus, tier1: TierStatus, tier2: TierStatus, tier3: TierStatus }),
+    knowledgeGraph: z.object({ entities: z.number(), relations: z.number() }),
+    vectorStore: z.object({ count: z.number(), embedder: z.string(), embeddingError: z.string().nullable() }),
+    totalTokensStored: z.number(),
+    currentSessionId: z.string().nullable(),
+    project: z.string().nullable(),
+    storage: z.object({ schemaVersion: z.number(), readOnly: z.boolean(), warning: z.string().nullable() }),
+});
+
+export const MemoryCompressOutput = z.object({
+    scope: z.enum(["working", "session", "epoch"]),
+    summaryId: z.string().nullable().describe("The new summary, or null when there was nothing to compress."),
+    tier: z.number().nullable(),
+    sourceIds: z.array(z.string()).describe("Entries consumed and removed by the compression."),
+    originalTokens: z.number(),
+    compressedTokens: z.number(),
+    method: z.enum(["sampling", "extractive", "truncate"]).nullable(),
+});
+
+export const MemoryForgetOutput = z.object({
+    memoryId: z.string(),
+    action: z.enum(["deprecate", "correct", "delete"]),
+    tier: z.number().nullable().describe("Tier the memory was in, or null if it was not found."),
+    applied: z.boolean(),
+});
+
+const GraphFactSchema = z.object({
+    subject: z.string(),
+    subjectType: z.string(),
+    predicate: z.string(),
+    object: z.string(),
+    objectType: z.string(),
+    confidence: z.number(),
+    temporalStart: z.string().nullable(),
+});
+
+export const GraphFactsOutput = z.object({
+    facts: z.array(GraphFactSchema),
+});
+
+export const GraphQueryOutput = z.object({
+    entity: z
+        .object({ id: z.string(), label: z.string(), type: z.string(), project: z.string().nullable() })
+        .nullable()
+        .describe("The matched entity, or null if nothing matched."),
+    facts: z.array(GraphFactSchema).describe("Facts the entity (or, with depth > 1, its neighbors) takes part in."),
+    neighbors: z.array(z.string()),
+});
+
+export const GraphAddFactOutput = z.object({
+    relationId: z.string(),
+    subject: z.string(),
+    predicate: z.string(),
+    object: z.string(),
+    factCount: z.number().describe("Current facts about the subject, including this one."),
+});
+
+export const GraphRemoveOutput = z.object({
+    removed: z.boolean(),
+    entity: z.string().nullable(),
+    fact: z.object({ subject: z.string(), predicate: z.string(), object: z.string() }).nullable(),
+    action: z.enum(["delete", "deprecate"]),
+    factsRemoved: z.number(),
+});
+
+export const GraphIngestOutput = z.object({
+    stored: z.array(z.string()),
+    duplicates: z.array(z.string()),
+    conflicts: z.array(z.string()),
+    rejected: z.array(z.object({ index: z.number(), reason: z.string() })),
+});
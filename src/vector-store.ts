@@ -1,18 +1,29 @@
 import { v4 as uuidv4 } from "uuid";
+import { existsSync, readFileSync, openSync, writeSync, fsyncSync, closeSync, renameSync } from "fs";
+import { getConfig } from "./config.js";
 import {
     insertVector,
     getAllVectors,
+    getVectorById,
     deleteVector,
     deleteVectorsBySourceId,
+    getVectorIdsBySourceId,
     getVectorCount,
+    getDatabasePath,
+    getDatabaseGeneration,
+    isDatabaseReadOnly,
     type VectorRow,
 } from "./database.js";
+import { embed, embedForStorage, cosineSimilarity } from "./embeddings.js";
+import { HnswIndex, type HnswVectorSource } from "./hnsw.js";
 import {
-    embed,
-    cosineSimilarity,
-    vectorToBuffer,
-    bufferToVector,
-} from "./embeddings.js";
+    EmbeddingMatrix,
+    encodeEmbedding,
+    decodeEmbedding,
+    blobQuantization,
+    storageQuantization,
+} from "./quantization.js";
+import { instanceState } from "./instance.js";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -34,10 +45,21 @@ export interface VectorSearchFilter {
     after?: string; // ISO datetime
     before?: string; // ISO datetime
     minConfidence?: number;
+    project?: string | null; // exact project match (null = unscoped); omit to span all projects
 }
 
 // ---------------------------------------------------------------------------
 // In-memory vector cache for fast search
+//
+// All embeddings live in one EmbeddingMatrix (row i belongs to entries[i]),
+// a contiguous typed array in the configured quantization (see
+// quantization.ts). The cache is loaded from the vectors table once and then
+// kept coherent by applying every insert and delete directly: an insert
+// appends a row, a delete moves the last row into the freed one. Vectors
+// whose length differs from the matrix width (an embedding model change)
+// keep a zero row and score 0, as a length mismatch always has. A binary
+// matrix only narrows the search down: its candidates are re-scored against
+// the int8 rows of the vectors table.
 // ---------------------------------------------------------------------------
 
 interface CachedVector {
@@ -45,36 +67,354 @@ interface CachedVector {
     sourceId: string;
     sourceType: string;
     contentPreview: string;
-    embedding: number[];
+    /** Length of the stored embedding */
+    dimensions: number;
     confidence: number;
     metadata: Record<string, unknown>;
     createdAt: string;
+    project: string | null;
 }
 
-let _vectorCache: CachedVector[] | null = null;
-let _cacheStale = true;
+interface VectorCacheState {
+    loaded: boolean;
+    /** getDatabaseGeneration() the cache was built against */
+    generation: number;
+    matrix: EmbeddingMatrix;
+    entries: CachedVector[];
+    rowById: Map<string, number>;
+    idsBySource: Map<string, string[]>;
+}
+
+function cacheState(): VectorCacheState {
+    const state = instanceState<VectorCacheState>("vector-cache", () => ({
+        loaded: false,
+        generation: getDatabaseGeneration(),
+        matrix: new EmbeddingMatrix(0, "none"),
+        entries: [],
+        rowById: new Map(),
+        idsBySource: new Map(),
+    }));
+    if (state.generation !== getDatabaseGeneration()) {
+        // The database was reloaded from disk (a read-only process took over
+        // the lock): cache and index start over from the new contents
+        state.generation = getDatabaseGeneration();
+        state.loaded = false;
+        resetVectorIndex();
+    }
+    return state;
+}
 
-function loadVectorCache(): CachedVector[] {
-    if (_vectorCache && !_cacheStale) return _vectorCache;
+function loadVectorCache(): VectorCacheState {
+    const state = cacheState();
+    if (state.loaded) return state;
 
     const rows = getAllVectors();
-    _vectorCache = rows.map((row) => ({
+    const { dimensions, quantization } = getConfig().embedding;
+    state.matrix = new EmbeddingMatrix(matrixWidth(rows, dimensions), quantization, rows.length);
+    state.entries = [];
+    state.rowById = new Map();
+    state.idsBySource = new Map();
+
+    for (const row of rows) {
+        cacheAppend(state, row, decodeEmbedding(row.embedding, row.dimensions));
+    }
+    state.loaded = true;
+
+    return state;
+}
+
+/**
+ * The most common embedding length among `rows` (the configured one wins a
+ * tie), so a few vectors from another embedder cannot set the matrix width.
+ */
+function matrixWidth(rows: VectorRow[], configured: number): number {
+    const counts = new Map<number, number>();
+    for (const row of rows) counts.set(row.dimensions, (counts.get(row.dimensions) ?? 0) + 1);
+
+    let width = configured;
+    let best = counts.get(configured) ?? 0;
+    for (const [dimensions, count] of counts) {
+        if (count > best) {
+            width = dimensions;
+            best = count;
+        }
+    }
+    return width;
+}
+
+function cacheAppend(state: VectorCacheState, row: VectorRow, embedding: ArrayLike<number>): void {
+    const index = state.entries.length;
+    state.matrix.set(index, embedding);
+
+    state.entries.push({
         id: row.id,
         sourceId: row.source_id,
         sourceType: row.source_type,
         contentPreview: row.content_preview,
-        embedding: bufferToVector(row.embedding),
+        dimensions: embedding.length,
         confidence: row.confidence,
         metadata: JSON.parse(row.metadata || "{}"),
         createdAt: row.created_at,
+        project: row.project,
+    });
+    state.rowById.set(row.id, index);
+
+    const siblings = state.idsBySource.get(row.source_id);
+    if (siblings) siblings.push(row.id);
+    else state.idsBySource.set(row.source_id, [row.id]);
+}
+
+/**
+ * Apply an insert to the cache (if it has been loaded; otherwise the next
+ * load picks the row up from the database).
+ */
+function cacheInsert(row: VectorRow, embedding: number[]): void {
+    const state = cacheState();
+    if (!state.loaded) return;
+    if (state.rowById.has(row.id)) cacheRemove(row.id);
+    if (state.entries.length === 0 && embedding.length !== state.matrix.width) {
+        // The first vector of an empty store sets the matrix width
+        state.matrix = new EmbeddingMatrix(embedding.length, state.matrix.quantization);
+    }
+    cacheAppend(state, row, embedding);
+}
+
+/**
+ * Apply a delete to the cache: the last row moves into the freed slot.
+ */
+function cacheRemove(id: string): void {
+    const state = cacheState();
+    const index = state.rowById.get(id);
+    if (!state.loaded || index === undefined) return;
+
+    const removed = state.entries[index];
+    const last = state.entries.length - 1;
+    if (index !== last) {
+        const moved = state.entries[last];
+        state.matrix.move(last, index);
+        state.entries[index] = moved;
+        state.rowById.set(moved.id, index);
+    }
+    state.entries.pop();
+    state.rowById.delete(id);
+
+    const siblings = state.idsBySource.get(removed.sourceId)?.filter((sibling) => sibling !== id) ?? [];
+    if (siblings.length > 0) state.idsBySource.set(removed.sourceId, siblings);
+    else state.idsBySource.delete(removed.sourceId);
+}
+
+function vectorNorm(vector: ArrayLike<number>): number {
+    let sum = 0;
+    for (let i = 0; i < vector.length; i++) sum += vector[i] * vector[i];
+    return Math.sqrt(sum);
+}
+
+/**
+ * Similarity of each of `rows` to the query. Binary matrices hold sign bits
+ * only, so their rows are scored against the embeddings stored in the
+ * vectors table instead (int8, or float32 for rows written without
+ * quantization); rows stored as binary too keep their sign-vector score.
+ */
+function scoreRows(cache: VectorCacheState, rows: number[], queryEmbedding: number[]): number[] {
+    const { matrix, entries } = cache;
+    const queryNorm = vectorNorm(queryEmbedding);
+    if (matrix.quantization !== "binary" || queryEmbedding.length !== matrix.width) {
+        return rows.map((row) => matrix.similarity(row, queryEmbedding, queryNorm));
+    }
+
+    return rows.map((row) => {
+        const stored = getVectorById(entries[row].id);
+        const quantization = stored && blobQuantization(stored.embedding, stored.dimensions);
+        return stored && quantization !== null && quantization !== "binary" && stored.dimensions === matrix.width
+            ? cosineSimilarity(queryEmbedding, decodeEmbedding(stored.embedding, stored.dimensions))
+            : matrix.similarity(row, queryEmbedding, queryNorm);
+    });
+}
+
+// ---------------------------------------------------------------------------
+// Approximate nearest-neighbour index
+//
+// Once the store holds vectorIndex.minVectors vectors, searches go through an
+// HNSW graph (see hnsw.ts) instead of scanning every vector. The graph reads
+// its vectors from the cache's embedding matrix rather than keeping copies,
+// so it only adds its links. It is updated in place on every insert and
+// delete and saved next to the database (memory.db.hnsw). On first use it is loaded from that file and reconciled
+// with the vectors table — anything the file missed (e.g. after a crash) is
+// added, anything deleted since is dropped. Building or catching up runs in
+// the background in small batches; until it finishes, searches fall back to
+// the exact scan.
+// ---------------------------------------------------------------------------
+
+const INDEX_BUILD_BATCH = 200;
+const INDEX_SAVE_DELAY_MS = 5000;
+
+interface VectorIndexState {
+    index: HnswIndex | null;
+    /** The index holds every stored vector and can serve searches */
+    ready: boolean;
+    building: boolean;
+    /** Bumped to cancel a build in progress */
+    generation: number;
+    dirty: boolean;
+    saveTimer: ReturnType<typeof setTimeout> | null;
+}
+
+function indexState(): VectorIndexState {
+    return instanceState<VectorIndexState>("vector-index", () => ({
+        index: null,
+        ready: false,
+        building: false,
+        generation: 0,
+        dirty: false,
+        saveTimer: null,
     }));
-    _cacheStale = false;
+}
+
+function indexPath(): string {
+    return `${getDatabasePath()}.hnsw`;
+}
+
+/**
+ * The cache's embedding matrix as the index's vector source. Reads the
+ * cache fields on every call, as rows move when vectors are deleted.
+ */
+function matrixSource(cache: VectorCacheState): HnswVectorSource {
+    return {
+        similarity: (a, b) => cache.matrix.rowSimilarity(cache.rowById.get(a)!, cache.rowById.get(b)!),
+        querySimilarity: (label, query, queryNorm) =>
+            cache.matrix.similarity(cache.rowById.get(label)!, query, queryNorm),
+    };
+}
+
+function loadIndexFile(cache: VectorCacheState): HnswIndex | null {
+    const path = indexPath();
+    if (!existsSync(path)) return null;
+    try {
+        const index = HnswIndex.deserialize(readFileSync(path), matrixSource(cache));
+        const { m, efConstruction } = getConfig().vectorIndex;
+        if (index.dimensions !== cache.matrix.width || index.m !== m || index.efConstruction !== efConstruction) {
+            return null; // Built for another model or with other parameters
+        }
+        return index;
+    } catch {
+        return null; // Unreadable — rebuild it
+    }
+}
+
+/**
+ * Start loading or building the index in the background if it is not
+ * already available.
+ */
+function ensureVectorIndex(cache: VectorCacheState): void {
+    const state = indexState();
+    if (state.ready || state.building || cache.entries.length === 0) return;
+
+    const { m, efConstruction } = getConfig().vectorIndex;
+    let index = loadIndexFile(cache);
+
+    // Drop vectors deleted since the file was written
+    index?.remove([...index.labelsInIndex()].filter((label) => !cache.rowById.has(label)));
+    if (!index || index.tombstones > index.size) {
+        index = new HnswIndex(cache.matrix.width, matrixSource(cache), { m, efConstruction });
+    }
+
+    state.index = index;
+    state.building = true;
+    const generation = ++state.generation;
+    void catchUpIndex(index, generation);
+}
 
-    return _vectorCache;
+/**
+ * Add every stored vector the index lacks, yielding to the event loop
+ * between batches so a large first build does not stall the server.
+ */
+async function catchUpIndex(index: HnswIndex, generation: number): Promise<void> {
+    const state = indexState();
+    const pending = loadVectorCache().entries.filter((vec) => !index.has(vec.id)).map((vec) => vec.id);
+
+    for (let i = 0; i < pending.length; i += INDEX_BUILD_BATCH) {
+        await new Promise((resolve) => setImmediate(resolve));
+        if (state.generation !== generation) return;
+
+        // Vectors deleted meanwhile are gone from the cache and skipped
+        const cache = loadVectorCache();
+        for (const id of pending.slice(i, i + INDEX_BUILD_BATCH)) {
+            const row = cache.rowById.get(id);
+            if (row !== undefined && cache.entries[row].dimensions === index.dimensions && !index.has(id)) {
+                index.add(id);
+            }
+        }
+    }
+
+    state.building = false;
+    state.ready = true;
+    if (pending.length > 0) scheduleIndexSave();
 }
 
-function invalidateCache(): void {
-    _cacheStale = true;
+function indexVector(id: string, embedding: number[]): void {
+    const { index } = indexState();
+    if (!index || embedding.length !== index.dimensions) return;
+    index.add(id);
+    scheduleIndexSave();
+}
+
+function unindexVectors(ids: string[]): void {
+    const state = indexState();
+    if (!state.index || state.index.remove(ids) === 0) return;
+
+    // Mostly empty slots: rebuild from the live vectors rather than keep
+    // carrying them
+    if (state.index.tombstones > state.index.size) {
+        resetVectorIndex();
+        return;
+    }
+    scheduleIndexSave();
+}
+
+function scheduleIndexSave(): void {
+    const state = indexState();
+    state.dirty = true;
+    if (state.saveTimer) clearTimeout(state.saveTimer);
+    state.saveTimer = setTimeout(() => {
+        state.saveTimer = null;
+        saveIndexFile(state);
+    }, INDEX_SAVE_DELAY_MS);
+    state.saveTimer.unref();
+}
+
+/**
+ * Write the index atomically (temp file, fsync, rename). Nothing is saved
+ * while the index is incomplete or the database is open read-only.
+ */
+function saveIndexFile(state: VectorIndexState): void {
+    if (!state.index || !state.ready || !state.dirty || isDatabaseReadOnly()) return;
+    const path = indexPath();
+    const tempPath = `${path}.tmp`;
+    try {
+        const fd = openSync(tempPath, "w");
+        try {
+            writeSync(fd, state.index.serialize());
+            fsyncSync(fd);
+        } finally {
+            closeSync(fd);
+        }
+        renameSync(tempPath, path);
+        state.dirty = false;
+    } catch {
+        // non-fatal: the index is rebuilt from the database if the file is missing
+    }
+}
+
+/**
+ * Discard the in-memory index; it is rebuilt on the next search.
+ */
+function resetVectorIndex(): void {
+    const state = indexState();
+    state.generation++;
+    state.index = null;
+    state.ready = false;
+    state.building = false;
+    state.dirty = false;
 }
 
 // ---------------------------------------------------------------------------
@@ -82,38 +422,25 @@ function invalidateCache(): void {
 // ---------------------------------------------------------------------------
 
 /**
- * Add content to the vector store. Embeds the text and stores the vector.
+ * Add content to the vector store. Embeds the text (see embedForStorage,
+ * which throws if the embedder keeps failing) and stores the vector, with
+ * the embedder's name in its metadata.
  */
 export async function addToVectorStore(
     content: string,
     sourceId: string,
     sourceType: string,
     confidence: number = 1.0,
-    metadata: Record<string, unknown> = {}
+    metadata: Record<string, unknown> = {},
+    project: string | null = null
 ): Promise<string> {
-    const embedding = await embed(content);
-    const id = uuidv4();
-
-    const preview =
-        content.length > 200 ? content.substring(0, 200) + "..." : content;
-
-    insertVector({
-        id,
-        source_id: sourceId,
-        source_type: sourceType,
-        content_preview: preview,
-        embedding: vectorToBuffer(embedding),
-        dimensions: embedding.length,
-        metadata: JSON.stringify(metadata),
-        confidence,
-    });
-
-    invalidateCache();
-    return id;
+    const { vector, embedder } = await embedForStorage(content);
+    return addVectorDirect(vector, content, sourceId, sourceType, confidence, { ...metadata, embedder }, project);
 }
 
 /**
- * Add content with a precomputed embedding vector.
+ * Add content with a precomputed embedding vector. `metadata.embedder`
+ * should name the embedder that produced it.
  */
 export function addVectorDirect(
     embedding: number[],
@@ -121,30 +448,32 @@ export function addVectorDirect(
     sourceId: string,
     sourceType: string,
     confidence: number = 1.0,
-    metadata: Record<string, unknown> = {}
+    metadata: Record<string, unknown> = {},
+    project: string | null = null
 ): string {
     const id = uuidv4();
     const preview =
         content.length > 200 ? content.substring(0, 200) + "..." : content;
 
-    insertVector({
+    const row = insertVector({
         id,
         source_id: sourceId,
         source_type: sourceType,
         content_preview: preview,
-        embedding: vectorToBuffer(embedding),
+        embedding: encodeEmbedding(embedding, storageQuantization(getConfig().embedding.quantization)),
         dimensions: embedding.length,
         metadata: JSON.stringify(metadata),
         confidence,
+        project,
     });
 
-    invalidateCache();
+    cacheInsert(row, embedding);
+    indexVector(id, embedding);
     return id;
 }
 
 /**
  * Search the vector store for the most similar content to the query.
- * Uses brute-force cosine similarity over all vectors.
  */
 export async function searchVectors(
     query: string,
@@ -155,8 +484,57 @@ export async function searchVectors(
     return searchVectorsByEmbedding(queryEmbedding, topK, filters);
 }
 
+function matchesFilter(vec: CachedVector, filters?: VectorSearchFilter): boolean {
+    if (!filters) return true;
+
+    if (
+        filters.sourceTypes &&
+        filters.sourceTypes.length > 0 &&
+        !filters.sourceTypes.includes(vec.sourceType)
+    ) {
+        return false;
+    }
+
+    const created = new Date(vec.createdAt).getTime();
+    if (filters.after && created < new Date(filters.after).getTime()) {
+        return false;
+    }
+
+    if (filters.before && created > new Date(filters.before).getTime()) {
+        return false;
+    }
+
+    if (
+        filters.minConfidence !== undefined &&
+        vec.confidence < filters.minConfidence
+    ) {
+        return false;
+    }
+
+    if (filters.project !== undefined && vec.project !== filters.project) {
+        return false;
+    }
+
+    return true;
+}
+
+function toSearchResult(vec: CachedVector, similarity: number): VectorSearchResult {
+    return {
+        id: vec.id,
+        sourceId: vec.sourceId,
+        sourceType: vec.sourceType,
+        contentPreview: vec.contentPreview,
+        similarity,
+        confidence: vec.confidence,
+        metadata: vec.metadata,
+        createdAt: vec.createdAt,
+    };
+}
+
 /**
- * Search using a precomputed query embedding.
+ * Search using a precomputed query embedding. Large stores are searched
+ * through the HNSW index; small ones, requests for most of the store, and
+ * filters that leave the index short of `topK` hits use an exact scan.
  */
 export function searchVectorsByEmbedding(
     queryEmbedding: number[],
@@ -164,54 +542,67 @@ export function searchVectorsByEmbedding(
     filters?: VectorSearchFilter
 ): VectorSearchResult[] {
     const cache = loadVectorCache();
-
-    // Compute similarities and apply filters
-    const scored: VectorSearchResult[] = [];
-
-    for (const vec of cache) {
-        // Apply filters
-        if (filters) {
-            if (
-                filters.sourceTypes &&
-                filters.sourceTypes.length > 0 &&
-                !filters.sourceTypes.includes(vec.sourceType)
-            ) {
-                continue;
-            }
-
-            if (filters.after && vec.createdAt < filters.after) {
-                continue;
-            }
-
-            if (filters.before && vec.createdAt > filters.before) {
-                continue;
-            }
-
-            if (
-                filters.minConfidence !== undefined &&
-                vec.confidence < filters.minConfidence
-            ) {
-                continue;
+    const { entries, rowById, matrix } = cache;
+    const config = getConfig().vectorIndex;
+
+    // A binary matrix only shortlists candidates, which are then re-scored
+    const binary = matrix.quantization === "binary" && queryEmbedding.length === matrix.width;
+    const candidates = binary ? topK * getConfig().embedding.rescoreMultiplier : topK;
+    let rows: number[] | null = null;
+
+    if (config.enabled && entries.length >= config.minVectors && topK < entries.length / 2) {
+        ensureVectorIndex(cache);
+        const { index, ready } = indexState();
+        if (index && ready && queryEmbedding.length === index.dimensions) {
+            const hits = index.search(queryEmbedding, candidates, Math.max(config.efSearch, candidates), (id) => {
+                const row = rowById.get(id);
+                return row !== undefined && matchesFilter(entries[row], filters);
+            });
+            if (hits.length >= topK) {
+                if (!binary) {
+                    return hits.map((hit) => toSearchResult(entries[rowById.get(hit.label)!], hit.similarity));
+                }
+                rows = hits.map((hit) => rowById.get(hit.label)!);
             }
         }
+    }
 
-        const similarity = cosineSimilarity(queryEmbedding, vec.embedding);
+    if (!rows) {
+        // Exact scan over the matrix: the rows that pass the filters
+        rows = [];
+        for (let row = 0; row < entries.length; row++) {
+            if (matchesFilter(entries[row], filters)) rows.push(row);
+        }
 
-        scored.push({
-            id: vec.id,
-            sourceId: vec.sourceId,
-            sourceType: vec.sourceType,
-            contentPreview: vec.contentPreview,
-            similarity,
-            confidence: vec.confidence,
-            metadata: vec.metadata,
-            createdAt: vec.createdAt,
-        });
+        // Binary rows: shortlist by Hamming distance
+        if (binary && rows.length > candidates) {
+            const queryBits = encodeEmbedding(queryEmbedding, "binary");
+            const distances = new Uint32Array(entries.length);
+            for (const row of rows) distances[row] = matrix.hammingDistance(row, queryBits);
+            rows = rows.sort((a, b) => distances[a] - distances[b]).slice(0, candidates);
+        }
     }
 
+    const scored = scoreRows(cache, rows, queryEmbedding);
+    const scores = new Float64Array(entries.length);
+    for (let i = 0; i < rows.length; i++) scores[rows[i]] = scored[i];
+
     // Sort by similarity descending and return top K
-    scored.sort((a, b) => b.similarity - a.similarity);
-    return scored.slice(0, topK);
+    rows.sort((a, b) => scores[b] - scores[a]);
+    return rows.slice(0, topK).map((row) => toSearchResult(entries[row], scores[row]));
+}
+
+/**
+ * Highest similarity between the query and any vector stored for
+ * `sourceId`, or undefined if the source has no vector. Looks at that
+ * source's vectors only.
+ */
+export function getSourceSimilarity(queryEmbedding: number[], sourceId: string): number | undefined {
+    const cache = loadVectorCache();
+    const ids = cache.idsBySource.get(sourceId);
+    if (!ids) return undefined;
+
+    return Math.max(...scoreRows(cache, ids.map((id) => cache.rowById.get(id)!), queryEmbedding));
 }
 
 /**
@@ -219,15 +610,18 @@ export function searchVectorsByEmbedding(
  */
 export function removeVector(id: string): void {
     deleteVector(id);
-    invalidateCache();
+    cacheRemove(id);
+    unindexVectors([id]);
 }
 
 /**
  * Remove all vectors associated with a source ID.
  */
 export function removeVectorsBySource(sourceId: string): void {
+    const ids = getVectorIdsBySourceId(sourceId);
     deleteVectorsBySourceId(sourceId);
-    invalidateCache();
+    for (const id of ids) cacheRemove(id);
+    unindexVectors(ids);
 }
 
 /**
@@ -238,8 +632,40 @@ export function getVectorStoreCount(): number {
 }
 
 /**
- * Force a cache reload on next search.
+ * Re-tag the cached vectors of `sourceIds` with `project`, after their rows
+ * were moved to it in the database (see updateSessionProject).
+ */
+export function setCachedVectorProject(sourceIds: string[], project: string | null): void {
+    const cache = cacheState();
+    if (!cache.loaded) return; // Loaded with the new project later
+    for (const sourceId of sourceIds) {
+        for (const id of cache.idsBySource.get(sourceId) ?? []) {
+            cache.entries[cache.rowById.get(id)!].project = project;
+        }
+    }
+}
+
+/**
+ * Force a cache reload on next search, after the vectors table was changed
+ * behind the vector store's back. The index reads from the cache, so it is
+ * rebuilt (or reloaded from its file) as well.
  */
 export function refreshVectorCache(): void {
-    invalidateCache();
+    cacheState().loaded = false;
+    resetVectorIndex();
+}
+
+/**
+ * Save the vector index if it changed, and release it and the vector
+ * cache. Call before closing the database.
+ */
+export function closeVectorStore(): void {
+    const state = indexState();
+    if (state.saveTimer) {
+        clearTimeout(state.saveTimer);
+        state.saveTimer = null;
+    }
+    saveIndexFile(state);
+    resetVectorIndex();
+    refreshVectorCache();
 }
@@ -0,0 +1,150 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { resolveConfig, setConfig } from "../src/config.js";
+import { initDatabase, closeDatabase, getSummariesByTier, getSummaryById } from "../src/database.js";
+import { startSession } from "../src/session.js";
+import { storeMemory, setCompressionSampler, compressMemory } from "../src/memory-manager.js";
+import { summarizeExtractive } from "../src/summarizer.js";
+import { countTokens } from "../src/token-counter.js";
+import { closeVectorStore } from "../src/vector-store.js";
+import { tempDataDir } from "./helpers.js";
+
+describe("working memory overflow", () => {
+    const temp = tempDataDir();
+
+    before(async () => {
+        setConfig(resolveConfig({
+            storage: { dataDir: temp.dir },
+            embedding: { provider: "hashed" },
+            compression: { tier0OverflowThreshold: 30 },
+        }));
+        await initDatabase();
+        await startSession(undefined, null);
+    });
+
+    after(() => {
+        setCompressionSampler(null);
+        closeVectorStore();
+        closeDatabase();
+        temp.cleanup();
+    });
+
+    it("keeps the entries until their summary is stored", async () => {
+        let release: (summary: string) => void = () => {};
+        let samplerCalled: () => void = () => {};
+        const called = new Promise<void>((resolve) => (samplerCalled = resolve));
+        setCompressionSampler(() => {
+            samplerCalled();
+            return new Promise((resolve) => (release = resolve));
+        });
+
+        const notes = [
+            "The staging deploy failed because the migration lock timed out.",
+            "We raised the lock timeout to thirty seconds and retried the deploy.",
+            "The retry succeeded and staging now runs the new search service.",
+        ];
+        for (const note of notes.slice(0, 2)) await storeMemory(note, "event");
+        const overflowing = storeMemory(notes[2], "event");
+
+        // While the client's model is summarizing, nothing has been deleted
+        await called;
+        assert.equal(getSummariesByTier(0).length, 3);
+        assert.equal(getSummariesByTier(1).length, 0);
+
+        release("Staging deploy failed on a migration lock timeout; raising it to 30s fixed it.");
+        await overflowing;
+
+        // The oldest half went into the summary and only then left working memory
+        const remaining = getSummariesByTier(0).map((row) => row.content);
+        assert.deepEqual(remaining.sort(), notes.slice(1).sort());
+        const summaries = getSummariesByTier(1);
+        assert.equal(summaries.length, 1);
+        assert.match(summaries[0].content, /migration lock timeout/);
+    });
+});
+
+describe("extractive summarizer", () => {
+    const passages = [
+        "The billing service retries failed webhooks three times. Retries back off exponentially from one second. Lunch was pizza again.",
+        "The billing service retries failed webhooks three times.",
+        "Stripe delivers webhook events to the billing service. The billing service stores each webhook event in Postgres.",
+    ];
+
+    it("returns input that fits the budget unchanged", () => {
+        const result = summarizeExtractive(passages, 1000);
+        assert.equal(result.text, passages.join("\n"));
+        assert.equal(result.tokens, countTokens(result.text));
+    });
+
+    it("keeps the most central sentences within the budget, in their original order", () => {
+        const budget = 40;
+        const { text, tokens } = summarizeExtractive(passages, budget, ["Stripe", "Postgres"]);
+        assert.ok(tokens <= budget && countTokens(text) <= budget, `${tokens} tokens`);
+
+        // Every sentence comes from the input, in input order
+        const source = passages.join(" ");
+        let cursor = 0;
+        for (const sentence of text.split(/(?<=\.)\s+/)) {
+            const position = source.indexOf(sentence, cursor);
+            assert.ok(position >= 0, `out of order or not extracted: ${sentence}`);
+            cursor = position + sentence.length;
+        }
+
+        // The repeated sentence is kept once, and the known entity's sentence makes the cut
+        assert.equal(text.split("The billing service retries").length - 1, 1);
+        assert.match(text, /Postgres/);
+    });
+});
+
+describe("session and epoch compression scope", () => {
+    const temp = tempDataDir();
+    let otherSessionSummary: string;
+    let factId: string;
+    let consolidated: string;
+
+    /** Store two events and compress them into a Tier 1 summary */
+    async function sessionNote(topic: string): Promise<string> {
+        await storeMemory(`The ${topic} migration started on the replica before the primary.`, "event");
+        await storeMemory(`The ${topic} migration finished and the replica caught up within a minute.`, "event");
+        return (await compressMemory("working")).summaryId!;
+    }
+
+    before(async () => {
+        setConfig(resolveConfig({
+            storage: { dataDir: temp.dir },
+            embedding: { provider: "hashed" },
+            compression: { tier1ConsolidationCount: 2 },
+        }));
+        await initDatabase();
+        await startSession(undefined, null);
+        otherSessionSummary = await sessionNote("orders");
+        await startSession(undefined, null);
+    });
+
+    after(() => {
+        closeVectorStore();
+        closeDatabase();
+        temp.cleanup();
+    });
+
+    it("merges only the current session's summaries", async () => {
+        factId = (await storeMemory("The orders database runs on Postgres 16 with two replicas.", "fact")).memoryId;
+        const notes = [await sessionNote("accounts"), await sessionNote("invoices")];
+
+        const result = await compressMemory("session");
+        assert.deepEqual([...result.sourceIds].sort(), [...notes].sort());
+        consolidated = result.summaryId!;
+        assert.ok(getSummaryById(otherSessionSummary));
+        assert.ok(getSummaryById(factId));
+    });
+
+    it("promotes only the current session's summaries to an epoch", async () => {
+        const notes = [consolidated, await sessionNote("payments")];
+
+        const epoch = await compressMemory("epoch");
+        assert.equal(epoch.tier, 2);
+        assert.deepEqual([...epoch.sourceIds].sort(), [...notes].sort());
+        assert.ok(getSummaryById(otherSessionSummary));
+        assert.ok(getSummaryById(factId));
+    });
+});
@@ -0,0 +1,85 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { resolveConfig, setConfig } from "../src/config.js";
+import { initDatabase, closeDatabase, getSummaryById } from "../src/database.js";
+import {
+    startSession,
+    resumeSession,
+    endCurrentSession,
+    getCurrentSessionIdOrNull,
+    createSessionState,
+    runWithSessionState,
+} from "../src/session.js";
+import { storeMemory, forgetMemory, getWorkingMemoryEntries } from "../src/memory-manager.js";
+import { closeVectorStore } from "../src/vector-store.js";
+import { tempDataDir } from "./helpers.js";
+
+describe("connection isolation", () => {
+    const temp = tempDataDir();
+    const owner = createSessionState();
+    const other = createSessionState();
+
+    before(async () => {
+        setConfig(resolveConfig({ storage: { dataDir: temp.dir }, embedding: { provider: "hashed" } }));
+        await initDatabase();
+        await runWithSessionState(owner, () => startSession(undefined, null));
+        await runWithSessionState(other, () => startSession(undefined, null));
+    });
+
+    after(() => {
+        closeVectorStore();
+        closeDatabase();
+        temp.cleanup();
+    });
+
+    it("cannot forget another connection's working memory", async () => {
+        const { memoryId } = await runWithSessionState(owner, () =>
+            storeMemory("The owner connection is migrating the billing tables to the new schema this afternoon.", "event")
+        );
+
+        const result = await runWithSessionState(other, () => forgetMemory(memoryId, "delete"));
+        assert.equal(result.applied, false);
+
+        assert.ok(getSummaryById(memoryId), "the tier-0 row should still exist");
+        const entries = runWithSessionState(owner, () => getWorkingMemoryEntries());
+        assert.deepEqual(entries.map((e) => e.id), [memoryId]);
+    });
+});
+
+describe("resuming a session across connections", () => {
+    const temp = tempDataDir();
+    const owner = createSessionState();
+    const other = createSessionState();
+    let sessionId: string;
+
+    before(async () => {
+        setConfig(resolveConfig({ storage: { dataDir: temp.dir }, embedding: { provider: "hashed" } }));
+        await initDatabase();
+        ({ sessionId } = await runWithSessionState(owner, () => startSession(undefined, null)));
+        await runWithSessionState(other, () => startSession(undefined, null));
+    });
+
+    after(() => {
+        closeVectorStore();
+        closeDatabase();
+        temp.cleanup();
+    });
+
+    it("refuses a session another connection has active", async () => {
+        await assert.rejects(
+            runWithSessionState(other, () => resumeSession(sessionId)),
+            /is active on another connection/
+        );
+        assert.notEqual(runWithSessionState(other, () => getCurrentSessionIdOrNull()), sessionId);
+    });
+
+    it("hands the session over once its connection has ended it", async () => {
+        runWithSessionState(owner, () => endCurrentSession());
+        const result = await runWithSessionState(other, () => resumeSession(sessionId));
+        assert.equal(result.sessionId, sessionId);
+        assert.equal(runWithSessionState(other, () => getCurrentSessionIdOrNull()), sessionId);
+
+        // ...and the first connection can no longer take it back
+        await assert.rejects(runWithSessionState(owner, () => resumeSession(sessionId)), /is active on another connection/);
+    });
+});
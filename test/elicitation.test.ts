@@ -0,0 +1,94 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { ElicitRequestSchema, type ElicitResult } from "@modelcontextprotocol/sdk/types.js";
+import { resolveConfig, setConfig } from "../src/config.js";
+import { initDatabase, closeDatabase, getSummaryById } from "../src/database.js";
+import { closeVectorStore } from "../src/vector-store.js";
+import { tempDataDir, connectInMemory, callTool } from "./helpers.js";
+
+describe("destructive tool confirmation", () => {
+    const temp = tempDataDir();
+    let client: Client;
+    /** Confirmation messages the client was shown */
+    const prompts: string[] = [];
+    let answer: ElicitResult;
+
+    const store = async (content: string, memoryType = "event") =>
+        (await callTool(client, "memory_store", { content, memory_type: memoryType })).structured.memoryId as string;
+
+    before(async () => {
+        setConfig(resolveConfig({ storage: { dataDir: temp.dir }, embedding: { provider: "hashed" } }));
+        await initDatabase();
+
+        client = new Client({ name: "test", version: "1.0.0" }, { capabilities: { elicitation: {} } });
+        client.setRequestHandler(ElicitRequestSchema, async (request) => {
+            prompts.push(request.params.message);
+            return answer;
+        });
+        await connectInMemory(client);
+        await callTool(client, "session_start");
+    });
+
+    after(async () => {
+        await client.close();
+        closeVectorStore();
+        closeDatabase();
+        temp.cleanup();
+    });
+
+    it("annotates every tool, marking the destructive ones", async () => {
+        const { tools } = await client.listTools();
+        for (const tool of tools) {
+            assert.equal(typeof tool.annotations?.readOnlyHint, "boolean", tool.name);
+            assert.equal(typeof tool.annotations?.destructiveHint, "boolean", tool.name);
+        }
+        const annotations = Object.fromEntries(tools.map((tool) => [tool.name, tool.annotations]));
+        assert.equal(annotations.memory_retrieve?.readOnlyHint, true);
+        assert.equal(annotations.memory_forget?.destructiveHint, true);
+        assert.equal(annotations.memory_compress?.destructiveHint, true);
+    });
+
+    it("keeps the memory when the user declines a delete", async () => {
+        const memoryId = await store("The feature flag for the new checkout flow is enabled for ten percent of users.");
+        prompts.length = 0;
+        answer = { action: "decline" };
+
+        const { text, structured } = await callTool(client, "memory_forget", { memory_id: memoryId, action: "delete" });
+        assert.equal(text, "Cancelled — nothing was removed.");
+        assert.equal(structured.applied, false);
+        assert.ok(getSummaryById(memoryId));
+
+        assert.equal(prompts.length, 1);
+        assert.match(prompts[0], /permanently remove 1 entry from Tier 0 \(~\d+ tokens\)/);
+        assert.match(prompts[0], /new checkout flow/);
+    });
+
+    it("deletes only after the user confirms", async () => {
+        const memoryId = await store("The staging environment now mirrors production traffic for the search service.");
+        answer = { action: "accept", content: { confirm: false } };
+        await callTool(client, "memory_forget", { memory_id: memoryId, action: "delete" });
+        assert.ok(getSummaryById(memoryId));
+
+        answer = { action: "accept", content: { confirm: true } };
+        const { structured } = await callTool(client, "memory_forget", { memory_id: memoryId, action: "delete" });
+        assert.equal(structured.applied, true);
+        assert.equal(getSummaryById(memoryId), undefined);
+    });
+
+    it("previews what a compression would consume", async () => {
+        await store("The team agreed that the retrospective moves to Friday afternoons from now on.", "fact");
+        await store("The team agreed that design reviews need two approvals before merging.", "fact");
+        prompts.length = 0;
+        answer = { action: "decline" };
+
+        const { structured } = await callTool(client, "memory_compress", { scope: "working" });
+        assert.equal(structured.summaryId, null);
+        assert.match(prompts[0], /^Compressing 'working' into a summary will permanently remove 1 entry from Tier 0/);
+
+        // Stored facts are not session summaries, so consolidation has nothing to ask about
+        prompts.length = 0;
+        await callTool(client, "memory_compress", { scope: "session" });
+        assert.equal(prompts.length, 0);
+    });
+});
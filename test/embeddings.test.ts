@@ -0,0 +1,157 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type Server, type ServerResponse } from "http";
+import type { AddressInfo } from "net";
+import { resolveConfig, setConfig } from "../src/config.js";
+import { initDatabase, closeDatabase, getAllVectors, getDatabaseStats } from "../src/database.js";
+import { storeMemory } from "../src/memory-manager.js";
+import { embed, embedBatch } from "../src/embeddings.js";
+import { OpenAiCompatibleProvider } from "../src/embedding-providers.js";
+import { closeVectorStore } from "../src/vector-store.js";
+import { HASHED_DIMENSIONS } from "../src/hashed-embedder.js";
+import { tempDataDir } from "./helpers.js";
+
+const DIMENSIONS = 8;
+
+/**
+ * A stub `/v1/embeddings` endpoint that hands each request's inputs to
+ * `respond`. Resolves to the server and its API root.
+ */
+async function stubEndpoint(respond: (input: string[], res: ServerResponse) => void): Promise<{ server: Server; baseUrl: string }> {
+    const server = createServer((req, res) => {
+        let body = "";
+        req.on("data", (chunk) => (body += chunk));
+        req.on("end", () => respond((JSON.parse(body) as { input: string[] }).input, res));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    return { server, baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1` };
+}
+
+function sendJson(res: ServerResponse, body: unknown): void {
+    res.writeHead(200, { "Content-Type": "application/json" }).end(JSON.stringify(body));
+}
+
+describe("embedding failures", () => {
+    const temp = tempDataDir();
+    let server: Server;
+    /** Requests the stub answers with HTTP 503 before it starts working */
+    let failures = 0;
+
+    before(async () => {
+        let baseUrl: string;
+        ({ server, baseUrl } = await stubEndpoint((input, res) => {
+            if (failures > 0) {
+                failures--;
+                res.writeHead(503).end("overloaded");
+                return;
+            }
+            sendJson(res, { data: input.map((_, index) => ({ index, embedding: new Array(DIMENSIONS).fill(index + 1) })) });
+        }));
+
+        setConfig(resolveConfig({
+            storage: { dataDir: temp.dir },
+            embedding: { provider: "openai", model: "stub-model", openai: { baseUrl } },
+        }));
+        await initDatabase();
+    });
+
+    after(async () => {
+        closeVectorStore();
+        closeDatabase();
+        await new Promise((resolve) => server.close(resolve));
+        temp.cleanup();
+    });
+
+    it("retries a failing endpoint and records the embedder with the vector", async () => {
+        failures = 2;
+        const { vectorId } = await storeMemory("The deploy pipeline pins Node 20 for every service image.", "fact");
+
+        const row = getAllVectors().find((vector) => vector.id === vectorId)!;
+        assert.equal(row.dimensions, DIMENSIONS);
+        assert.equal(JSON.parse(row.metadata).embedder, "stub-model");
+    });
+
+    it("fails the store instead of keeping a hashed stand-in", async () => {
+        const before = getDatabaseStats();
+        failures = 3;
+        await assert.rejects(
+            storeMemory("The staging database is rebuilt from the nightly snapshot at 02:00.", "fact"),
+            /HTTP 503/
+        );
+        assert.deepEqual(getDatabaseStats(), before);
+    });
+
+    it("still answers queries with the hashed embedder while the endpoint is down", async () => {
+        failures = 1;
+        assert.equal((await embed("staging database snapshot")).length, HASHED_DIMENSIONS);
+    });
+});
+
+describe("OpenAI-compatible provider", () => {
+    let server: Server;
+    let baseUrl: string;
+    let respond: (input: string[], res: ServerResponse) => void;
+    /** Number of inputs in each request received */
+    const requests: number[] = [];
+
+    /** Stub embedding of input "<n>": [n, 1] */
+    const numbered = (input: string[]) => input.map((text, index) => ({ index, embedding: [Number(text), 1] }));
+
+    before(async () => {
+        ({ server, baseUrl } = await stubEndpoint((input, res) => {
+            requests.push(input.length);
+            respond(input, res);
+        }));
+    });
+
+    after(async () => {
+        server.closeAllConnections();
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    function provider(timeoutMs = 5000): OpenAiCompatibleProvider {
+        return new OpenAiCompatibleProvider("stub-model", { baseUrl, apiKey: "", batchSize: 64, timeoutMs });
+    }
+
+    it("splits batches at openai.batchSize", async () => {
+        setConfig(resolveConfig({ embedding: { provider: "openai", model: "stub-model", openai: { baseUrl, batchSize: 2 } } }));
+        respond = (input, res) => sendJson(res, { data: numbered(input) });
+        requests.length = 0;
+
+        const vectors = await embedBatch(["0", "1", "2", "3", "4"]);
+        assert.deepEqual(requests, [2, 2, 1]);
+        assert.deepEqual(vectors.map(([n]) => n), [0, 1, 2, 3, 4]);
+    });
+
+    it("puts embeddings back in input order by their index", async () => {
+        respond = (input, res) => sendJson(res, { data: numbered(input).reverse() });
+        const vectors = await provider().embed(["10", "11", "12"]);
+        assert.deepEqual(vectors, [[10, 1], [11, 1], [12, 1]]);
+    });
+
+    it("rejects responses with the wrong number or shape of embeddings", async () => {
+        respond = (input, res) => sendJson(res, { data: numbered(input).slice(1) });
+        await assert.rejects(provider().embed(["1", "2"]), /returned 1 embeddings for 2 inputs/);
+
+        respond = (input, res) => sendJson(res, { data: [{ index: 0, embedding: [1, 2] }, { index: 1, embedding: [1, 2, 3] }] });
+        await assert.rejects(provider().embed(["1", "2"]), /embeddings of different lengths/);
+
+        respond = (_, res) => sendJson(res, { data: [{ index: 0, embedding: ["a", "b"] }] });
+        await assert.rejects(provider().embed(["1"]), /malformed embedding/);
+
+        respond = (_, res) => sendJson(res, { data: [{ index: 0, embedding: [1, 2] }, { index: 0, embedding: [3, 4] }] });
+        await assert.rejects(provider().embed(["1", "2"]), /no embedding for input 1/);
+    });
+
+    it("gives up after timeoutMs", async () => {
+        respond = () => {}; // Never answers
+        const start = Date.now();
+        await assert.rejects(provider(200).embed(["1"]), /did not answer within 200 ms/);
+        assert.ok(Date.now() - start < 2000);
+    });
+
+    it("reports non-2xx responses with their status and body", async () => {
+        respond = (_, res) => res.writeHead(500).end("model not found");
+        await assert.rejects(provider().embed(["1"]), /returned HTTP 500: model not found/);
+    });
+});
@@ -0,0 +1,17 @@
+// Stores memories in the data directory given as the first argument, prints
+// the session ID, and kills itself without closing anything.
+
+import { LatentContext } from "../../src/latent-context.js";
+import { TEST_CONFIG } from "../helpers.js";
+
+const dataDir = process.argv[2];
+const count = Number(process.argv[3] ?? "5");
+
+const context = await LatentContext.open({ dataDir, config: TEST_CONFIG });
+for (let i = 0; i < count; i++) {
+    await context.store(`Core fact number ${i}: the service restarts cleanly after being killed.`, "core");
+}
+await context.store("Working memory note: the deploy was paused waiting for review.", "event");
+
+process.stdout.write(JSON.stringify({ sessionId: context.session?.sessionId }) + "\n");
+process.kill(process.pid, "SIGKILL");
@@ -0,0 +1,44 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { resolveConfig, setConfig } from "../src/config.js";
+import { initDatabase, closeDatabase, getSummaryById, getVectorsBySourceId } from "../src/database.js";
+import { startSession } from "../src/session.js";
+import { storeMemory, forgetMemory } from "../src/memory-manager.js";
+import { closeVectorStore } from "../src/vector-store.js";
+import { tempDataDir } from "./helpers.js";
+
+describe("memory_forget correct", () => {
+    const temp = tempDataDir();
+
+    before(async () => {
+        setConfig(resolveConfig({ storage: { dataDir: temp.dir }, embedding: { provider: "hashed" } }));
+        await initDatabase();
+        await startSession(undefined, null);
+    });
+
+    after(() => {
+        closeVectorStore();
+        closeDatabase();
+        temp.cleanup();
+    });
+
+    for (const memoryType of ["fact", "preference"] as const) {
+        it(`keeps a corrected ${memoryType}'s type, confidence and metadata`, async () => {
+            const { memoryId } = await storeMemory(`The team ${memoryType} says deploys happen on Tuesdays.`, memoryType, 0.7);
+            const correction = `The team ${memoryType} says deploys happen on Thursdays.`;
+
+            const result = await forgetMemory(memoryId, "correct", correction);
+            assert.equal(result.applied, true);
+            assert.equal(getSummaryById(memoryId)?.content, correction);
+
+            const vectors = getVectorsBySourceId(memoryId);
+            assert.equal(vectors.length, 1);
+            assert.equal(vectors[0].source_type, memoryType);
+            assert.equal(vectors[0].confidence, 0.7);
+            assert.equal(vectors[0].content_preview, correction);
+            const metadata = JSON.parse(vectors[0].metadata);
+            assert.equal(metadata.memoryType, memoryType);
+            assert.ok(metadata.embedder);
+        });
+    }
+});
@@ -0,0 +1,142 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { resolveConfig, setConfig } from "../src/config.js";
+import { initDatabase, closeDatabase } from "../src/database.js";
+import { closeVectorStore } from "../src/vector-store.js";
+import { ingestTriples, type GraphFact } from "../src/knowledge-graph.js";
+import { tempDataDir, connectInMemory, callTool } from "./helpers.js";
+
+describe("knowledge graph tools", () => {
+    const temp = tempDataDir();
+    let client: Client;
+
+    const factsWith = async (predicate: string) =>
+        (await callTool(client, "graph_facts_by_predicate", { predicate })).structured.facts as GraphFact[];
+
+    before(async () => {
+        setConfig(resolveConfig({ storage: { dataDir: temp.dir }, embedding: { provider: "hashed" } }));
+        await initDatabase();
+        client = await connectInMemory();
+        await callTool(client, "session_start");
+
+        await callTool(client, "graph_add_fact", {
+            subject: "Alice", predicate: "works_at", object: "Acme", subject_type: "person", object_type: "organization",
+        });
+        await callTool(client, "graph_add_fact", {
+            subject: "Alice", predicate: "uses", object: "PostgreSQL", object_type: "technology", confidence: 0.8,
+        });
+        await callTool(client, "graph_add_fact", { subject: "Acme", predicate: "located_in", object: "Berlin" });
+    });
+
+    after(async () => {
+        await client.close();
+        closeVectorStore();
+        closeDatabase();
+        temp.cleanup();
+    });
+
+    it("queries an entity's facts, following neighbors up to the requested depth", async () => {
+        const direct = await callTool(client, "graph_query", { entity: "alice" });
+        const entity = direct.structured.entity as { label: string; type: string };
+        assert.equal(entity.label, "Alice");
+        assert.equal(entity.type, "person");
+        assert.deepEqual((direct.structured.neighbors as string[]).sort(), ["Acme", "PostgreSQL"]);
+        assert.equal((direct.structured.facts as GraphFact[]).length, 2);
+        assert.match(direct.text, /works_at/);
+
+        const deep = await callTool(client, "graph_query", { entity: "Alice", depth: 2 });
+        assert.ok((deep.structured.facts as GraphFact[]).some((fact) => fact.object === "Berlin"));
+
+        const missing = await callTool(client, "graph_query", { entity: "Bob" });
+        assert.equal(missing.structured.entity, null);
+    });
+
+    it("lists facts by predicate with their confidence", async () => {
+        const { text } = await callTool(client, "graph_facts_by_predicate", { predicate: "uses" });
+        assert.equal(text, "Alice → uses → PostgreSQL [conf:0.80]");
+    });
+
+    it("deprecates or deletes a single fact", async () => {
+        const { structured } = await callTool(client, "graph_remove", {
+            subject: "Alice", predicate: "uses", object: "PostgreSQL", action: "deprecate",
+        });
+        assert.equal(structured.removed, true);
+        assert.deepEqual(await factsWith("uses"), []);
+
+        const again = await callTool(client, "graph_remove", { subject: "Alice", predicate: "uses", object: "PostgreSQL" });
+        assert.equal(again.structured.removed, false);
+    });
+
+    it("removes an entity with all of its facts", async () => {
+        const { structured } = await callTool(client, "graph_remove", { entity: "Acme" });
+        assert.equal(structured.removed, true);
+        assert.equal(structured.factsRemoved, 2);
+        assert.deepEqual(await factsWith("works_at"), []);
+        assert.deepEqual(await factsWith("located_in"), []);
+    });
+
+    it("rejects a removal that names neither an entity nor a whole fact", async () => {
+        const { text } = await callTool(client, "graph_remove", { subject: "Alice" }, true);
+        assert.match(text, /pass either 'entity'/);
+    });
+});
+
+describe("graph_ingest_triples", () => {
+    const temp = tempDataDir();
+    let client: Client;
+
+    before(async () => {
+        setConfig(resolveConfig({ storage: { dataDir: temp.dir }, embedding: { provider: "hashed" } }));
+        await initDatabase();
+        client = await connectInMemory();
+        await callTool(client, "session_start");
+        await callTool(client, "graph_add_fact", { subject: "Dana", predicate: "works_at", object: "Initech" });
+        await callTool(client, "graph_add_fact", { subject: "Dana", predicate: "uses", object: "Vim" });
+    });
+
+    after(async () => {
+        await client.close();
+        closeVectorStore();
+        closeDatabase();
+        temp.cleanup();
+    });
+
+    it("stores valid rows and reports duplicates, conflicts and rejected rows", async () => {
+        const { structured } = await callTool(client, "graph_ingest_triples", {
+            triples: [
+                { subject: "Dana", predicate: "works at", object: "Globex", subject_type: "person", object_type: "organization", confidence: 0.9 },
+                { subject: "Dana", predicate: "uses", object: "vim" },
+                { subject: "Dana", predicate: "uses", object: "Emacs", confidence: 0.7 },
+                { subject: "Dana", object: "Rust" },
+                { subject: "Dana", predicate: "likes", object: "Go", confidence: 2 },
+                "Dana likes tea",
+            ],
+        });
+
+        assert.deepEqual(structured.stored, ["Dana → works_at → Globex", "Dana → uses → Emacs"]);
+        assert.deepEqual(structured.duplicates, ["Dana → uses → vim"]);
+        assert.deepEqual(structured.conflicts, ["Dana → works_at: Initech replaced by Globex"]);
+        assert.deepEqual(structured.rejected, [
+            { index: 3, reason: "missing or empty 'predicate'" },
+            { index: 4, reason: "'confidence' must be a number between 0 and 1" },
+            { index: 5, reason: "not an object" },
+        ]);
+    });
+
+    it("writes each triple with its entity types and confidence", async () => {
+        const facts = (await callTool(client, "graph_facts_by_predicate", { predicate: "works_at" })).structured.facts as GraphFact[];
+        assert.deepEqual(facts.map((fact) => [fact.object, fact.objectType, fact.confidence]), [["Globex", "organization", 0.9]]);
+    });
+
+    it("ingests the model's raw reply, code fence and all", () => {
+        const reply = "```json\n[{\"subject\": \"Dana\", \"predicate\": \"lives_in\", \"object\": \"Oslo\"}]\n```";
+        assert.deepEqual(ingestTriples(reply).stored, ["Dana → lives_in → Oslo"]);
+        assert.deepEqual(ingestTriples("Dana lives in Oslo").rejected, [{ index: -1, reason: "input is not valid JSON" }]);
+    });
+
+    it("fails when nothing in the batch could be stored", async () => {
+        const { text } = await callTool(client, "graph_ingest_triples", { triples: [{ subject: "Dana" }] }, true);
+        assert.match(text, /Stored 0 of 1 triples/);
+    });
+});
@@ -0,0 +1,63 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { spawnSync } from "child_process";
+import { fileURLToPath } from "url";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import type { ConfigOverrides } from "../src/config.js";
+import { createServer } from "../src/server.js";
+
+/** Offline embeddings, so tests never try to download a model */
+export const TEST_CONFIG: ConfigOverrides = { embedding: { provider: "hashed" } };
+
+/**
+ * A fresh data directory, removed again by `cleanup()`.
+ */
+export function tempDataDir(): { dir: string; cleanup: () => void } {
+    const dir = mkdtempSync(join(tmpdir(), "latentcontext-test-"));
+    return { dir, cleanup: () => rmSync(dir, { recursive: true, force: true }) };
+}
+
+/**
+ * Run a script from test/fixtures in a separate Node process and return its
+ * stdout and how it exited.
+ */
+export function runFixture(name: string, args: string[]): { stdout: string; signal: NodeJS.Signals | null; status: number | null } {
+    const script = fileURLToPath(new URL(`./fixtures/${name}`, import.meta.url));
+    const result = spawnSync(process.execPath, ["--import", "tsx", script, ...args], {
+        encoding: "utf-8",
+        timeout: 60_000,
+    });
+    if (result.error) throw result.error;
+    return { stdout: result.stdout, signal: result.signal, status: result.status };
+}
+
+/**
+ * Connect `client` to a new server over an in-memory transport. Like the
+ * stdio server, it runs on the instance's default session state.
+ */
+export async function connectInMemory(client: Client = new Client({ name: "test", version: "1.0.0" })): Promise<Client> {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createServer().connect(serverTransport);
+    await client.connect(clientTransport);
+    return client;
+}
+
+/**
+ * Call a tool and return the text of its first content block. Fails the
+ * test if the tool reports an error, unless `expectError` is set.
+ */
+export async function callTool(
+    client: Client,
+    name: string,
+    args: Record<string, unknown> = {},
+    expectError = false
+): Promise<{ text: string; structured: Record<string, unknown> }> {
+    const result = await client.callTool({ name, arguments: args });
+    const [first] = result.content as { type: string; text: string }[];
+    if (Boolean(result.isError) !== expectError) {
+        throw new Error(`${name} ${expectError ? "succeeded" : "failed"}: ${first?.text}`);
+    }
+    return { text: first?.text ?? "", structured: (result.structuredContent ?? {}) as Record<string, unknown> };
+}
@@ -0,0 +1,93 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { HnswIndex, type HnswVectorSource } from "../src/hnsw.js";
+
+const VECTORS = 400;
+const DIMENSIONS = 32;
+const QUERIES = 20;
+const K = 10;
+
+// Seeded PRNG, so every run builds the same graph
+let seed = 11;
+function random(): number {
+    seed = (seed * 1664525 + 1013904223) >>> 0;
+    return seed / 4294967296;
+}
+
+function normalized(vector: number[]): number[] {
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return vector.map((value) => value / norm);
+}
+
+const sample = () => normalized(Array.from({ length: DIMENSIONS }, () => random() - 0.5));
+const dot = (a: ArrayLike<number>, b: ArrayLike<number>) => {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+    return sum;
+};
+
+const vectors = new Map<string, number[]>();
+for (let i = 0; i < VECTORS; i++) vectors.set(`v${i}`, sample());
+const queries = Array.from({ length: QUERIES }, sample);
+
+/** Vectors are unit length, so cosine similarity is the dot product */
+const source: HnswVectorSource = {
+    similarity: (a, b) => dot(vectors.get(a)!, vectors.get(b)!),
+    querySimilarity: (label, query, queryNorm) => dot(vectors.get(label)!, query) / queryNorm,
+};
+
+/** recall@K of `index` against an exact scan of the labels in `live` */
+function recall(index: HnswIndex, live: string[]): number {
+    let hits = 0;
+    for (const query of queries) {
+        const exact = new Set(
+            live.map((label) => [dot(vectors.get(label)!, query), label] as const)
+                .sort((a, b) => b[0] - a[0])
+                .slice(0, K)
+                .map(([, label]) => label)
+        );
+        hits += index.search(query, K, 64).filter((hit) => exact.has(hit.label)).length;
+    }
+    return hits / (QUERIES * K);
+}
+
+describe("HNSW index", () => {
+    const labels = [...vectors.keys()];
+    const index = new HnswIndex(DIMENSIONS, source, { m: 8, efConstruction: 100 });
+    for (const label of labels) index.add(label);
+
+    it("finds the exact nearest neighbours", () => {
+        assert.equal(index.size, VECTORS);
+        const r = recall(index, labels);
+        assert.ok(r >= 0.95, `recall@${K} ${r}`);
+    });
+
+    it("never returns removed labels and keeps recall over the rest", () => {
+        const removed = labels.filter((_, i) => i % 3 === 0);
+        // Removed one source at a time, as compression does
+        for (const label of removed) assert.equal(index.remove([label]), 1);
+        assert.equal(index.remove(removed.slice(0, 5)), 0);
+        assert.equal(index.size, VECTORS - removed.length);
+        assert.equal(index.tombstones, removed.length);
+
+        const live = labels.filter((label) => index.has(label));
+        const gone = new Set(removed);
+        for (const query of queries) {
+            assert.ok(index.search(query, K).every((hit) => !gone.has(hit.label)));
+        }
+        const r = recall(index, live);
+        assert.ok(r >= 0.9, `recall@${K} ${r}`);
+    });
+
+    it("keeps the repaired links through serialize and deserialize", () => {
+        const restored = HnswIndex.deserialize(index.serialize(), source);
+        assert.equal(restored.size, index.size);
+        assert.deepEqual(restored.search(queries[0], K), index.search(queries[0], K));
+
+        // Removing from the restored graph repairs it the same way
+        const next = [...restored.labelsInIndex()].slice(0, 10);
+        restored.remove(next);
+        index.remove(next);
+        assert.deepEqual(restored.search(queries[1], K), index.search(queries[1], K));
+    });
+});
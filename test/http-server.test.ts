@@ -0,0 +1,151 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { request } from "http";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { CreateMessageRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { resolveConfig, setConfig } from "../src/config.js";
+import { initDatabase, closeDatabase, getRecentSessions, getSummariesByTierAndSession } from "../src/database.js";
+import { closeVectorStore } from "../src/vector-store.js";
+import { startHttpServer, type HttpServerHandle } from "../src/http-server.js";
+import { tempDataDir } from "./helpers.js";
+
+const INITIALIZE = JSON.stringify({
+    jsonrpc: "2.0",
+    id: 1,
+    method: "initialize",
+    params: { protocolVersion: "2025-03-26", capabilities: {}, clientInfo: { name: "test", version: "1.0.0" } },
+});
+
+/** POST an initialize request with the given Host header; resolves to the status code */
+function initializeWithHost(port: number, host: string): Promise<number> {
+    return new Promise((resolve, reject) => {
+        const req = request(
+            {
+                host: "127.0.0.1",
+                port,
+                path: "/mcp",
+                method: "POST",
+                headers: {
+                    Host: host,
+                    "Content-Type": "application/json",
+                    Accept: "application/json, text/event-stream",
+                },
+            },
+            (res) => {
+                res.resume();
+                resolve(res.statusCode ?? 0);
+            }
+        );
+        req.on("error", reject);
+        req.end(INITIALIZE);
+    });
+}
+
+async function connectClient(port: number, sampling: boolean): Promise<Client> {
+    const client = new Client({ name: "test", version: "1.0.0" }, { capabilities: sampling ? { sampling: {} } : {} });
+    if (sampling) {
+        client.setRequestHandler(CreateMessageRequestSchema, async () => ({
+            role: "assistant",
+            model: "test",
+            content: { type: "text", text: "Summary written by the sampling client about the cache rollout." },
+        }));
+    }
+    await client.connect(new StreamableHTTPClientTransport(new URL(`http://127.0.0.1:${port}/mcp`)));
+    return client;
+}
+
+describe("streamable HTTP server", () => {
+    const temp = tempDataDir();
+    let server: HttpServerHandle;
+
+    before(async () => {
+        setConfig(resolveConfig({ storage: { dataDir: temp.dir }, embedding: { provider: "hashed" } }));
+        await initDatabase();
+        server = await startHttpServer({ host: "127.0.0.1", port: 0, path: "/mcp", log: () => {} });
+    });
+
+    after(async () => {
+        await server.close();
+        closeVectorStore();
+        closeDatabase();
+        temp.cleanup();
+    });
+
+    it("refuses requests for a host name it does not serve, without starting a session", async () => {
+        assert.equal(await initializeWithHost(server.port, `attacker.example:${server.port}`), 403);
+        assert.equal(getRecentSessions().length, 0);
+
+        assert.equal(await initializeWithHost(server.port, `localhost:${server.port}`), 200);
+        assert.equal(getRecentSessions().length, 1);
+    });
+
+    it("compresses with the sampler of the connection that asked", async () => {
+        const sampling = await connectClient(server.port, true);
+        // Connects last, so a process-wide sampler would now be unset
+        const plain = await connectClient(server.port, false);
+        try {
+            await sampling.callTool({
+                name: "memory_store",
+                arguments: {
+                    content: "The cache rollout reached every region today after the final canary in the EU passed its checks.",
+                    memory_type: "event",
+                },
+            });
+            const result = await sampling.callTool({ name: "memory_compress", arguments: { scope: "working" } });
+            assert.equal((result.structuredContent as { method: string }).method, "sampling");
+        } finally {
+            await sampling.close();
+            await plain.close();
+        }
+    });
+});
+
+describe("idle HTTP connections", () => {
+    const temp = tempDataDir();
+    let server: HttpServerHandle;
+
+    before(async () => {
+        setConfig(resolveConfig({
+            storage: { dataDir: temp.dir },
+            embedding: { provider: "hashed" },
+            session: { idleTimeoutMs: 300 },
+        }));
+        await initDatabase();
+        server = await startHttpServer({ host: "127.0.0.1", port: 0, path: "/mcp", log: () => {} });
+    });
+
+    after(async () => {
+        await server.close();
+        closeVectorStore();
+        closeDatabase();
+        temp.cleanup();
+    });
+
+    it("archives the session and closes the connection after the idle timeout", async () => {
+        const client = await connectClient(server.port, false);
+        await client.callTool({
+            name: "memory_store",
+            arguments: {
+                content: "The idle client was halfway through renaming the billing tables when it went quiet.",
+                memory_type: "event",
+            },
+        });
+
+        // Requests keep the connection open
+        for (let i = 0; i < 3; i++) {
+            await new Promise((resolve) => setTimeout(resolve, 150));
+            await client.callTool({ name: "memory_status", arguments: {} });
+        }
+        assert.equal(server.connectionCount(), 1);
+
+        await new Promise((resolve) => setTimeout(resolve, 600));
+        assert.equal(server.connectionCount(), 0);
+
+        const [session] = getRecentSessions();
+        assert.ok(session.ended_at);
+        assert.match(getSummariesByTierAndSession(1, session.id)[0].content, /renaming the billing tables/);
+        await assert.rejects(client.callTool({ name: "memory_status", arguments: {} }));
+        await client.close();
+    });
+});
@@ -0,0 +1,62 @@
+import { describe, it, after } from "node:test";
+import assert from "node:assert/strict";
+import { LatentContext } from "../src/latent-context.js";
+import { TEST_CONFIG, tempDataDir } from "./helpers.js";
+
+describe("LatentContext", () => {
+    const temps = [tempDataDir(), tempDataDir()];
+    const open: LatentContext[] = [];
+
+    async function openContext(dataDir: string, project: string | null = null): Promise<LatentContext> {
+        const context = await LatentContext.open({ dataDir, config: TEST_CONFIG, project });
+        open.push(context);
+        return context;
+    }
+
+    after(async () => {
+        for (const context of open) await context.close();
+        for (const temp of temps) temp.cleanup();
+    });
+
+    it("runs isolated instances side by side", async () => {
+        const billing = await openContext(temps[0].dir, "billing");
+        const search = await openContext(temps[1].dir, "search");
+
+        const { memoryId } = await billing.store("Invoices are generated on the first business day of each month.", "fact");
+        await search.store("The search index is rebuilt every night from the product catalogue.", "event");
+
+        assert.equal(billing.session?.project, "billing");
+        assert.equal(search.session?.project, "search");
+        assert.deepEqual((await billing.retrieve("invoices")).memories.map((m) => m.id), [memoryId]);
+        assert.equal((await search.retrieve("invoices")).memories.length, 1);
+        assert.equal(billing.status().tiers.tier1.count, 1);
+        assert.equal(search.status().tiers.tier1.count, 0);
+
+        const corrected = await billing.forget(memoryId, "correct", "Invoices are generated on the second business day of each month.");
+        assert.equal(corrected.applied, true);
+        assert.match((await billing.retrieve("invoices")).text, /second business day/);
+    });
+
+    it("keeps memories across close and reopen, recallable from the next session", async () => {
+        const first = await openContext(temps[0].dir, "billing");
+        // The first test's instance still holds this directory
+        assert.ok(first.status().storage.readOnly);
+        for (const context of open.splice(0)) await context.close();
+
+        const reopened = await openContext(temps[0].dir, "billing");
+        assert.equal(reopened.status().storage.readOnly, false);
+        assert.equal((await reopened.retrieve("invoices")).memories.length, 0);
+        assert.match((await reopened.recall("invoices")).text, /second business day/);
+
+        const sessions = reopened.listSessions();
+        assert.equal(sessions.length, 2);
+        await reopened.resumeSession(sessions[1].sessionId);
+        assert.match((await reopened.retrieve("invoices")).text, /second business day/);
+    });
+
+    it("refuses calls after close", async () => {
+        const context = await openContext(temps[1].dir);
+        await context.close();
+        assert.throws(() => context.status(), /LatentContext is closed/);
+    });
+});
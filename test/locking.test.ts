@@ -0,0 +1,153 @@
+import { describe, it, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { hostname } from "os";
+import { join } from "path";
+import { spawnSync } from "child_process";
+import { LatentContext } from "../src/latent-context.js";
+import { resolveConfig, setConfig } from "../src/config.js";
+import { initDatabase, closeDatabase, getAccessFrequency } from "../src/database.js";
+import { acquireLock, releaseLock } from "../src/db-lock.js";
+import { TEST_CONFIG, tempDataDir } from "./helpers.js";
+
+/** PID of a process that has already exited */
+function deadPid(): number {
+    const result = spawnSync(process.execPath, ["-e", "process.stdout.write(String(process.pid))"], { encoding: "utf-8" });
+    return Number(result.stdout);
+}
+
+describe("database lock", () => {
+    let cleanup = () => {};
+    afterEach(() => cleanup());
+
+    it("is exclusive until released", () => {
+        const temp = tempDataDir();
+        cleanup = temp.cleanup;
+        const lockPath = join(temp.dir, "memory.db.lock");
+
+        assert.deepEqual(acquireLock(lockPath), { acquired: true, staleOwner: null });
+        const second = acquireLock(lockPath);
+        assert.equal(second.acquired, false);
+        assert.equal(!second.acquired && second.owner.pid, process.pid);
+
+        releaseLock(lockPath);
+        assert.ok(!existsSync(lockPath));
+        assert.equal(acquireLock(lockPath).acquired, true);
+    });
+
+    it("takes over a lock whose owner is gone", () => {
+        const temp = tempDataDir();
+        cleanup = temp.cleanup;
+        const lockPath = join(temp.dir, "memory.db.lock");
+        const pid = deadPid();
+        writeFileSync(lockPath, JSON.stringify({ pid, hostname: hostname(), acquiredAt: "" }));
+
+        const result = acquireLock(lockPath);
+        assert.equal(result.acquired, true);
+        assert.equal(result.acquired && result.staleOwner?.pid, pid);
+        assert.equal(JSON.parse(readFileSync(lockPath, "utf-8")).pid, process.pid);
+    });
+
+    it("takes over an unreadable lock file", () => {
+        const temp = tempDataDir();
+        cleanup = temp.cleanup;
+        const lockPath = join(temp.dir, "memory.db.lock");
+        writeFileSync(lockPath, "{not json");
+
+        assert.equal(acquireLock(lockPath).acquired, true);
+    });
+
+    it("leaves a lock held by another host alone", () => {
+        const temp = tempDataDir();
+        cleanup = temp.cleanup;
+        const lockPath = join(temp.dir, "memory.db.lock");
+        writeFileSync(lockPath, JSON.stringify({ pid: deadPid(), hostname: `${hostname()}-elsewhere`, acquiredAt: "" }));
+
+        assert.equal(acquireLock(lockPath).acquired, false);
+        releaseLock(lockPath); // Not ours — must not be removed
+        assert.ok(existsSync(lockPath));
+    });
+
+    it("opens a second instance on the same directory read-only", async () => {
+        const temp = tempDataDir();
+        cleanup = temp.cleanup;
+
+        const owner = await LatentContext.open({ dataDir: temp.dir, config: TEST_CONFIG });
+        await owner.store("Stored by the lock owner.", "core");
+
+        const reader = await LatentContext.open({ dataDir: temp.dir, config: TEST_CONFIG });
+        try {
+            const { storage } = reader.status();
+            assert.equal(storage.readOnly, true);
+            assert.match(storage.warning ?? "", new RegExp(`PID ${process.pid}`));
+            assert.match(reader.coreMemory(), /Stored by the lock owner/);
+            assert.equal(owner.status().storage.readOnly, false);
+        } finally {
+            await reader.close();
+        }
+
+        // Closing the reader leaves the owner's lock in place
+        assert.ok(existsSync(join(temp.dir, "memory.db.lock")));
+        await owner.close();
+        assert.ok(!existsSync(join(temp.dir, "memory.db.lock")));
+    });
+
+    it("refuses writes while read-only and takes over once the owner exits", async () => {
+        const temp = tempDataDir();
+        cleanup = temp.cleanup;
+
+        const owner = await LatentContext.open({ dataDir: temp.dir, config: TEST_CONFIG });
+        const reader = await LatentContext.open({ dataDir: temp.dir, config: TEST_CONFIG });
+        const readerSession = reader.session!.sessionId;
+        try {
+            await assert.rejects(reader.store("Stored by the reader while the owner runs.", "core"), /Nothing was changed/);
+
+            // Written after the reader opened the database
+            await owner.store("Stored by the owner before it exits.", "core");
+            await owner.close();
+
+            await reader.store("Stored by the reader after taking over.", "core");
+            assert.equal(reader.status().storage.readOnly, false);
+            assert.match(reader.coreMemory(), /Stored by the owner before it exits/);
+        } finally {
+            await reader.close();
+        }
+
+        const reopened = await LatentContext.open({ dataDir: temp.dir, config: TEST_CONFIG, startSession: false });
+        try {
+            const core = reopened.coreMemory();
+            assert.match(core, /Stored by the owner before it exits/);
+            assert.match(core, /Stored by the reader after taking over/);
+            assert.doesNotMatch(core, /while the owner runs/);
+            // The session the reader started while read-only was carried over
+            assert.ok(reopened.listSessions().some((s) => s.sessionId === readerSession));
+        } finally {
+            await reopened.close();
+        }
+    });
+
+    it("does not carry the reader's access log over to a takeover", async () => {
+        const temp = tempDataDir();
+        cleanup = temp.cleanup;
+
+        const owner = await LatentContext.open({ dataDir: temp.dir, config: TEST_CONFIG });
+        const { memoryId } = await owner.store("The release train leaves every second Wednesday at noon.", "fact");
+        await owner.retrieve("release train");
+
+        const reader = await LatentContext.open({ dataDir: temp.dir, config: TEST_CONFIG });
+        for (let i = 0; i < 5; i++) {
+            assert.deepEqual((await reader.recall("release train")).memories.map((m) => m.id), [memoryId]);
+        }
+        await owner.close();
+        await reader.store("The release train skips the last Wednesday of December.", "fact");
+        await reader.close();
+
+        setConfig(resolveConfig({ ...TEST_CONFIG, storage: { dataDir: temp.dir } }));
+        await initDatabase();
+        try {
+            assert.equal(getAccessFrequency(memoryId), 1);
+        } finally {
+            closeDatabase();
+        }
+    });
+});
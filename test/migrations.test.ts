@@ -0,0 +1,113 @@
+import { describe, it, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import { createRequire } from "module";
+import { LatentContext } from "../src/latent-context.js";
+import { SCHEMA_VERSION } from "../src/database.js";
+import { TEST_CONFIG, tempDataDir } from "./helpers.js";
+
+const require = createRequire(import.meta.url);
+const initSqlJs = require("sql.js") as (config?: object) => Promise<{ Database: new (data?: Uint8Array) => SqlDatabase }>;
+
+interface SqlDatabase {
+    run(sql: string, params?: unknown[]): void;
+    exec(sql: string): { values: unknown[][] }[];
+    export(): Uint8Array;
+    close(): void;
+}
+
+/** A database as written before schema versioning existed (version 0) */
+async function writeLegacyDatabase(path: string): Promise<void> {
+    const SQL = await initSqlJs();
+    const db = new SQL.Database();
+    db.run(`
+CREATE TABLE summaries (id TEXT PRIMARY KEY, tier INTEGER NOT NULL DEFAULT 0, content TEXT NOT NULL,
+    token_count INTEGER NOT NULL DEFAULT 0, created_at TEXT NOT NULL, updated_at TEXT NOT NULL, session_id TEXT,
+    source_ids TEXT NOT NULL DEFAULT '[]', metadata TEXT NOT NULL DEFAULT '{}');
+CREATE TABLE sessions (id TEXT PRIMARY KEY, started_at TEXT NOT NULL, ended_at TEXT, metadata TEXT NOT NULL DEFAULT '{}');
+INSERT INTO summaries VALUES ('legacy-1', 3, 'Legacy core memory from before versioning.', 8, '2024-01-01', '2024-01-01', NULL, '[]', '{}');`);
+    writeFileSync(path, Buffer.from(db.export()));
+    db.close();
+}
+
+async function readSchemaVersions(path: string): Promise<number[]> {
+    const SQL = await initSqlJs();
+    const db = new SQL.Database(readFileSync(path));
+    try {
+        return db.exec("SELECT version FROM schema_version ORDER BY version")[0].values.map((row) => Number(row[0]));
+    } finally {
+        db.close();
+    }
+}
+
+describe("schema migrations", () => {
+    let cleanup = () => {};
+    afterEach(() => cleanup());
+
+    it("creates a new database at the current schema version", async () => {
+        const temp = tempDataDir();
+        cleanup = temp.cleanup;
+
+        const context = await LatentContext.open({ dataDir: temp.dir, config: TEST_CONFIG });
+        assert.equal(context.status().storage.schemaVersion, SCHEMA_VERSION);
+        await context.close();
+
+        const versions = await readSchemaVersions(join(temp.dir, "memory.db"));
+        assert.deepEqual(versions, Array.from({ length: SCHEMA_VERSION }, (_, i) => i + 1));
+    });
+
+    it("upgrades a legacy database, keeping its data and a backup", async () => {
+        const temp = tempDataDir();
+        cleanup = temp.cleanup;
+        const path = join(temp.dir, "memory.db");
+        await writeLegacyDatabase(path);
+        const original = readFileSync(path);
+
+        const context = await LatentContext.open({ dataDir: temp.dir, config: TEST_CONFIG, startSession: false });
+        try {
+            assert.equal(context.status().storage.schemaVersion, SCHEMA_VERSION);
+            assert.match(context.coreMemory(), /Legacy core memory/);
+            // Columns added by later migrations work on the old rows
+            await context.startSession("demo");
+            await context.store("New core memory in the demo project.", "core");
+        } finally {
+            await context.close();
+        }
+
+        assert.ok(existsSync(`${path}.v0.bak`));
+        assert.deepEqual(readFileSync(`${path}.v0.bak`), original);
+    });
+
+    it("does not migrate or back up a database that is already current", async () => {
+        const temp = tempDataDir();
+        cleanup = temp.cleanup;
+        const path = join(temp.dir, "memory.db");
+
+        await (await LatentContext.open({ dataDir: temp.dir, config: TEST_CONFIG })).close();
+        await (await LatentContext.open({ dataDir: temp.dir, config: TEST_CONFIG })).close();
+
+        assert.ok(!existsSync(`${path}.v0.bak`));
+        assert.equal((await readSchemaVersions(path)).length, SCHEMA_VERSION);
+    });
+
+    it("refuses to open a database from a newer version", async () => {
+        const temp = tempDataDir();
+        cleanup = temp.cleanup;
+        const path = join(temp.dir, "memory.db");
+
+        await (await LatentContext.open({ dataDir: temp.dir, config: TEST_CONFIG })).close();
+        const SQL = await initSqlJs();
+        const db = new SQL.Database(readFileSync(path));
+        db.run("INSERT INTO schema_version (version, description, applied_at) VALUES (?, 'from the future', '2099-01-01')", [SCHEMA_VERSION + 1]);
+        writeFileSync(path, Buffer.from(db.export()));
+        db.close();
+
+        await assert.rejects(
+            LatentContext.open({ dataDir: temp.dir, config: TEST_CONFIG }),
+            /newer than this version of LatentContext supports/
+        );
+        // The failed open released its lock
+        assert.ok(!existsSync(`${path}.lock`));
+    });
+});
@@ -0,0 +1,87 @@
+import { describe, it, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { appendFileSync, existsSync, statSync } from "fs";
+import { join } from "path";
+import { LatentContext } from "../src/latent-context.js";
+import { TEST_CONFIG, tempDataDir, runFixture } from "./helpers.js";
+
+function countFacts(context: LatentContext): number {
+    return (context.coreMemory().match(/Core fact number/g) ?? []).length;
+}
+
+describe("persistence", () => {
+    let cleanup = () => {};
+    afterEach(() => cleanup());
+
+    it("keeps every acknowledged write after the process is killed", async () => {
+        const temp = tempDataDir();
+        cleanup = temp.cleanup;
+
+        const child = runFixture("crash-writer.ts", [temp.dir, "5"]);
+        assert.equal(child.signal, "SIGKILL");
+        assert.ok(statSync(join(temp.dir, "memory.db.journal")).size > 0, "writes should be in the journal");
+
+        const context = await LatentContext.open({ dataDir: temp.dir, config: TEST_CONFIG, startSession: false });
+        try {
+            assert.equal(countFacts(context), 5);
+        } finally {
+            await context.close();
+        }
+    });
+
+    it("archives working memory left behind by a killed process into its session", async () => {
+        const temp = tempDataDir();
+        cleanup = temp.cleanup;
+
+        const { sessionId } = JSON.parse(runFixture("crash-writer.ts", [temp.dir, "1"]).stdout) as { sessionId: string };
+
+        const context = await LatentContext.open({ dataDir: temp.dir, config: TEST_CONFIG, startSession: false });
+        try {
+            // The orphaned session was ended and its entries summarized
+            assert.ok(context.listSessions().some((s) => s.sessionId === sessionId && s.endedAt !== null));
+            await context.resumeSession(sessionId);
+            const retrieved = await context.retrieve("deploy paused for review");
+            assert.match(retrieved.text, /deploy was paused/);
+        } finally {
+            await context.close();
+        }
+    });
+
+    it("ignores a torn record at the end of the journal", async () => {
+        const temp = tempDataDir();
+        cleanup = temp.cleanup;
+
+        runFixture("crash-writer.ts", [temp.dir, "3"]);
+        const journal = join(temp.dir, "memory.db.journal");
+        const intactBytes = statSync(journal).size;
+        appendFileSync(journal, '{"seq":999,"sql":"INSERT INTO summ');
+
+        const context = await LatentContext.open({ dataDir: temp.dir, config: TEST_CONFIG, startSession: false });
+        try {
+            assert.equal(countFacts(context), 3);
+            assert.ok(statSync(journal).size <= intactBytes, "the torn tail should be truncated");
+        } finally {
+            await context.close();
+        }
+    });
+
+    it("checkpoints into the snapshot and empties the journal on close", async () => {
+        const temp = tempDataDir();
+        cleanup = temp.cleanup;
+
+        const context = await LatentContext.open({ dataDir: temp.dir, config: TEST_CONFIG });
+        await context.store("Core fact number 1: snapshots are written atomically.", "core");
+        await context.close();
+
+        assert.ok(existsSync(join(temp.dir, "memory.db")));
+        assert.equal(statSync(join(temp.dir, "memory.db.journal")).size, 0);
+        assert.ok(!existsSync(join(temp.dir, "memory.db.tmp")), "no temporary snapshot should be left behind");
+
+        const reopened = await LatentContext.open({ dataDir: temp.dir, config: TEST_CONFIG, startSession: false });
+        try {
+            assert.equal(countFacts(reopened), 1);
+        } finally {
+            await reopened.close();
+        }
+    });
+});
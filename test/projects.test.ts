@@ -0,0 +1,36 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { resolveConfig, setConfig } from "../src/config.js";
+import { initDatabase, closeDatabase } from "../src/database.js";
+import { startSession, setCurrentProject } from "../src/session.js";
+import { storeMemory } from "../src/memory-manager.js";
+import { searchVectors, closeVectorStore } from "../src/vector-store.js";
+import { tempDataDir } from "./helpers.js";
+
+describe("project scoping", () => {
+    const temp = tempDataDir();
+
+    before(async () => {
+        setConfig(resolveConfig({ storage: { dataDir: temp.dir }, embedding: { provider: "hashed" } }));
+        await initDatabase();
+        await startSession(undefined, null);
+    });
+
+    after(() => {
+        closeVectorStore();
+        closeDatabase();
+        temp.cleanup();
+    });
+
+    it("moves vectors stored before the project was known into it", async () => {
+        const { memoryId } = await storeMemory("The billing service retries webhooks three times.", "fact");
+        // Searching loads the vector cache with the memory still unscoped
+        assert.equal((await searchVectors("billing webhooks", 5, { project: null })).length, 1);
+
+        setCurrentProject("billing");
+
+        const scoped = await searchVectors("billing webhooks", 5, { project: "billing" });
+        assert.deepEqual(scoped.map((hit) => hit.sourceId), [memoryId]);
+        assert.equal((await searchVectors("billing webhooks", 5, { project: null })).length, 0);
+    });
+});
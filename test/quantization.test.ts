@@ -0,0 +1,112 @@
+import { describe, it, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { statSync } from "fs";
+import { resolveConfig, setConfig } from "../src/config.js";
+import { initDatabase, closeDatabase, getDatabasePath } from "../src/database.js";
+import { addVectorDirect, searchVectorsByEmbedding, closeVectorStore } from "../src/vector-store.js";
+import type { Quantization } from "../src/quantization.js";
+import { tempDataDir } from "./helpers.js";
+
+const VECTORS = 600;
+const DIMENSIONS = 128;
+const QUERIES = 20;
+const K = 10;
+
+// Seeded PRNG, so every run stores the same data
+let seed = 7;
+function random(): number {
+    seed = (seed * 1664525 + 1013904223) >>> 0;
+    return seed / 4294967296;
+}
+
+function gaussian(): number {
+    return Math.sqrt(-2 * Math.log(random() + 1e-12)) * Math.cos(2 * Math.PI * random());
+}
+
+function normalized(vector: number[]): number[] {
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return vector.map((value) => value / norm);
+}
+
+// Clustered like sentence embeddings, as in scripts/bench-quantization.ts
+const centroids = Array.from({ length: 24 }, () => normalized(Array.from({ length: DIMENSIONS }, gaussian)));
+function sample(): number[] {
+    const centroid = centroids[Math.floor(random() * centroids.length)];
+    return normalized(centroid.map((value) => value + gaussian() * 0.05));
+}
+
+const data = Array.from({ length: VECTORS }, sample);
+const queries = Array.from({ length: QUERIES }, sample);
+
+/** Exact float64 cosine scores of every stored vector, by source id */
+const truth = queries.map((query) => {
+    const scores = new Map<string, number>();
+    data.forEach((vector, i) => scores.set(`v${i}`, vector.reduce((sum, value, d) => sum + value * query[d], 0)));
+    const top = [...scores.keys()].sort((a, b) => scores.get(b)! - scores.get(a)!).slice(0, K);
+    return { scores, top: new Set(top) };
+});
+
+/**
+ * Store the data under `quantization` and measure search against the exact
+ * scores: recall@K and the mean score error of the returned hits.
+ */
+async function measure(
+    dataDir: string,
+    quantization: Quantization,
+    minVectors: number
+): Promise<{ recall: number; scoreError: number }> {
+    setConfig(resolveConfig({
+        storage: { dataDir },
+        embedding: { provider: "hashed", quantization },
+        vectorIndex: { minVectors },
+    }));
+    await initDatabase();
+    data.forEach((vector, i) => addVectorDirect(vector, `Synthetic vector ${i}`, `v${i}`, "fact"));
+
+    // The first search starts the background index build; let it finish
+    searchVectorsByEmbedding(queries[0], K);
+    for (let i = 0; i < 20; i++) await new Promise((resolve) => setImmediate(resolve));
+
+    let hits = 0;
+    let error = 0;
+    queries.forEach((query, q) => {
+        const results = searchVectorsByEmbedding(query, K);
+        hits += results.filter((result) => truth[q].top.has(result.sourceId)).length;
+        for (const result of results) error += Math.abs(result.similarity - truth[q].scores.get(result.sourceId)!);
+    });
+    return { recall: hits / (QUERIES * K), scoreError: error / (QUERIES * K) };
+}
+
+describe("quantization accuracy", () => {
+    let temp: ReturnType<typeof tempDataDir> | null = null;
+
+    afterEach(() => {
+        closeVectorStore();
+        closeDatabase();
+        temp?.cleanup();
+        temp = null;
+    });
+
+    for (const [quantization, minRecall] of [["none", 1], ["int8", 0.95], ["binary", 0.95]] as const) {
+        it(`${quantization}: exact scan keeps recall@${K} and scores close to float32`, async () => {
+            temp = tempDataDir();
+            const { recall, scoreError } = await measure(temp.dir, quantization, VECTORS + 1);
+            assert.ok(recall >= minRecall, `recall@${K} ${recall}`);
+            assert.ok(scoreError < 0.005, `mean score error ${scoreError}`);
+        });
+    }
+
+    for (const quantization of ["int8", "binary"] as const) {
+        it(`${quantization}: the HNSW index reads the quantized matrix and saves links only`, async () => {
+            temp = tempDataDir();
+            const { recall, scoreError } = await measure(temp.dir, quantization, 100);
+            assert.ok(recall >= 0.9, `recall@${K} ${recall}`);
+            assert.ok(scoreError < 0.005, `mean score error ${scoreError}`);
+
+            const indexPath = `${getDatabasePath()}.hnsw`;
+            closeVectorStore();
+            // Float copies alone would take VECTORS × DIMENSIONS × 4 bytes
+            assert.ok(statSync(indexPath).size < (VECTORS * DIMENSIONS * 4) / 2);
+        });
+    }
+});
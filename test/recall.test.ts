@@ -0,0 +1,58 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { resolveConfig, setConfig } from "../src/config.js";
+import { initDatabase, closeDatabase } from "../src/database.js";
+import { startSession } from "../src/session.js";
+import { storeMemory, compressMemory } from "../src/memory-manager.js";
+import { assembleContext, recallMemories } from "../src/context-assembler.js";
+import { closeVectorStore } from "../src/vector-store.js";
+import { tempDataDir } from "./helpers.js";
+
+const QUERY = "What did we decide about the checkout cache?";
+
+describe("memory_recall scoping", () => {
+    const temp = tempDataDir();
+    const ids: Record<string, string> = {};
+    let pastSession: string;
+
+    before(async () => {
+        setConfig(resolveConfig({ storage: { dataDir: temp.dir }, embedding: { provider: "hashed" } }));
+        await initDatabase();
+
+        ({ sessionId: pastSession } = await startSession(undefined, "shop"));
+        await storeMemory("We decided the checkout cache keeps carts for thirty minutes.", "event");
+        ids.pastNote = (await compressMemory("working")).summaryId!;
+        ids.pastEvent = (await storeMemory("The checkout cache is flushed on every price change.", "event")).memoryId;
+
+        await startSession(undefined, "blog");
+        ids.otherProject = (await storeMemory("We decided the checkout cache of the blog shop widget is disabled.", "event")).memoryId;
+
+        await startSession(undefined, "shop");
+        ids.current = (await storeMemory("Today we are reviewing the checkout cache metrics dashboard.", "event")).memoryId;
+    });
+
+    after(() => {
+        closeVectorStore();
+        closeDatabase();
+        temp.cleanup();
+    });
+
+    it("finds past sessions' notes and events of the current project, labelled with their origin", async () => {
+        const result = await recallMemories(QUERY, 4000);
+        const found = result.memories.map((memory) => memory.id);
+        assert.ok(found.includes(ids.pastNote));
+        assert.ok(found.includes(ids.pastEvent));
+        assert.ok(result.text.includes(`(session ${pastSession.substring(0, 20)}, ${new Date().toISOString().substring(0, 10)})`));
+    });
+
+    it("leaves out the current session and other projects", async () => {
+        const found = (await recallMemories(QUERY, 4000)).memories.map((memory) => memory.id);
+        assert.ok(!found.includes(ids.current));
+        assert.ok(!found.includes(ids.otherProject));
+    });
+
+    it("is never part of memory_retrieve", async () => {
+        const found = (await assembleContext(QUERY, 4000)).memories.map((memory) => memory.id);
+        assert.deepEqual(found, [ids.current]);
+    });
+});
@@ -0,0 +1,171 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import {
+    ResourceUpdatedNotificationSchema,
+    ResourceListChangedNotificationSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { resolveConfig, setConfig } from "../src/config.js";
+import { initDatabase, closeDatabase } from "../src/database.js";
+import { closeVectorStore } from "../src/vector-store.js";
+import type { SessionListItem } from "../src/session.js";
+import { tempDataDir, connectInMemory, callTool } from "./helpers.js";
+
+describe("resource templates and completion", () => {
+    const temp = tempDataDir();
+    let client: Client;
+    const ids: Record<string, string> = {};
+    const sessions: Record<string, string> = {};
+
+    const readText = async (uri: string) => {
+        const [content] = (await client.readResource({ uri })).contents;
+        return (content as { text: string }).text;
+    };
+    const complete = async (uri: string, name: string, value: string) =>
+        (await client.complete({ ref: { type: "ref/resource", uri }, argument: { name, value } })).completion.values;
+
+    before(async () => {
+        setConfig(resolveConfig({ storage: { dataDir: temp.dir }, embedding: { provider: "hashed" } }));
+        await initDatabase();
+        client = await connectInMemory();
+
+        const start = async (project: string) =>
+            (await callTool(client, "session_start", { project })).structured.sessionId as string;
+        const store = async (content: string, memoryType: string) =>
+            (await callTool(client, "memory_store", { content, memory_type: memoryType })).structured.memoryId as string;
+
+        sessions.blog = await start("blog");
+        ids.blog = await store("The blog is built with a static site generator and deployed from the main branch.", "fact");
+        sessions.shop = await start("shop");
+        ids.shop = await store("The shop checkout sends order confirmations through the transactional mail service.", "fact");
+        await callTool(client, "graph_add_fact", { subject: "Checkout", predicate: "uses", object: "Mailer" });
+    });
+
+    after(async () => {
+        await client.close();
+        closeVectorStore();
+        closeDatabase();
+        temp.cleanup();
+    });
+
+    it("lists the four templates", async () => {
+        const { resourceTemplates } = await client.listResourceTemplates();
+        assert.deepEqual(resourceTemplates.map((t) => t.uriTemplate).sort(), [
+            "memory://entity/{label}",
+            "memory://memory/{id}",
+            "memory://session/{sessionId}",
+            "memory://tier/{n}",
+        ]);
+    });
+
+    it("reads a memory, a session, an entity and a tier", async () => {
+        assert.match(await readText(`memory://memory/${ids.shop}`), /^Tier 1 \| \d+ tokens .*\n\nThe shop checkout/);
+        assert.match(await readText(`memory://session/${sessions.shop.substring(0, 20)}`), new RegExp(`^Session ${sessions.shop} \\[shop\\]`));
+        assert.match(await readText("memory://entity/checkout"), /uses/);
+
+        const tier1 = JSON.parse(await readText("memory://tier/1")) as { id: string }[];
+        assert.deepEqual(tier1.map((memory) => memory.id), [ids.shop]);
+        await assert.rejects(readText("memory://tier/7"), /Unknown tier '7'/);
+    });
+
+    it("does not read another project's memories or sessions", async () => {
+        await assert.rejects(readText(`memory://memory/${ids.blog}`), /No memory with ID/);
+        await assert.rejects(readText(`memory://session/${sessions.blog}`), /No session found/);
+    });
+
+    it("completes IDs, labels and tiers from the current project only", async () => {
+        assert.deepEqual(await complete("memory://memory/{id}", "id", ids.shop.substring(0, 6)), [ids.shop]);
+        assert.deepEqual(await complete("memory://memory/{id}", "id", ids.blog.substring(0, 6)), []);
+        assert.deepEqual(await complete("memory://session/{sessionId}", "sessionId", ""), [sessions.shop]);
+        assert.deepEqual(await complete("memory://entity/{label}", "label", "mail"), ["Mailer"]);
+        assert.deepEqual(await complete("memory://tier/{n}", "n", ""), ["0", "1", "2", "3"]);
+    });
+
+    it("lists only the current project's sessions", async () => {
+        const listed = (await callTool(client, "session_list")).structured.sessions as SessionListItem[];
+        assert.deepEqual(listed.map((session) => session.sessionId), [sessions.shop]);
+    });
+});
+
+describe("resource subscriptions", () => {
+    const temp = tempDataDir();
+    let client: Client;
+    /** URIs of notifications/resources/updated received, and list_changed as "list" */
+    const received: string[] = [];
+
+    /** Run a tool call and return the notifications it caused */
+    const notified = async (name: string, args: Record<string, unknown>) => {
+        received.length = 0;
+        const result = await callTool(client, name, args);
+        await new Promise((resolve) => setImmediate(resolve));
+        return { result, uris: [...received].sort() };
+    };
+
+    before(async () => {
+        setConfig(resolveConfig({ storage: { dataDir: temp.dir }, embedding: { provider: "hashed" } }));
+        await initDatabase();
+        client = await connectInMemory();
+        client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+            received.push(notification.params.uri);
+        });
+        client.setNotificationHandler(ResourceListChangedNotificationSchema, () => {
+            received.push("list");
+        });
+        await callTool(client, "session_start");
+
+        for (const uri of ["memory://session/current", "memory://stats", "memory://core", "memory://tier/3", "memory://entity/Checkout"]) {
+            await client.subscribeResource({ uri });
+        }
+    });
+
+    after(async () => {
+        await client.close();
+        closeVectorStore();
+        closeDatabase();
+        temp.cleanup();
+    });
+
+    it("refuses to subscribe to unknown resources", async () => {
+        await assert.rejects(client.subscribeResource({ uri: "memory://nothing" }));
+    });
+
+    it("notifies the resources a store changes", async () => {
+        const content = "The checkout service retries payment captures twice before giving up on an order.";
+        const event = await notified("memory_store", { content, memory_type: "event" });
+        assert.deepEqual(event.uris, ["memory://session/current", "memory://stats"]);
+
+        const core = await notified("memory_store", { content: "The user is the tech lead of the checkout team at the company.", memory_type: "core" });
+        assert.deepEqual(core.uris, ["memory://core", "memory://session/current", "memory://stats", "memory://tier/3"]);
+    });
+
+    it("notifies a subscribed memory when it is forgotten", async () => {
+        const memoryId = (await callTool(client, "memory_store", {
+            content: "The checkout team decided to drop support for the legacy payment widget next quarter.",
+            memory_type: "fact",
+        })).structured.memoryId as string;
+        await client.subscribeResource({ uri: `memory://memory/${memoryId}` });
+
+        const { uris } = await notified("memory_forget", { memory_id: memoryId, action: "deprecate" });
+        assert.ok(uris.includes(`memory://memory/${memoryId}`));
+    });
+
+    it("notifies graph resources on graph edits", async () => {
+        const { uris } = await notified("graph_add_fact", { subject: "Checkout", predicate: "uses", object: "Stripe" });
+        assert.deepEqual(uris, ["memory://entity/Checkout", "memory://stats"]);
+    });
+
+    it("announces a list change when the session switches", async () => {
+        const { uris } = await notified("session_start", {});
+        assert.ok(uris.includes("list"));
+        assert.ok(uris.includes("memory://session/current"));
+    });
+
+    it("stops notifying after unsubscribe", async () => {
+        await client.unsubscribeResource({ uri: "memory://stats" });
+        const { uris } = await notified("memory_store", {
+            content: "The checkout dashboard now shows payment capture retries per hour for each region.",
+            memory_type: "event",
+        });
+        assert.deepEqual(uris, ["memory://session/current"]);
+    });
+});
@@ -0,0 +1,94 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { resolveConfig, setConfig } from "../src/config.js";
+import { initDatabase, closeDatabase } from "../src/database.js";
+import { startSession } from "../src/session.js";
+import { storeMemory } from "../src/memory-manager.js";
+import { assembleContext } from "../src/context-assembler.js";
+import { closeVectorStore } from "../src/vector-store.js";
+import { tempDataDir } from "./helpers.js";
+
+describe("memory_retrieve ranking", () => {
+    const temp = tempDataDir();
+    const ids: Record<string, string> = {};
+
+    before(async () => {
+        setConfig(resolveConfig({ storage: { dataDir: temp.dir }, embedding: { provider: "hashed" } }));
+        await initDatabase();
+        await startSession(undefined, null);
+
+        ids.billing = (await storeMemory("The billing service retries failed webhooks three times with backoff.", "event")).memoryId;
+        ids.search = (await storeMemory("The search cluster was resized to six nodes after the reindex.", "event")).memoryId;
+        ids.release = (await storeMemory("Release notes for version 2.4 were drafted and sent for review.", "event")).memoryId;
+    });
+
+    after(() => {
+        closeVectorStore();
+        closeDatabase();
+        temp.cleanup();
+    });
+
+    it("ranks each working memory entry by similarity to the query", async () => {
+        const result = await assembleContext("How many times does billing retry a failed webhook?", 4000);
+        assert.equal(result.candidatesConsidered, 3);
+        assert.equal(result.memories[0].id, ids.billing);
+        assert.ok(result.memories[0].score > result.memories[1].score);
+
+        const other = await assembleContext("How many nodes does the search cluster have?", 4000);
+        assert.equal(other.memories[0].id, ids.search);
+    });
+
+    it("spends a tight budget on the most relevant entry", async () => {
+        const result = await assembleContext("search cluster nodes reindex", 20);
+        assert.deepEqual(result.memories.map((memory) => memory.id), [ids.search]);
+    });
+});
+
+describe("memory_retrieve filters", () => {
+    const temp = tempDataDir();
+    const ids: Record<string, string> = {};
+
+    before(async () => {
+        setConfig(resolveConfig({ storage: { dataDir: temp.dir }, embedding: { provider: "hashed" } }));
+        await initDatabase();
+        await startSession(undefined, null);
+
+        ids.event = (await storeMemory("The payments deploy was rolled back after error rates doubled.", "event", 0.6)).memoryId;
+        ids.fact = (await storeMemory("The payments service runs on Postgres 16 in the eu-west region.", "fact")).memoryId;
+        ids.preference = (await storeMemory("The user prefers payments alerts to go to the on-call channel.", "preference")).memoryId;
+        ids.core = (await storeMemory("The user owns the payments platform team.", "core")).memoryId;
+    });
+
+    after(() => {
+        closeVectorStore();
+        closeDatabase();
+        temp.cleanup();
+    });
+
+    const selectedIds = async (filters: Parameters<typeof assembleContext>[2]) =>
+        (await assembleContext("payments", 4000, filters)).memories.map((memory) => memory.id).sort();
+
+    it("returns every memory type stored in this session without filters", async () => {
+        assert.deepEqual(await selectedIds(undefined), Object.values(ids).sort());
+    });
+
+    it("narrows working memory and session notes by memory type", async () => {
+        assert.deepEqual(await selectedIds({ sourceTypes: ["fact", "event"] }), [ids.event, ids.fact].sort());
+        assert.deepEqual(await selectedIds({ sourceTypes: ["preference"] }), [ids.preference]);
+    });
+
+    it("drops memories below the minimum confidence", async () => {
+        assert.ok(!(await selectedIds({ minConfidence: 0.8 })).includes(ids.event));
+    });
+
+    it("compares time windows as instants", async () => {
+        const hourAgo = new Date(Date.now() - 3600_000);
+        // Same instant as `hourAgo`, written with a +02:00 offset
+        const offset = new Date(hourAgo.getTime() + 2 * 3600_000).toISOString().replace("Z", "+02:00");
+        assert.equal((await selectedIds({ after: offset })).length, 4);
+
+        const result = await assembleContext("payments", 4000, { before: hourAgo.toISOString() });
+        assert.equal(result.memories.length, 0);
+        assert.match(result.text, /match the given filters/);
+    });
+});
@@ -0,0 +1,75 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { resolveConfig, setConfig } from "../src/config.js";
+import { initDatabase, closeDatabase } from "../src/database.js";
+import { closeVectorStore } from "../src/vector-store.js";
+import type { SessionListItem } from "../src/session.js";
+import { tempDataDir, connectInMemory, callTool } from "./helpers.js";
+
+const FIRST_NOTE = "Refactoring the invoice renderer into smaller template components, starting with the header.";
+const SECOND_NOTE = "Investigating flaky login tests that time out on the shared continuous integration runners.";
+
+describe("session_list and session_resume", () => {
+    const temp = tempDataDir();
+    let client: Client;
+    let first: string;
+    let second: string;
+
+    const sessions = async () => (await callTool(client, "session_list")).structured.sessions as SessionListItem[];
+    const retrieved = async (query: string) => (await callTool(client, "memory_retrieve", { query })).text;
+
+    before(async () => {
+        setConfig(resolveConfig({ storage: { dataDir: temp.dir }, embedding: { provider: "hashed" } }));
+        await initDatabase();
+        client = await connectInMemory();
+
+        first = (await callTool(client, "session_start")).structured.sessionId as string;
+        await callTool(client, "memory_store", { content: FIRST_NOTE, memory_type: "event" });
+        second = (await callTool(client, "session_start")).structured.sessionId as string;
+        await callTool(client, "memory_store", { content: SECOND_NOTE, memory_type: "event" });
+    });
+
+    after(async () => {
+        await client.close();
+        closeVectorStore();
+        closeDatabase();
+        temp.cleanup();
+    });
+
+    it("lists recent sessions newest first with titles, counts and end times", async () => {
+        const [newest, older] = await sessions();
+        assert.equal(newest.sessionId, second);
+        assert.equal(newest.isCurrent, true);
+        assert.equal(newest.endedAt, null);
+        assert.equal(newest.entryCount, 1);
+
+        assert.equal(older.sessionId, first);
+        assert.equal(older.isCurrent, false);
+        assert.ok(older.endedAt);
+        assert.equal(older.entryCount, 1); // its archived notes
+        assert.match(older.title, /^Refactoring the invoice renderer/);
+    });
+
+    it("resumes a session by ID prefix and scopes retrieval to it again", async () => {
+        assert.match(await retrieved("login tests"), /flaky login tests/);
+
+        const { structured } = await callTool(client, "session_resume", { session_id: first.substring(0, 20) });
+        assert.equal(structured.sessionId, first);
+        assert.equal(structured.previousSessionId, second);
+
+        const text = await retrieved("invoice renderer");
+        assert.match(text, /invoice renderer/);
+        assert.doesNotMatch(text, /flaky login tests/);
+
+        const [newest, older] = await sessions();
+        assert.equal(older.isCurrent, true);
+        assert.equal(older.endedAt, null);
+        assert.ok(newest.endedAt);
+    });
+
+    it("reports unknown session IDs", async () => {
+        const { text } = await callTool(client, "session_resume", { session_id: "0000" }, true);
+        assert.match(text, /No session found matching '0000'/);
+    });
+});
@@ -0,0 +1,68 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { resolveConfig, setConfig } from "../src/config.js";
+import { initDatabase, closeDatabase } from "../src/database.js";
+import { addVectorDirect, searchVectorsByEmbedding, refreshVectorCache, closeVectorStore } from "../src/vector-store.js";
+import { tempDataDir } from "./helpers.js";
+
+function unit(dimensions: number, hot: number): number[] {
+    const vector = new Array<number>(dimensions).fill(0.01);
+    vector[hot] = 1;
+    return vector;
+}
+
+describe("vector cache", () => {
+    const temp = tempDataDir();
+
+    before(async () => {
+        setConfig(resolveConfig({ storage: { dataDir: temp.dir }, embedding: { provider: "hashed" } }));
+        await initDatabase();
+    });
+
+    after(() => {
+        closeVectorStore();
+        closeDatabase();
+        temp.cleanup();
+    });
+
+    it("sizes the matrix for the most common embedding length, not the newest", async () => {
+        for (let i = 0; i < 3; i++) addVectorDirect(unit(16, i), `Sixteen-dimensional vector ${i}`, `old-${i}`, "fact");
+        // Newest row, from an embedder with another length
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        addVectorDirect(unit(8, 0), "Eight-dimensional vector", "new", "fact");
+
+        refreshVectorCache();
+        const hits = searchVectorsByEmbedding(unit(16, 1), 3);
+        assert.equal(hits[0].sourceId, "old-1");
+        assert.ok(hits[0].similarity > 0.9);
+    });
+});
+
+describe("vector search filters", () => {
+    const temp = tempDataDir();
+
+    before(async () => {
+        setConfig(resolveConfig({ storage: { dataDir: temp.dir }, embedding: { provider: "hashed" } }));
+        await initDatabase();
+        addVectorDirect(unit(16, 0), "A vector stored just now", "recent", "fact");
+    });
+
+    after(() => {
+        closeVectorStore();
+        closeDatabase();
+        temp.cleanup();
+    });
+
+    it("compares time windows as instants", () => {
+        const hourAgo = new Date(Date.now() - 3600_000);
+        // Same instant as `hourAgo`, written with a +02:00 offset; as a
+        // string it sorts after the stored UTC timestamp
+        const offset = new Date(hourAgo.getTime() + 2 * 3600_000).toISOString().replace("Z", "+02:00");
+        assert.deepEqual(searchVectorsByEmbedding(unit(16, 0), 5, { after: offset }).map((hit) => hit.sourceId), ["recent"]);
+
+        const hourAhead = new Date(Date.now() + 3600_000);
+        const behind = new Date(hourAhead.getTime() - 5 * 3600_000).toISOString().replace("Z", "-05:00");
+        assert.deepEqual(searchVectorsByEmbedding(unit(16, 0), 5, { before: behind }).map((hit) => hit.sourceId), ["recent"]);
+        assert.deepEqual(searchVectorsByEmbedding(unit(16, 0), 5, { before: hourAgo.toISOString() }), []);
+    });
+});
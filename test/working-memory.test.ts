@@ -0,0 +1,67 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { resolveConfig, setConfig } from "../src/config.js";
+import {
+    initDatabase,
+    closeDatabase,
+    getSummariesByTier,
+    getSummariesByTierAndSession,
+    getSessionById,
+} from "../src/database.js";
+import { startSession } from "../src/session.js";
+import { storeMemory, recoverWorkingMemory, getWorkingMemoryEntries } from "../src/memory-manager.js";
+import { closeVectorStore } from "../src/vector-store.js";
+import { tempDataDir } from "./helpers.js";
+
+const EVENTS = [
+    "The nightly backup job moved to the new object storage bucket.",
+    "The on-call rotation now hands over on Mondays at ten in the morning.",
+];
+
+describe("working memory persistence", () => {
+    const temp = tempDataDir();
+    let sessionId: string;
+
+    /** Close and reopen the database, as a restarted process would */
+    async function restart(): Promise<void> {
+        closeVectorStore();
+        closeDatabase();
+        await initDatabase();
+    }
+
+    before(async () => {
+        setConfig(resolveConfig({ storage: { dataDir: temp.dir }, embedding: { provider: "hashed" } }));
+        await initDatabase();
+        ({ sessionId } = await startSession(undefined, null));
+        for (const event of EVENTS) await storeMemory(event, "event");
+    });
+
+    after(() => {
+        closeVectorStore();
+        closeDatabase();
+        temp.cleanup();
+    });
+
+    it("writes each working memory entry through to a tier-0 row", () => {
+        const rows = getSummariesByTier(0);
+        assert.deepEqual(rows.map((row) => row.content).sort(), [...EVENTS].sort());
+        assert.ok(rows.every((row) => row.session_id === sessionId));
+    });
+
+    it("restores the kept session's entries after a restart", async () => {
+        await restart();
+        assert.equal(await recoverWorkingMemory(sessionId), EVENTS.length);
+        assert.deepEqual(getWorkingMemoryEntries().map((entry) => entry.content), EVENTS);
+        assert.equal(getSummariesByTier(0).length, EVENTS.length);
+    });
+
+    it("archives another session's entries into its Tier 1 notes and ends it", async () => {
+        await restart();
+        assert.equal(await recoverWorkingMemory(null), 0);
+
+        assert.equal(getSummariesByTier(0).length, 0);
+        const [archive] = getSummariesByTierAndSession(1, sessionId);
+        assert.equal(JSON.parse(archive.metadata).originalCount, EVENTS.length);
+        assert.ok(getSessionById(sessionId)?.ended_at);
+    });
+});